@@ -1,178 +1,715 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera, RefreshCw, XCircle, Play, CheckCircle, AlertCircle, ScanEye } from 'lucide-react';
-import { AppState, RepairPlan, ComponentInfo } from './types';
-import { analyzeImageAndCreatePlan, verifyRepairStep, askRepairAssistant, identifyComponentAtPoint } from './services/geminiService';
-import OverlayCanvas from './components/OverlayCanvas';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Camera, RefreshCw, XCircle, Play, CheckCircle, AlertCircle, ScanEye, History, FileJson, FileText, Video, Crosshair, WifiOff, OctagonAlert, ChevronLeft, GitBranch, Ear, Settings, ScanSearch, ListTree, Images, Printer, BookMarked, BookmarkPlus } from 'lucide-react';
+import { AppState, RepairPlan, ComponentInfo, Coordinates, PartTree, PlanTemplate, RepairSession, QueuedRequest, SafetyStop, VerificationResult, VoiceCommand } from './types';
+import type { RequestOptions } from './services/visionProvider';
+import { getVisionProvider } from './services/visionProvider';
+import { describeRequestError, resetUsageTally, getUsageTally, subscribeToUsage } from './services/requestPipeline';
+import { getStepCues } from './services/cueLayout';
+import { getStepHazards, requiresAcknowledgement, findStopCondition } from './services/safety';
+import { getNextStepIndex, getSessionPath, getStepProgress, isDecisionStep, matchDecisionOption } from './services/planNavigation';
+import { isSpeechRecognitionSupported, recognizeSpeech } from './services/speechRecognition';
+import { parseVoiceCommand } from './services/voiceCommands';
+import { KeyboardAction } from './services/keyboardShortcuts';
+import { describeStateForAnnouncement } from './services/announcements';
+import { speakText, describeStepForReading } from './services/speech';
+import { delay, isAbortError } from './services/abort';
+import { captureBurst, SequenceFrame } from './services/frameSequence';
+import { prepareFrame, captureSteadyFrame } from './services/framePreprocessing';
+import { getVideoConstraints, listCameras } from './services/camera';
+import { createSession, addKeyFrame, recordVerification, recordAssistantExchange, advanceSession, abandonSession, withChecklist, setChecklistItemChecked, setPartReplaced, acknowledgeHazards, isStepAcknowledged, stopSession, recordDecision, goBackSession, replanSession, getReferenceFrame, countFailedChecks, confirmVerification, isCheckPassed, getStepEvidence, recordBeforeFrame, recordAfterFrame, recordUsage, createSessionFromTemplate, recordDiagnosisFrames, getDiagnosisFrame } from './services/repairSession';
+import { saveSession, getSession, listSessions, deleteSession, getResumableSession } from './services/sessionStore';
+import { createPartTree, recordInspection, recordScan, mergePartTrees } from './services/partTree';
+import { getPartTree, savePartTree } from './services/partTreeStore';
+import { enqueueRequest, flushQueue, listQueuedRequests } from './services/offlineQueue';
+import { downloadSessionReport, ReportFormat } from './services/sessionReport';
+import { createTemplate, findMatchingTemplates, parseTemplateFile, selectTemplatesToImport, downloadTemplates, TemplateImportError } from './services/planTemplates';
+import { saveTemplate, deleteTemplate, listTemplates } from './services/templateStore';
+import { isLowConfidence, formatConfidence } from './services/confidence';
+import CueOverlay from './components/CueOverlay';
 import { ThinkingIndicator } from './components/ThinkingIndicator';
 import StepCard from './components/StepCard';
+import SessionHistory from './components/SessionHistory';
+import ChecklistScreen from './components/ChecklistScreen';
+import SafetyPanel from './components/SafetyPanel';
+import DecisionPanel from './components/DecisionPanel';
+import HandsFreeBar from './components/HandsFreeBar';
+import SettingsPanel from './components/SettingsPanel';
+import ComponentCard from './components/ComponentCard';
+import PartTreePanel from './components/PartTreePanel';
+import ConfidenceBadge from './components/ConfidenceBadge';
+import ConfirmCheckPanel from './components/ConfirmCheckPanel';
+import EvidenceGallery from './components/EvidenceGallery';
+import CameraControls from './components/CameraControls';
+import TemplateLibrary from './components/TemplateLibrary';
+import TemplateEditor from './components/TemplateEditor';
+import TemplateOffer from './components/TemplateOffer';
+import LiveAnnouncer from './components/LiveAnnouncer';
+import { useAppStateMachine } from './hooks/useAppStateMachine';
+import { useCueTracking } from './hooks/useCueTracking';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useHandsFree, Utterance } from './hooks/useHandsFree';
+import { usePreferences } from './hooks/usePreferences';
+import { useCameraControls } from './hooks/useCameraControls';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+
+// Failed checks on one step before the guide suggests re-planning
+const REPLAN_AFTER_FAILED_CHECKS = 2;
+// A drag smaller than this (percent of the view, both ways) counts as a tap
+const MIN_REGION_PCT = 4;
+// Lets the view settle on a new step before its "before" photo is taken
+const BEFORE_FRAME_DELAY_MS = 1000;
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.INTRO);
+  const { appState, machine } = useAppStateMachine();
   const [repairPlan, setRepairPlan] = useState<RepairPlan | null>(null);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [cameraActive, setCameraActive] = useState(false);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null); // To show frozen frame for AR stability
+  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null); // Hands-free listening shares the camera's audio track
+  const [capturedImage, setCapturedImage] = useState<string | null>(null); // Frozen frame for analysis, inspection and failed checks
+  const [planFrame, setPlanFrame] = useState<string | null>(null); // Frame the plan's cue coordinates refer to, used as the tracking reference
+
+  // Capture Mode: a single still, or a short clip for faults that only show in motion
+  const [captureMode, setCaptureMode] = useState<'photo' | 'clip'>('photo');
+  const [isRecordingClip, setIsRecordingClip] = useState(false);
   
   // Assistant State
   const [isListening, setIsListening] = useState(false);
+  const [isAskingAssistant, setIsAskingAssistant] = useState(false);
   const [assistantResponse, setAssistantResponse] = useState<string | null>(null);
 
   // Inspector State
   const [inspectorPoint, setInspectorPoint] = useState<{x: number, y: number} | null>(null);
   const [componentInfo, setComponentInfo] = useState<ComponentInfo | null>(null);
+  const [inspectorRegion, setInspectorRegion] = useState<Coordinates | null>(null); // Drag-selected area, 0-1000
+  const [scanResults, setScanResults] = useState<ComponentInfo[] | null>(null); // Identify-all boxes
+  const [dragSelection, setDragSelection] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null); // Percent of the view
+  const [partTree, setPartTree] = useState<PartTree | null>(null);
+  const [showPartTree, setShowPartTree] = useState(false);
+
+  // Session State
+  const [session, setSession] = useState<RepairSession | null>(null);
+  const [resumableSession, setResumableSession] = useState<RepairSession | null>(null);
+  const [historySessions, setHistorySessions] = useState<RepairSession[] | null>(null); // null while the history panel is closed
+
+  // Safety State
+  const [safetyStopReason, setSafetyStopReason] = useState<string | null>(null);
+
+  // Branching State
+  const [isAnsweringByVoice, setIsAnsweringByVoice] = useState(false);
+  const [unmatchedAnswer, setUnmatchedAnswer] = useState<string | null>(null); // Spoken answer that fit no option
+
+  // Confidence State
+  const [uncertainCheck, setUncertainCheck] = useState<{ result: VerificationResult; frame: string } | null>(null); // Waiting for the user to say whether the step is done
+  const [showAlternatives, setShowAlternatives] = useState(false);
+
+  // Template State
+  const [templates, setTemplates] = useState<PlanTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<PlanTemplate | null>(null);
+  const [templateOffer, setTemplateOffer] = useState<PlanTemplate[]>([]); // Saved fixes matching the last scan
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  // Offline State
+  const online = useOnlineStatus();
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  const { preferences, updatePreferences } = usePreferences();
+
+  // Camera State
+  const camera = useCameraControls(mediaStream);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [holdSteady, setHoldSteady] = useState(false); // A capture is waiting for a sharp frame
+  const pointersRef = useRef<Record<number, { x: number; y: number }>>({});
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const sessionRef = useRef<RepairSession | null>(null); // Latest session for queued replies that land later
+
+  // Re-anchor the current step's cues onto the live feed as the camera moves
+  const stepCues = useMemo(
+    () => repairPlan ? getStepCues(repairPlan.steps[currentStepIndex]) : [],
+    [repairPlan, currentStepIndex]
+  );
+  // High-severity steps stay locked until the user acknowledges them
+  const hazardsPending = !!repairPlan
+    && requiresAcknowledgement(repairPlan.steps[currentStepIndex])
+    && !(session && isStepAcknowledged(session, currentStepIndex));
+
+  // Re-planned steps have cue coordinates from the re-plan frame, not the original scan
+  const referenceFrame = (session && getReferenceFrame(session, currentStepIndex)) || planFrame;
+  const tracking = useCueTracking(videoRef, referenceFrame, stepCues, appState === AppState.REPAIR_GUIDE && !capturedImage);
+
+  const currentStep = repairPlan ? repairPlan.steps[currentStepIndex] : null;
+  const progress = repairPlan ? getStepProgress(repairPlan, currentStepIndex) : { position: 0, total: 0 };
+  const canGoBack = !!session && getSessionPath(session).length > 1;
+  const failedChecks = session ? countFailedChecks(session) : 0;
+  const alternativeDiagnoses = repairPlan && repairPlan.alternativeDiagnoses ? repairPlan.alternativeDiagnoses : [];
+  // The inspector also works on the live camera before a plan exists
+  const canInspect = (appState === AppState.REPAIR_GUIDE || appState === AppState.CAMERA_READY) && !isRecordingClip;
+
+  // Auto-read: each step is read once as it comes up, not again after a failed check
+  const lastReadStepRef = useRef<{ plan: RepairPlan; stepIndex: number } | null>(null);
+  useEffect(() => {
+    if (!preferences.autoReadSteps || !repairPlan || appState !== AppState.REPAIR_GUIDE) return;
+    const last = lastReadStepRef.current;
+    if (last && last.plan === repairPlan && last.stepIndex === currentStepIndex) return;
+    lastReadStepRef.current = { plan: repairPlan, stepIndex: currentStepIndex };
+    speak(describeStepForReading(repairPlan.steps[currentStepIndex], preferences.accessibilityMode));
+  }, [preferences.autoReadSteps, preferences.accessibilityMode, repairPlan, currentStepIndex, appState]);
+
+  // Each object keeps one part tree across repairs; parts inspected before the plan named it join that tree
+  const objectName = repairPlan ? repairPlan.objectName : null;
+  useEffect(() => {
+    if (!objectName) return;
+    let cancelled = false;
+    getPartTree(objectName).catch(() => null).then(stored => {
+      if (cancelled) return;
+      setPartTree(prev => {
+        const base = stored || createPartTree(objectName);
+        if (prev && prev.id === base.id) return prev;
+        return prev ? mergePartTrees(base, prev) : base;
+      });
+    });
+    return () => { cancelled = true; };
+  }, [objectName]);
+
+  useEffect(() => {
+    if (partTree) savePartTree(partTree).catch(console.error);
+  }, [partTree]);
+
+  // Offer to resume whatever was in progress when the page was last closed
+  useEffect(() => {
+    getResumableSession().then(setResumableSession).catch(console.error);
+    listTemplates().then(setTemplates).catch(console.error);
+  }, []);
+
+  // Persist every session change so a reload mid-repair loses nothing
+  useEffect(() => {
+    sessionRef.current = session;
+    if (session) saveSession(session).catch(console.error);
+  }, [session]);
+
+  // Model calls are tallied by the request pipeline; the session keeps the running total
+  useEffect(() => subscribeToUsage(tally => setSession(prev => prev && recordUsage(prev, tally))), []);
+
+  // Replay requests queued while offline as soon as the connection is back
+  useEffect(() => {
+    listQueuedRequests().then(requests => setQueuedCount(requests.length)).catch(console.error);
+    if (!online) return;
+    flushQueue(processQueuedRequest).then(setQueuedCount).catch(console.error);
+  }, [online]);
 
   // Initialize Camera
-  const startCamera = async () => {
+  const openCameraStream = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ 
+      video: getVideoConstraints(preferences.cameraDeviceId, preferences.cameraResolution),
+      audio: true // Request audio for assistant
+    });
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+    setMediaStream(stream);
+    // Device labels are only available once permission is granted
+    listCameras().then(setCameras).catch(err => console.warn('Could not list cameras', err));
+  };
+
+  // Also used by resume, replay and saved fixes, which can start from the live camera: an open stream is reused, not leaked
+  const startCamera = async (): Promise<boolean> => {
     try {
-      setAppState(AppState.CAMERA_READY);
+      machine.transition(AppState.CAMERA_READY, 'camera start');
       setCameraActive(true);
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
-        audio: true // Request audio for assistant
-      });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
+      if (mediaStream && mediaStream.getVideoTracks().some(track => track.readyState === 'live')) return true;
+      await openCameraStream();
+      return true;
     } catch (err) {
       setErrorMsg("Camera/Mic access denied. Please enable permissions.");
-      setAppState(AppState.ERROR);
+      machine.transition(AppState.ERROR, 'camera denied');
+      return false;
     }
   };
 
+  // Switching lens or resolution restarts the stream; the old one is released first so the camera is free
+  const cameraConfig = `${preferences.cameraDeviceId}|${preferences.cameraResolution}`;
+  const cameraConfigRef = useRef(cameraConfig);
+  useEffect(() => {
+    if (cameraConfigRef.current === cameraConfig) return;
+    cameraConfigRef.current = cameraConfig;
+    if (!mediaStream) return;
+    mediaStream.getTracks().forEach(track => track.stop());
+    openCameraStream().catch(err => {
+      console.error(err);
+      setAssistantResponse("Couldn't switch to that camera. Back to the default one.");
+      updatePreferences({ cameraDeviceId: '' });
+    });
+  }, [cameraConfig]);
+
+  const switchCamera = () => {
+    if (cameras.length < 2) return;
+    const track = mediaStream ? mediaStream.getVideoTracks()[0] : null;
+    const current = preferences.cameraDeviceId || (track ? track.getSettings().deviceId : '');
+    const index = cameras.findIndex(device => device.deviceId === current);
+    updatePreferences({ cameraDeviceId: cameras[(index + 1) % cameras.length].deviceId });
+  };
+
+  // Exposure-corrected and compressed to the upload budget; base64 without the data URL prefix
   const captureFrame = useCallback((): string | null => {
     if (!videoRef.current || !canvasRef.current) return null;
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    
-    // Match canvas to video dimensions
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    // Get base64 without prefix for API
-    const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-    const base64 = dataUrl.split(',')[1];
-    return base64;
+    const frame = prepareFrame(videoRef.current, canvasRef.current);
+    return frame ? frame.base64 : null;
   }, []);
 
+  // For scans and checks: waits briefly for a sharp frame, asking the user to hold steady
+  const captureSharpFrame = async (signal?: AbortSignal): Promise<string | null> => {
+    if (!videoRef.current || !canvasRef.current) return null;
+    const frame = await captureSteadyFrame(videoRef.current, canvasRef.current, { signal, onUnsteady: setHoldSteady });
+    return frame ? frame.base64 : null;
+  };
+
+  // Evidence: the first look at each step is kept as its "before" photo
+  const sessionId = session ? session.id : null;
+  const hasBeforeFrame = !!session && !!getStepEvidence(session, currentStepIndex)?.before;
+  useEffect(() => {
+    if (appState !== AppState.REPAIR_GUIDE || !sessionId || hasBeforeFrame) return;
+    const timer = window.setTimeout(() => {
+      const base64 = captureFrame();
+      if (base64) setSession(prev => prev && prev.id === sessionId ? recordBeforeFrame(prev, `data:image/jpeg;base64,${base64}`, currentStepIndex) : prev);
+    }, BEFORE_FRAME_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [appState, sessionId, hasBeforeFrame, currentStepIndex, captureFrame]);
+
+  const captureClip = async (signal?: AbortSignal): Promise<SequenceFrame[]> => {
+    if (!videoRef.current || !canvasRef.current) return [];
+    setIsRecordingClip(true);
+    try {
+      return await captureBurst(videoRef.current, canvasRef.current, { signal });
+    } finally {
+      setIsRecordingClip(false);
+    }
+  };
+
   const handleScan = async () => {
-    const base64 = captureFrame();
+    if (isRecordingClip || !online) return;
+    let frames: SequenceFrame[] = [];
+    let base64: string | null;
+    if (captureMode === 'clip') {
+      try {
+        frames = await captureClip(machine.signal);
+      } catch (err) {
+        if (!isAbortError(err)) console.error(err);
+        return;
+      }
+      base64 = frames.length ? frames[frames.length - 1].base64 : null;
+    } else {
+      try {
+        base64 = await captureSharpFrame(machine.signal);
+      } catch (err) {
+        if (!isAbortError(err)) console.error(err);
+        return;
+      }
+    }
     if (!base64) return;
+    if (!machine.transition(AppState.ANALYZING, 'scan')) return;
+    const { signal } = machine;
+    resetUsageTally();
 
     // Freeze frame UI by setting background to captured image
     setCapturedImage(`data:image/jpeg;base64,${base64}`);
-    setAppState(AppState.ANALYZING);
 
     try {
-      const plan = await analyzeImageAndCreatePlan(base64);
+      const plan = frames.length
+        ? await getVisionProvider().analyzeFrameSequence(frames, { signal, language: preferences.language })
+        : await getVisionProvider().analyzeImageAndCreatePlan(base64, { signal, language: preferences.language });
+      if (signal.aborted) return;
       setRepairPlan(plan);
       setCurrentStepIndex(0);
-      setAppState(AppState.REPAIR_GUIDE);
+      // The diagnosis call ran before there was a session to record it on
+      setSession(recordUsage(recordDiagnosisFrames(createSession(plan, `data:image/jpeg;base64,${base64}`), frames), getUsageTally()));
+      setPlanFrame(`data:image/jpeg;base64,${base64}`);
+      setTemplateOffer(findMatchingTemplates(templates, plan.objectName));
+      // Back to the live feed: cue tracking keeps the overlay on the object now
+      setCapturedImage(null);
+      machine.transition(AppState.CHECKLIST, 'plan ready');
     } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
       console.error(err);
-      setErrorMsg("Gemini could not identify the issue. Please try again with better lighting.");
-      setAppState(AppState.ERROR);
+      setErrorMsg(describeRequestError(err));
+      machine.transition(AppState.ERROR, 'analysis failed');
     }
   };
 
   const handleVerifyStep = async () => {
+    if (!repairPlan || hazardsPending) return;
+    if (isDecisionStep(repairPlan.steps[currentStepIndex])) {
+      setAssistantResponse('Answer the question above to continue.');
+      return;
+    }
+    if (!online) {
+      const base64 = captureFrame();
+      if (!base64) return;
+      await queueRequest({ kind: 'verify', image: base64, instruction: repairPlan.steps[currentStepIndex].instruction });
+      setAssistantResponse("You're offline. This check is queued and will run when you reconnect; carry on meanwhile.");
+      return;
+    }
+    if (!machine.transition(AppState.VERIFYING, 'verify')) return;
+    const { signal } = machine;
     setCapturedImage(null); 
-    setAppState(AppState.VERIFYING);
-    
-    setTimeout(async () => {
-        const base64 = captureFrame();
-        if (!base64) {
-             setAppState(AppState.REPAIR_GUIDE);
-             return; 
-        }
+    setUncertainCheck(null);
 
-        if (repairPlan) {
-            const currentStep = repairPlan.steps[currentStepIndex];
-            const result = await verifyRepairStep(base64, currentStep.instruction);
-            
-            if (result.completed) {
-                handleNextStep();
-            } else {
-                // alert(`Not quite done: ${result.feedback}`); // Better to show as assistant msg
-                setAssistantResponse(`Verification Info: ${result.feedback}`);
-                speak(result.feedback);
-                setAppState(AppState.REPAIR_GUIDE);
-                setCapturedImage(`data:image/jpeg;base64,${base64}`); 
-            }
-        }
-    }, 1500);
+    try {
+      // Give the live feed a moment to settle after unfreezing
+      await delay(1500, signal);
+      const frames = captureMode === 'clip' ? await captureClip(signal) : [];
+      const base64 = frames.length ? frames[frames.length - 1].base64 : await captureSharpFrame(signal);
+      if (!base64) {
+        machine.transition(AppState.REPAIR_GUIDE, 'no frame');
+        return;
+      }
+
+      const currentStep = repairPlan.steps[currentStepIndex];
+      const result = frames.length
+        ? await getVisionProvider().verifyFrameSequence(frames, currentStep.instruction, { signal, language: preferences.language })
+        : await getVisionProvider().verifyRepairStep(base64, currentStep.instruction, { signal, language: preferences.language });
+      if (signal.aborted) return;
+      setSession(prev => prev && recordVerification(addKeyFrame(prev, 'verification', `data:image/jpeg;base64,${base64}`), result));
+
+      const stopReason = findStopCondition(result);
+      if (stopReason) {
+        setCapturedImage(`data:image/jpeg;base64,${base64}`);
+        triggerSafetyStop('verification', stopReason);
+      } else if (isLowConfidence(result.confidence)) {
+        // Too unsure to move on or to call it a failure; the user decides
+        setUncertainCheck({ result, frame: `data:image/jpeg;base64,${base64}` });
+        setAssistantResponse(null);
+        speak(`I'm not sure. ${result.feedback} Is this step done?`);
+        machine.transition(AppState.REPAIR_GUIDE, 'verification uncertain');
+        setCapturedImage(`data:image/jpeg;base64,${base64}`);
+      } else if (result.completed) {
+        setSession(prev => prev && recordAfterFrame(prev, `data:image/jpeg;base64,${base64}`, result, currentStepIndex));
+        handleNextStep();
+      } else {
+        const stuck = failedChecks + 1 >= REPLAN_AFTER_FAILED_CHECKS;
+        setAssistantResponse(`Verification Info: ${result.feedback}${stuck ? ' This step keeps failing. Try "Re-plan" at the top for a different approach.' : ''}`);
+        speak(result.feedback);
+        machine.transition(AppState.REPAIR_GUIDE, 'verification failed');
+        setCapturedImage(`data:image/jpeg;base64,${base64}`); 
+      }
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setAssistantResponse(`Verification failed. ${describeRequestError(err)}`);
+      machine.transition(AppState.REPAIR_GUIDE, 'verification error');
+    }
   };
 
   const handleNextStep = () => {
+    if (!repairPlan || hazardsPending) return;
+    if (isDecisionStep(repairPlan.steps[currentStepIndex])) {
+      // Decision steps only move on once answered, through handleDecision
+      setAssistantResponse('Answer the question above to continue.');
+      return;
+    }
     setAssistantResponse(null); // Clear previous advice
-    if (!repairPlan) return;
-    
-    if (currentStepIndex < repairPlan.steps.length - 1) {
-      setCurrentStepIndex(prev => prev + 1);
+    setUncertainCheck(null);
+
+    const nextIndex = getNextStepIndex(repairPlan, currentStepIndex);
+    if (nextIndex !== null) {
+      if (!machine.transition(AppState.REPAIR_GUIDE, 'next step')) return;
+      setCurrentStepIndex(nextIndex);
       setCapturedImage(null);
-      setAppState(AppState.REPAIR_GUIDE);
-    } else {
-      setAppState(AppState.COMPLETED);
+    } else if (!machine.transition(AppState.COMPLETED, 'last step done')) {
+      return;
     }
+    setSession(prev => prev && advanceSession(prev, nextIndex));
   };
 
-  // --- Inspector Logic ---
-  const handleVideoClick = async (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => {
-      // Only active in REPAIR_GUIDE mode to avoid conflicts, or maybe toggle mode
-      if (appState !== AppState.REPAIR_GUIDE || !repairPlan) return;
-      
-      // Determine coordinates
-      let clientX, clientY;
-      if ('touches' in e) {
-          clientX = e.touches[0].clientX;
-          clientY = e.touches[0].clientY;
+  // The user's answer to a check the model wasn't sure about
+  const handleConfirmCheck = (done: boolean) => {
+    if (!uncertainCheck) return;
+    const { result, frame } = uncertainCheck;
+    setSession(prev => prev && (done
+      ? recordAfterFrame(confirmVerification(prev, true), frame, { feedback: result.feedback, confidence: result.confidence, confirmedByUser: true }, currentStepIndex)
+      : confirmVerification(prev, false)));
+    if (done) {
+      handleNextStep();
+      return;
+    }
+    setUncertainCheck(null);
+    setCapturedImage(null);
+    setAssistantResponse(`Verification Info: ${result.feedback}`);
+  };
+
+  // --- Branching ---
+
+  const handleDecision = (optionIndex: number) => {
+    if (!repairPlan || hazardsPending || appState !== AppState.REPAIR_GUIDE) return;
+    const step = repairPlan.steps[currentStepIndex];
+    if (!isDecisionStep(step) || !step.decision.options[optionIndex]) return;
+    setUnmatchedAnswer(null);
+    setAssistantResponse(null);
+    setUncertainCheck(null);
+
+    const nextIndex = getNextStepIndex(repairPlan, currentStepIndex, optionIndex);
+    if (nextIndex !== null) {
+      setCurrentStepIndex(nextIndex);
+      setCapturedImage(null);
+    } else if (!machine.transition(AppState.COMPLETED, 'decision ends plan')) {
+      return;
+    }
+    setSession(prev => prev && recordDecision(prev, optionIndex));
+  };
+
+  const answerDecisionByVoice = async () => {
+    if (!currentStep || !isDecisionStep(currentStep)) return;
+    const { signal } = machine;
+    setIsAnsweringByVoice(true);
+    setUnmatchedAnswer(null);
+    try {
+      const transcript = await recognizeSpeech({ signal, lang: preferences.language });
+      if (signal.aborted) return;
+      const optionIndex = matchDecisionOption(currentStep.decision, transcript);
+      if (optionIndex === -1) {
+        setUnmatchedAnswer(transcript || '…');
+        speak(`Sorry, I didn't catch that. ${currentStep.decision.question}`);
       } else {
-          clientX = (e as React.MouseEvent).clientX;
-          clientY = (e as React.MouseEvent).clientY;
+        handleDecision(optionIndex);
       }
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
+    } finally {
+      setIsAnsweringByVoice(false);
+    }
+  };
 
-      if (!containerRef.current) return;
-      const rect = containerRef.current.getBoundingClientRect();
-      const x = clientX - rect.left;
-      const y = clientY - rect.top;
-      
-      // Percentage coordinates 0-100
-      const xPct = (x / rect.width) * 100;
-      const yPct = (y / rect.height) * 100;
+  const handlePreviousStep = () => {
+    if (!session || appState !== AppState.REPAIR_GUIDE) return;
+    const path = getSessionPath(session);
+    if (path.length < 2) return;
+    setCurrentStepIndex(path[path.length - 2]);
+    setCapturedImage(null);
+    setAssistantResponse(null);
+    setUnmatchedAnswer(null);
+    setUncertainCheck(null);
+    setSession(prev => prev && goBackSession(prev));
+  };
 
-      setInspectorPoint({ x: xPct, y: yPct });
-      setAppState(AppState.INSPECTING);
-      
-      // Capture and analyze
-      const base64 = captureFrame();
-      if (!base64) {
-          setAppState(AppState.REPAIR_GUIDE);
+  // Sends the current frame and the steps done so far back to the model for a new way forward
+  const handleReplan = async () => {
+    if (!repairPlan || !session || !online) return;
+    const base64 = captureFrame();
+    if (!base64 || !machine.transition(AppState.REPLANNING, 're-plan')) return;
+    const { signal } = machine;
+    setCapturedImage(`data:image/jpeg;base64,${base64}`);
+
+    const failures = session.verifications
+      .filter(record => record.stepIndex === currentStepIndex && !isCheckPassed(record))
+      .map(record => record.feedback);
+    try {
+      const replan = await getVisionProvider().replanFromStep(base64, {
+        plan: repairPlan,
+        stepIndex: currentStepIndex,
+        completedSteps: getSessionPath(session).slice(0, -1).map(index => repairPlan.steps[index]),
+        failures,
+      }, { signal, language: preferences.language });
+      const latest = sessionRef.current;
+      if (signal.aborted || !latest) return;
+      const reason = failures.length ? failures[failures.length - 1] : 'Requested by the user';
+      const updated = replanSession(latest, replan, reason, `data:image/jpeg;base64,${base64}`);
+      setSession(updated);
+      setRepairPlan(updated.plan);
+      setCurrentStepIndex(updated.currentStepIndex);
+      setCapturedImage(null);
+      setUncertainCheck(null);
+      setAssistantResponse(`New plan from here: ${replan.steps.length} step${replan.steps.length === 1 ? '' : 's'}.`);
+      machine.transition(AppState.REPAIR_GUIDE, 'new plan ready');
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setCapturedImage(null);
+      setAssistantResponse(`Couldn't make a new plan: ${describeRequestError(err)} Carry on with the current one or try again.`);
+      machine.transition(AppState.REPAIR_GUIDE, 're-plan failed');
+    }
+  };
+
+  // --- Inspector Logic ---
+  // Percent of the view, which is what the frozen frame and overlays are laid out in
+  const toViewPercent = (e: React.PointerEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      return { x: ((e.clientX - rect.left) / rect.width) * 100, y: ((e.clientY - rect.top) / rect.height) * 100 };
+  };
+
+  const pointerDistance = () => {
+      const points = Object.keys(pointersRef.current).map(id => pointersRef.current[Number(id)]);
+      return points.length < 2 ? 0 : Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+      pointersRef.current[e.pointerId] = { x: e.clientX, y: e.clientY };
+      // A second finger turns the gesture into a pinch zoom instead of a selection
+      if (Object.keys(pointersRef.current).length === 2 && camera.capabilities.zoom) {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragSelection(null);
+          pinchRef.current = { distance: pointerDistance(), zoom: camera.zoom };
           return;
       }
+      if (!canInspect || pinchRef.current) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const { x, y } = toViewPercent(e);
+      setDragSelection({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (pointersRef.current[e.pointerId]) pointersRef.current[e.pointerId] = { x: e.clientX, y: e.clientY };
+      const pinch = pinchRef.current;
+      if (pinch) {
+          const distance = pointerDistance();
+          if (distance && pinch.distance) camera.setZoom(pinch.zoom * (distance / pinch.distance));
+          return;
+      }
+      if (!dragSelection) return;
+      const { x, y } = toViewPercent(e);
+      setDragSelection(prev => prev && { ...prev, x1: x, y1: y });
+  };
 
-      // Freeze for inspection
+  const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
+      delete pointersRef.current[e.pointerId];
+      if (!Object.keys(pointersRef.current).length) pinchRef.current = null;
+      setDragSelection(null);
+  };
+
+  // A tap focuses and inspects the point, a drag inspects the selected region
+  const handlePointerUp = async (e: React.PointerEvent<HTMLDivElement>) => {
+      delete pointersRef.current[e.pointerId];
+      if (pinchRef.current) {
+          // The gesture ends when the last finger lifts; neither finger inspects anything
+          if (!Object.keys(pointersRef.current).length) pinchRef.current = null;
+          return;
+      }
+      const selection = dragSelection;
+      setDragSelection(null);
+      if (!selection) return;
+      if (Math.abs(selection.x1 - selection.x0) < MIN_REGION_PCT && Math.abs(selection.y1 - selection.y0) < MIN_REGION_PCT) {
+          await camera.focusAt(selection.x0 / 100, selection.y0 / 100);
+          await inspectAt(selection.x0, selection.y0);
+          return;
+      }
+      await inspectRegion({
+          xmin: Math.max(0, Math.min(selection.x0, selection.x1) * 10),
+          ymin: Math.max(0, Math.min(selection.y0, selection.y1) * 10),
+          xmax: Math.min(1000, Math.max(selection.x0, selection.x1) * 10),
+          ymax: Math.min(1000, Math.max(selection.y0, selection.y1) * 10),
+      });
+  };
+
+  // Freezes the frame and enters INSPECTING; null when the inspector can't run right now
+  const beginInspection = (reason: string): string | null => {
+      if (!canInspect) return null;
+      if (!online) {
+          setAssistantResponse("The component inspector needs a connection.");
+          return null;
+      }
+      const base64 = captureFrame();
+      if (!base64 || !machine.transition(AppState.INSPECTING, reason)) return null;
       setCapturedImage(`data:image/jpeg;base64,${base64}`);
+      setSession(prev => prev && addKeyFrame(prev, 'inspection', `data:image/jpeg;base64,${base64}`));
+      return base64;
+  };
+
+  const inspectionContext = () => ({
+      sessionId: sessionRef.current ? sessionRef.current.id : null,
+      stepIndex: repairPlan ? currentStepIndex : null,
+  });
+
+  // Shared by taps, regions and the "inspect this" voice command
+  const inspectComponent = async (identify: (options: RequestOptions) => Promise<ComponentInfo>) => {
+      const { signal } = machine;
+      try {
+          const info = await identify({ signal, language: preferences.language });
+          // The inspector may have been closed while we waited
+          if (signal.aborted) return;
+          const stopReason = findStopCondition(info);
+          if (stopReason) {
+              triggerSafetyStop('inspection', stopReason);
+              return;
+          }
+          setPartTree(prev => recordInspection(prev || createPartTree(objectName || ''), info, inspectionContext()));
+          setComponentInfo(info);
+          speak(`That is the ${info.name}.`);
+      } catch (err) {
+          if (signal.aborted || isAbortError(err)) return;
+          console.error(err);
+          closeInspector();
+          setAssistantResponse(`Couldn't identify that part. ${describeRequestError(err)}`);
+      }
+  };
+
+  const inspectAt = async (xPct: number, yPct: number) => {
+      const base64 = beginInspection('tap to inspect');
+      if (!base64) return;
+      setInspectorPoint({ x: xPct, y: yPct });
+      await inspectComponent(options => getVisionProvider().identifyComponentAtPoint(base64, xPct, yPct, objectName || '', options));
+  };
+
+  const inspectRegion = async (region: Coordinates) => {
+      const base64 = beginInspection('region to inspect');
+      if (!base64) return;
+      setInspectorRegion(region);
+      await inspectComponent(options => getVisionProvider().identifyComponentInRegion(base64, region, objectName || '', options));
+  };
 
-      const info = await identifyComponentAtPoint(base64, xPct, yPct, repairPlan.objectName);
-      setComponentInfo(info);
-      speak(`That is the ${info.name}.`);
+  const inspectAll = async () => {
+      const base64 = beginInspection('identify all parts');
+      if (!base64) return;
+      const { signal } = machine;
+      try {
+          const scan = await getVisionProvider().identifyAllComponents(base64, objectName || '', { signal, language: preferences.language });
+          if (signal.aborted) return;
+          const stopReason = scan.components.map(findStopCondition).find(reason => !!reason);
+          if (stopReason) {
+              triggerSafetyStop('inspection', stopReason);
+              return;
+          }
+          setPartTree(prev => recordScan(prev || createPartTree(objectName || ''), scan, inspectionContext()));
+          setScanResults(scan.components);
+          speak(scan.components.length
+              ? `I can see ${scan.components.length} parts. Tap one for details.`
+              : "I couldn't make out any parts. Try moving closer.");
+      } catch (err) {
+          if (signal.aborted || isAbortError(err)) return;
+          console.error(err);
+          closeInspector();
+          setAssistantResponse(`Couldn't identify that part. ${describeRequestError(err)}`);
+      }
   };
 
   const closeInspector = () => {
       setInspectorPoint(null);
+      setInspectorRegion(null);
+      setScanResults(null);
       setComponentInfo(null);
       setCapturedImage(null);
-      setAppState(AppState.REPAIR_GUIDE);
+      machine.transition(repairPlan ? AppState.REPAIR_GUIDE : AppState.CAMERA_READY, 'close inspector');
+  };
+
+  // --- Safety ---
+
+  const handleAcknowledgeHazards = () => setSession(prev => prev && acknowledgeHazards(prev));
+
+  // Ends the guide for good: the session is marked stopped and can't be resumed
+  const triggerSafetyStop = (source: SafetyStop['source'], reason: string) => {
+    if (!machine.transition(AppState.SAFETY_STOP, `${source} hazard`)) return;
+    setSession(prev => prev && stopSession(prev, source, reason));
+    setSafetyStopReason(reason);
+    setInspectorPoint(null);
+    setInspectorRegion(null);
+    setScanResults(null);
+    setComponentInfo(null);
+    speak(`Stop. ${reason} Do not continue this repair. Call a professional.`);
   };
 
   // --- Assistant Logic ---
@@ -202,63 +739,425 @@ const App: React.FC = () => {
 
   const stopListening = async () => {
     if (!mediaRecorderRef.current) return;
-    mediaRecorderRef.current.stop();
+    const recorder = mediaRecorderRef.current;
+    recorder.onstop = () => {
+      // Label the audio with what the recorder actually produced (usually webm/opus)
+      askAssistant(new Blob(audioChunksRef.current, { type: recorder.mimeType || 'audio/webm' }));
+    };
+    recorder.stop();
     setIsListening(false);
-    setAssistantResponse("Thinking...");
+  };
 
-    mediaRecorderRef.current.onstop = async () => {
-      const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' }); // Default to webm/wav
-      const reader = new FileReader();
-      reader.readAsDataURL(audioBlob);
-      reader.onloadend = async () => {
-        const base64AudioWithPrefix = reader.result as string;
-        const base64Audio = base64AudioWithPrefix.split(',')[1];
-        
-        // Grab context image
-        const base64Image = captureFrame();
-        if (base64Image && repairPlan) {
-            const response = await askRepairAssistant(
-                base64Image, 
-                base64Audio, 
-                repairPlan.steps[currentStepIndex].instruction
-            );
-            setAssistantResponse(response);
-            speak(response);
-        }
-      };
+  // Shared by hold-to-talk and hands-free: sends the question with the current view
+  const askAssistant = (audioBlob: Blob) => {
+    setAssistantResponse("Thinking...");
+    setIsAskingAssistant(true);
+    const reader = new FileReader();
+    reader.readAsDataURL(audioBlob);
+    reader.onloadend = async () => {
+      const base64AudioWithPrefix = reader.result as string;
+      const base64Audio = base64AudioWithPrefix.split(',')[1];
+      
+      const audioMimeType = audioBlob.type || undefined;
+      
+      // Grab context image
+      const base64Image = captureFrame();
+      if (base64Image && repairPlan && !navigator.onLine) {
+          await queueRequest({ kind: 'assistant', image: base64Image, audio: base64Audio, audioMimeType, instruction: repairPlan.steps[currentStepIndex].instruction });
+          setAssistantResponse("You're offline. I saved your question and will answer when you reconnect.");
+          setIsAskingAssistant(false);
+          return;
+      }
+      if (base64Image && repairPlan) {
+          // Tied to the current state: leaving the guide drops a late answer
+          const { signal } = machine;
+          try {
+              const reply = await getVisionProvider().askRepairAssistant({
+                  image: base64Image,
+                  audio: base64Audio,
+                  audioMimeType,
+                  instruction: repairPlan.steps[currentStepIndex].instruction,
+                  history: session ? session.assistantExchanges : [],
+              }, { signal, language: preferences.language });
+              if (signal.aborted) return;
+              setSession(prev => prev && recordAssistantExchange(prev, reply.transcript || 'Voice question', reply.answer, undefined, {
+                  frame: `data:image/jpeg;base64,${base64Image}`,
+                  command: reply.command,
+              }));
+              if (reply.command) {
+                  setAssistantResponse(null);
+                  runVoiceCommand(reply.command);
+              } else {
+                  setAssistantResponse(reply.answer);
+                  speak(reply.answer);
+              }
+          } catch (err) {
+              if (signal.aborted || isAbortError(err)) return;
+              console.error(err);
+              setAssistantResponse(`Sorry, I couldn't answer that. ${describeRequestError(err)}`);
+          } finally {
+              setIsAskingAssistant(false);
+          }
+      } else {
+          setIsAskingAssistant(false);
+      }
     };
   };
 
-  const speak = (text: string) => {
-    if ('speechSynthesis' in window) {
-        window.speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.rate = 1.1;
-        utterance.pitch = 1.0;
-        window.speechSynthesis.speak(utterance);
+  // Hands-free utterances: answers and commands are matched locally, anything else goes to the model
+  const handleUtterance = ({ transcript, audio }: Utterance) => {
+    if (!repairPlan || appState !== AppState.REPAIR_GUIDE) return;
+    if (transcript && currentStep && isDecisionStep(currentStep) && !hazardsPending) {
+      const optionIndex = matchDecisionOption(currentStep.decision, transcript);
+      if (optionIndex !== -1) {
+        handleDecision(optionIndex);
+        return;
+      }
+    }
+    const command = transcript ? parseVoiceCommand(transcript) : null;
+    if (command) {
+      setSession(prev => prev && recordAssistantExchange(prev, transcript, '', undefined, { command }));
+      setAssistantResponse(null);
+      runVoiceCommand(command);
+      return;
+    }
+    askAssistant(audio);
+  };
+
+  const handsFree = useHandsFree({
+    stream: mediaStream,
+    enabled: preferences.handsFree && !!repairPlan,
+    // Only the guide itself takes speech; hold-to-talk and voice answers own the microphone while they run
+    suspended: appState !== AppState.REPAIR_GUIDE || isListening || isAnsweringByVoice || isAskingAssistant || !!capturedImage,
+    wakePhrase: preferences.wakePhrase,
+    lang: preferences.language,
+    onUtterance: handleUtterance,
+  });
+
+  // Spoken commands reuse the on-screen handlers, so they obey the same guards
+  const runVoiceCommand = (command: VoiceCommand) => {
+    if (!repairPlan) return;
+    const step = repairPlan.steps[currentStepIndex];
+    switch (command) {
+      case 'next':
+        // Saying "next" over an uncertain check answers it
+        if (uncertainCheck) handleConfirmCheck(true);
+        else handleNextStep();
+        break;
+      case 'back':
+        handlePreviousStep();
+        break;
+      case 'verify':
+        handleVerifyStep();
+        break;
+      case 'repeat':
+        setAssistantResponse(step.instruction);
+        // In accessibility mode "repeat" is also how to hear again where the cues are
+        if (preferences.accessibilityMode) speak(describeStepForReading(step, true));
+        else speak(isDecisionStep(step) ? `${step.instruction} ${step.decision.question}` : step.instruction);
+        break;
+      case 'inspect': {
+        // "This" is whatever the step's cue points at, else the middle of the view
+        const cue = tracking.cues.find(candidate => candidate.type !== 'none');
+        const box = cue ? cue.coordinates : null;
+        inspectAt(box ? (box.xmin + box.xmax) / 20 : 50, box ? (box.ymin + box.ymax) / 20 : 50);
+        break;
+      }
+    }
+  };
+
+  const speak = (text: string) => speakText(text, preferences);
+
+  // --- Accessibility ---
+
+  // Tailwind sizes type and spacing in rem, so a larger root font enlarges every screen at once
+  useEffect(() => {
+    document.documentElement.style.fontSize = preferences.accessibilityMode ? '125%' : '';
+  }, [preferences.accessibilityMode]);
+
+  // Colour and motion are each component's job; these cover the markup that lives here
+  const highContrast = preferences.accessibilityMode;
+  const pulse = highContrast ? '' : 'animate-pulse';
+  const spin = highContrast ? '' : 'animate-spin';
+  const mutedText = highContrast ? 'text-white' : 'text-gray-400';
+  const roundButton = highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70 hover:text-white';
+  const exportButton = highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-900 border border-gray-700 text-white/80';
+  const focusRing = highContrast ? '[&_:focus-visible]:outline [&_:focus-visible]:outline-[3px] [&_:focus-visible]:outline-yellow-400 [&_:focus-visible]:outline-offset-2' : '';
+
+  const announcement = preferences.accessibilityMode
+    ? describeStateForAnnouncement(appState, { plan: repairPlan, stepIndex: currentStepIndex, position: progress.position, total: progress.total })
+    : '';
+  const alertAnnouncement = appState === AppState.SAFETY_STOP && safetyStopReason
+    ? `Stop. ${safetyStopReason} Do not continue this repair.`
+    : appState === AppState.ERROR ? errorMsg || 'An unknown error occurred.' : null;
+
+  // Keys drive the guide the way spoken commands do; overlays with their own controls take the keyboard
+  const handleKeyboardAction = (action: KeyboardAction) => {
+    if (action === 'close') {
+      if (appState === AppState.INSPECTING) closeInspector();
+    } else if (appState !== AppState.REPAIR_GUIDE) {
+      return;
+    } else if (action === 'talk') {
+      if (!isListening && !isAskingAssistant) startListening();
+    } else {
+      runVoiceCommand(action);
+    }
+  };
+
+  useKeyboardShortcuts({
+    enabled: (appState === AppState.REPAIR_GUIDE || appState === AppState.INSPECTING) && !hazardsPending && !showSettings && !showPartTree,
+    onAction: handleKeyboardAction,
+    onTalkEnd: () => { if (isListening) stopListening(); },
+  });
+
+  // --- Offline Queue ---
+
+  const queueRequest = async (request: { kind: 'verify'; image: string; instruction: string } | { kind: 'assistant'; image: string; audio: string; audioMimeType?: string; instruction: string }) => {
+    try {
+      await enqueueRequest({ ...request, sessionId: session ? session.id : null, stepIndex: currentStepIndex });
+      setQueuedCount(count => count + 1);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Applies a reply to the session it was asked in, even if the user has moved on since
+  const applyToSession = async (sessionId: string | null, update: (target: RepairSession) => RepairSession) => {
+    if (!sessionId) return;
+    if (sessionRef.current && sessionRef.current.id === sessionId) {
+      setSession(prev => prev && prev.id === sessionId ? update(prev) : prev);
+      return;
+    }
+    const stored = await getSession(sessionId);
+    if (stored) await saveSession(update(stored));
+  };
+
+  const processQueuedRequest = async (request: QueuedRequest) => {
+    const isCurrent = !!sessionRef.current && sessionRef.current.id === request.sessionId;
+    if (request.kind === 'verify') {
+      const result = await getVisionProvider().verifyRepairStep(request.image, request.instruction, { language: preferences.language });
+      const stopReason = findStopCondition(result);
+      await applyToSession(request.sessionId, target => {
+        const verified = recordVerification(target, result, request.stepIndex);
+        const recorded = result.completed && !isLowConfidence(result.confidence)
+          ? recordAfterFrame(verified, `data:image/jpeg;base64,${request.image}`, result, request.stepIndex)
+          : verified;
+        return stopReason ? stopSession(recorded, 'verification', stopReason, request.stepIndex) : recorded;
+      });
+      if (isCurrent && stopReason) {
+        // setSession above already marked it stopped; only move the UI
+        if (machine.transition(AppState.SAFETY_STOP, 'queued verification hazard')) {
+          setSafetyStopReason(stopReason);
+          speak(`Stop. ${stopReason} Do not continue this repair. Call a professional.`);
+        }
+      } else if (isCurrent) {
+        // Queued checks only report back; the user already moved on at their own pace
+        const message = `Queued check for step ${request.stepIndex + 1}: ${isLowConfidence(result.confidence) ? 'unsure' : result.completed ? 'passed' : 'not done yet'}. ${result.feedback}`;
+        setAssistantResponse(message);
+        speak(message);
+      }
+    } else {
+      const stored = isCurrent ? sessionRef.current : request.sessionId ? await getSession(request.sessionId) : null;
+      const reply = await getVisionProvider().askRepairAssistant({
+        image: request.image,
+        audio: request.audio,
+        audioMimeType: request.audioMimeType,
+        instruction: request.instruction,
+        history: stored ? stored.assistantExchanges.filter(exchange => exchange.timestamp < request.createdAt) : [],
+      }, { language: preferences.language });
+      await applyToSession(request.sessionId, target => recordAssistantExchange(target, `${reply.transcript || 'Voice question'} (queued offline)`, reply.answer, request.stepIndex, {
+        frame: `data:image/jpeg;base64,${request.image}`,
+        command: reply.command,
+      }));
+      // A command is stale by the time it comes back, so it is only recorded, never run
+      if (isCurrent && !reply.command) {
+        setAssistantResponse(reply.answer);
+        speak(reply.answer);
+      }
     }
   };
 
   const resetApp = () => {
+    // Leaving mid-repair counts as abandoning it; finished sessions are kept as-is
+    if (session) saveSession(abandonSession(session)).catch(console.error);
+    setSession(null);
+    setResumableSession(null);
     setRepairPlan(null);
     setCurrentStepIndex(0);
     setCapturedImage(null);
+    setPlanFrame(null);
     setErrorMsg(null);
+    setSafetyStopReason(null);
+    setUnmatchedAnswer(null);
+    setUncertainCheck(null);
+    setShowAlternatives(false);
     setAssistantResponse(null);
-    setAppState(AppState.CAMERA_READY);
+    setInspectorPoint(null);
+    setInspectorRegion(null);
+    setScanResults(null);
+    setComponentInfo(null);
+    setPartTree(null);
+    setShowPartTree(false);
+    setTemplateOffer([]);
+    resetUsageTally();
+    machine.transition(AppState.CAMERA_READY, 'reset');
+  };
+
+  // --- Session History ---
+
+  const resumeSession = async (saved: RepairSession) => {
+    setHistorySessions(null);
+    if (!(await startCamera())) return;
+    resetUsageTally(saved.usage);
+    setSession(withChecklist(saved));
+    setRepairPlan(saved.plan);
+    setCurrentStepIndex(saved.currentStepIndex);
+    const scan = saved.keyFrames.find(frame => frame.kind === 'scan');
+    setPlanFrame(scan ? scan.image : null);
+    machine.transition(AppState.REPAIR_GUIDE, 'resume session');
   };
 
+  // Starts a fresh session from a saved plan; needs no model call, so it works offline
+  const replaySession = async (saved: RepairSession) => {
+    setHistorySessions(null);
+    if (!(await startCamera())) return;
+    const scan = saved.keyFrames.find(frame => frame.kind === 'scan');
+    const fresh = createSession(saved.plan, scan ? scan.image : undefined);
+    resetUsageTally();
+    // Re-planned steps need the frames their cues were made from
+    setSession({
+      ...fresh,
+      keyFrames: [...fresh.keyFrames, ...saved.keyFrames.filter(frame => frame.kind === 'replan')],
+      ...(saved.diagnosisFrames ? { diagnosisFrames: saved.diagnosisFrames } : {}),
+    });
+    setRepairPlan(saved.plan);
+    setCurrentStepIndex(0);
+    setPlanFrame(scan ? scan.image : null);
+    machine.transition(AppState.CHECKLIST, 'replay saved plan');
+  };
+
+  // --- Saved Fixes ---
+
+  const refreshTemplates = async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const beginTemplate = (template: PlanTemplate, replacing: RepairSession | null) => {
+    const started = createSessionFromTemplate(template, planFrame || undefined, replacing || undefined);
+    const scan = started.keyFrames.find(frame => frame.kind === 'scan');
+    setSession(started);
+    setRepairPlan(started.plan);
+    setCurrentStepIndex(0);
+    setPlanFrame(scan ? scan.image : null);
+    setTemplateOffer([]);
+  };
+
+  // Picked from the offer after a scan: the checklist stays up, now for the saved plan
+  const acceptTemplateOffer = (template: PlanTemplate) => beginTemplate(template, session);
+
+  // Picked from the library; needs no model call, so it works offline
+  const startFromTemplate = async (template: PlanTemplate) => {
+    setShowTemplates(false);
+    if (!(await startCamera())) return;
+    resetUsageTally();
+    beginTemplate(template, null);
+    machine.transition(AppState.CHECKLIST, 'start saved fix');
+  };
+
+  const saveAsTemplate = (target: RepairSession) => {
+    const scan = target.keyFrames.find(frame => frame.kind === 'scan');
+    setEditingTemplate(createTemplate(target.plan, scan ? scan.image : undefined));
+  };
+
+  const storeTemplate = async (template: PlanTemplate) => {
+    setEditingTemplate(null);
+    await saveTemplate(template).catch(console.error);
+    await refreshTemplates();
+  };
+
+  const removeTemplate = async (template: PlanTemplate) => {
+    await deleteTemplate(template.id).catch(console.error);
+    await refreshTemplates();
+  };
+
+  const importTemplates = async (file: File) => {
+    try {
+      const incoming = parseTemplateFile(await file.text());
+      const fresh = selectTemplatesToImport(templates, incoming);
+      for (const template of fresh) await saveTemplate(template);
+      const skipped = incoming.length - fresh.length;
+      setImportMessage(`Imported ${fresh.length} fix${fresh.length === 1 ? '' : 'es'}${skipped ? `, ${skipped} already up to date` : ''}.`);
+    } catch (err) {
+      console.error(err);
+      setImportMessage(err instanceof TemplateImportError ? err.message : "Couldn't import that file.");
+    }
+    await refreshTemplates();
+  };
+
+  const openTemplates = () => {
+    setImportMessage(null);
+    setShowTemplates(true);
+  };
+
+  // --- Checklist ---
+
+  const toggleChecklistItem = (itemId: string, checked: boolean) =>
+    setSession(prev => prev && setChecklistItemChecked(prev, itemId, checked));
+
+  // Recorded on session.plan.replacedParts, which is what the exported report reads
+  const togglePartReplaced = (itemId: string, replaced: boolean) =>
+    setSession(prev => prev && setPartReplaced(prev, itemId, replaced));
+
+  const openHistory = async () => {
+    try {
+      setHistorySessions(await listSessions());
+    } catch (err) {
+      console.error(err);
+      setHistorySessions([]);
+    }
+  };
+
+  const removeSession = async (target: RepairSession) => {
+    await deleteSession(target.id).catch(console.error);
+    if (resumableSession?.id === target.id) setResumableSession(null);
+    await openHistory();
+  };
+
+  const exportSession = (target: RepairSession, format: ReportFormat) => downloadSessionReport(target, format);
+
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden flex flex-col">
+    <div className={`relative w-full h-screen bg-black overflow-hidden flex flex-col ${focusRing}`}>
       
       {/* Hidden Canvas for capture */}
       <canvas ref={canvasRef} className="hidden" />
 
+      {preferences.accessibilityMode && (
+          <LiveAnnouncer status={announcement} reply={assistantResponse} alert={alertAnnouncement} />
+      )}
+
+      {/* Offline Banner */}
+      {(!online || queuedCount > 0) && appState !== AppState.INTRO && (
+          <div className={`absolute top-0 left-0 w-full z-[55] text-xs font-mono px-4 py-1 flex items-center justify-center gap-2 ${online ? 'bg-cyan-900/90 text-cyan-100' : 'bg-amber-900/90 text-amber-100'}`}>
+              <WifiOff size={12} />
+              {online
+                ? `Back online, sending ${queuedCount} queued request${queuedCount === 1 ? '' : 's'}...`
+                : `Offline: scanning and inspector unavailable. Checks and questions are queued${queuedCount ? ` (${queuedCount})` : ''}.`}
+          </div>
+      )}
+
       {/* Camera Feed Container */}
       <div 
         ref={containerRef} 
-        className="relative w-full h-full flex items-center justify-center bg-gray-900"
-        onClick={handleVideoClick} // Enable tap to inspect
+        className="relative w-full h-full flex items-center justify-center bg-gray-900 touch-none"
+        // Tap or drag to inspect, pinch to zoom
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
       >
         <video 
             ref={videoRef} 
@@ -278,67 +1177,143 @@ const App: React.FC = () => {
             />
         )}
 
+        {/* Camera Controls */}
+        {mediaStream && (appState === AppState.CAMERA_READY || appState === AppState.REPAIR_GUIDE) && !capturedImage && (
+            <CameraControls 
+                capabilities={camera.capabilities}
+                torch={camera.torch}
+                zoom={camera.zoom}
+                onTorchChange={camera.setTorch}
+                onZoomChange={camera.setZoom}
+                onSwitchCamera={cameras.length > 1 ? switchCamera : undefined}
+                highContrast={highContrast}
+            />
+        )}
+
+        {/* Blurred frames are retried until sharp or the wait runs out */}
+        {holdSteady && (
+            <div className={`absolute top-1/3 left-1/2 -translate-x-1/2 z-40 px-4 py-2 rounded-full text-yellow-300 font-bold pointer-events-none ${highContrast ? 'bg-black border-2 border-yellow-300' : 'bg-black/80 border border-yellow-400/60 animate-pulse'}`}>
+                Hold steady…
+            </div>
+        )}
+
         {/* AR Overlay Layer */}
         {appState === AppState.REPAIR_GUIDE && repairPlan && videoRef.current && (
            <div className="absolute top-0 left-0 w-full h-full z-20 pointer-events-none">
-               <OverlayCanvas 
-                 cue={repairPlan.steps[currentStepIndex].visualCue}
-                 width={containerRef.current?.clientWidth || 300}
-                 height={containerRef.current?.clientHeight || 600}
-               />
+               {!tracking.lost && (
+                 <CueOverlay 
+                   cues={tracking.cues}
+                   width={containerRef.current?.clientWidth || 300}
+                   height={containerRef.current?.clientHeight || 600}
+                 />
+               )}
+
+               {/* Lost Tracking */}
+               {tracking.lost && (
+                   <div className={`absolute top-1/3 left-1/2 transform -translate-x-1/2 text-amber-300 text-sm font-mono px-4 py-2 rounded-lg flex items-center gap-2 ${highContrast ? 'bg-black border-2 border-amber-300' : 'bg-black/70 backdrop-blur border border-amber-500/40'}`}>
+                       <Crosshair size={16} className={spin} />
+                       Lost tracking, re-aim at the {(tracking.cues[0] && tracking.cues[0].label) || 'part'}
+                   </div>
+               )}
                
                {/* Inspector Hint */}
-               <div className="absolute top-4 right-4 bg-black/40 backdrop-blur text-white/70 text-[10px] px-2 py-1 rounded-full border border-white/10 flex items-center gap-1 animate-pulse">
+               <div className={`absolute top-4 right-4 px-2 py-1 rounded-full flex items-center gap-1 ${highContrast ? 'bg-black border-2 border-white text-white text-sm' : 'bg-black/40 backdrop-blur text-white/70 text-[10px] border border-white/10 animate-pulse'}`}>
                    <ScanEye size={12} />
-                   Tap any part to inspect
+                   Tap or drag over any part to inspect
                </div>
            </div>
         )}
 
-        {/* Inspector Reticle & Card */}
-        {appState === AppState.INSPECTING && inspectorPoint && (
+        {/* Region being dragged out */}
+        {dragSelection && (
+            <div 
+                className="absolute z-30 border-2 border-dashed border-cyan-400 bg-cyan-400/10 pointer-events-none"
+                style={{
+                    left: `${Math.min(dragSelection.x0, dragSelection.x1)}%`,
+                    top: `${Math.min(dragSelection.y0, dragSelection.y1)}%`,
+                    width: `${Math.abs(dragSelection.x1 - dragSelection.x0)}%`,
+                    height: `${Math.abs(dragSelection.y1 - dragSelection.y0)}%`,
+                }}
+            />
+        )}
+
+        {/* Inspector Reticle, Boxes & Card */}
+        {appState === AppState.INSPECTING && (
             <div className="absolute inset-0 z-30 pointer-events-none">
                 {/* Target Reticle */}
-                <div 
-                    className="absolute w-12 h-12 border-2 border-cyan-400 rounded-full -ml-6 -mt-6 animate-ping opacity-75"
-                    style={{ left: `${inspectorPoint.x}%`, top: `${inspectorPoint.y}%` }}
-                />
-                <div 
-                    className="absolute w-4 h-4 bg-cyan-400 rounded-full -ml-2 -mt-2 shadow-[0_0_10px_#22d3ee]"
-                    style={{ left: `${inspectorPoint.x}%`, top: `${inspectorPoint.y}%` }}
-                />
+                {inspectorPoint && (
+                    <>
+                        <div 
+                            className={`absolute w-12 h-12 border-2 border-cyan-400 rounded-full -ml-6 -mt-6 opacity-75 ${highContrast ? '' : 'animate-ping'}`}
+                            style={{ left: `${inspectorPoint.x}%`, top: `${inspectorPoint.y}%` }}
+                        />
+                        <div 
+                            className="absolute w-4 h-4 bg-cyan-400 rounded-full -ml-2 -mt-2 shadow-[0_0_10px_#22d3ee]"
+                            style={{ left: `${inspectorPoint.x}%`, top: `${inspectorPoint.y}%` }}
+                        />
+                    </>
+                )}
+
+                {/* Selected Region */}
+                {inspectorRegion && (
+                    <div 
+                        className="absolute border-2 border-cyan-400 shadow-[0_0_10px_#22d3ee]"
+                        style={{
+                            left: `${inspectorRegion.xmin / 10}%`,
+                            top: `${inspectorRegion.ymin / 10}%`,
+                            width: `${(inspectorRegion.xmax - inspectorRegion.xmin) / 10}%`,
+                            height: `${(inspectorRegion.ymax - inspectorRegion.ymin) / 10}%`,
+                        }}
+                    />
+                )}
+
+                {/* Identify-all Boxes: tap one for its details */}
+                {scanResults && !componentInfo && scanResults.map((part, index) => part.box && (
+                    <button 
+                        key={`${part.name}-${index}`}
+                        onClick={(e) => { e.stopPropagation(); setComponentInfo(part); }}
+                        className={`absolute border-2 rounded pointer-events-auto ${isLowConfidence(part.confidence) ? 'border-dashed' : ''} ${part.status === 'Good' ? 'border-green-400' : part.status === 'Unknown' ? 'border-gray-300' : part.status === 'Worn' ? 'border-yellow-400' : 'border-red-400'}`}
+                        style={{
+                            left: `${part.box.xmin / 10}%`,
+                            top: `${part.box.ymin / 10}%`,
+                            width: `${(part.box.xmax - part.box.xmin) / 10}%`,
+                            height: `${(part.box.ymax - part.box.ymin) / 10}%`,
+                        }}
+                    >
+                        <span className={`absolute left-0 whitespace-nowrap text-white px-1.5 py-0.5 rounded ${highContrast ? '-top-7 bg-black border border-white text-sm' : '-top-5 bg-black/80 text-[10px]'}`}>
+                            {part.name}{isLowConfidence(part.confidence) ? ' ?' : ''}
+                        </span>
+                    </button>
+                ))}
+                {scanResults && !componentInfo && (
+                    <div className="absolute bottom-12 left-1/2 -translate-x-1/2 pointer-events-auto">
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); closeInspector(); }}
+                            className={`px-6 py-2 rounded-full text-white font-medium ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-900/90 border border-gray-700'}`}
+                        >
+                            {scanResults.length ? `Done · ${scanResults.length} parts` : 'Nothing found · Done'}
+                        </button>
+                    </div>
+                )}
 
                 {/* Info Card - Centered or near point */}
                 {componentInfo ? (
                     <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-80 pointer-events-auto">
-                        <div className="bg-gray-900/95 border border-cyan-500/50 rounded-xl p-4 shadow-[0_0_50px_rgba(6,182,212,0.3)] backdrop-blur-xl">
-                            <div className="flex justify-between items-start mb-2">
-                                <h3 className="text-xl font-bold text-cyan-400">{componentInfo.name}</h3>
-                                <div className={`text-xs px-2 py-0.5 rounded uppercase font-bold ${
-                                    componentInfo.status === 'Good' ? 'bg-green-900 text-green-400' :
-                                    componentInfo.status === 'Damaged' ? 'bg-red-900 text-red-400' :
-                                    'bg-gray-700 text-gray-300'
-                                }`}>
-                                    {componentInfo.status}
-                                </div>
-                            </div>
-                            <p className="text-gray-300 text-sm mb-3 font-light">{componentInfo.function}</p>
-                            <div className="text-xs text-cyan-100/70 bg-cyan-950/30 p-2 rounded border border-cyan-900/50 mb-4">
-                                <strong>Analysis:</strong> {componentInfo.details}
-                            </div>
-                            <button 
-                                onClick={(e) => { e.stopPropagation(); closeInspector(); }}
-                                className="w-full py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-white font-medium transition-colors"
-                            >
-                                Resume Repair
-                            </button>
-                        </div>
+                        <ComponentCard 
+                            info={componentInfo}
+                            closeLabel={repairPlan ? 'Resume Repair' : 'Back to Camera'}
+                            onClose={closeInspector}
+                            onBack={scanResults ? () => setComponentInfo(null) : undefined}
+                            highContrast={highContrast}
+                        />
                     </div>
-                ) : (
+                ) : !scanResults && (
                     <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-auto">
-                        <div className="bg-black/80 backdrop-blur px-6 py-4 rounded-xl flex flex-col items-center gap-3">
-                            <div className="w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin"></div>
-                            <span className="text-cyan-400 font-mono text-sm tracking-widest">IDENTIFYING COMPONENT...</span>
+                        <div className={`px-6 py-4 rounded-xl flex flex-col items-center gap-3 ${highContrast ? 'bg-black border-2 border-white' : 'bg-black/80 backdrop-blur'}`}>
+                            <div className={`w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full ${spin}`}></div>
+                            <span className="text-cyan-400 font-mono text-sm tracking-widest">
+                                {inspectorPoint || inspectorRegion ? 'IDENTIFYING COMPONENT...' : 'IDENTIFYING ALL PARTS...'}
+                            </span>
                         </div>
                     </div>
                 )}
@@ -355,27 +1330,90 @@ const App: React.FC = () => {
             <h1 className="text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-600 mb-4">
                 Omni-Fix
             </h1>
-            <p className="text-gray-400 mb-8 max-w-xs">
+            <p className={`mb-8 max-w-xs ${mutedText}`}>
                 AI-Powered AR Repair Manual. <br/> Now with Sonic Assistant.
             </p>
             <button 
                 onClick={startCamera}
-                className="px-8 py-4 bg-cyan-600 rounded-full font-bold text-lg hover:bg-cyan-500 transition-all shadow-lg shadow-cyan-900/40 flex items-center gap-2"
+                className={`px-8 py-4 bg-cyan-600 rounded-full font-bold text-lg hover:bg-cyan-500 flex items-center gap-2 ${highContrast ? 'text-black border-2 border-white' : 'transition-all shadow-lg shadow-cyan-900/40'}`}
             >
                 <Camera size={24} />
                 Start Repair
             </button>
+            {resumableSession && (
+                <button 
+                    onClick={() => resumeSession(resumableSession)}
+                    className="mt-4 px-6 py-3 bg-gray-800 border border-cyan-700/50 rounded-full text-cyan-300 hover:bg-gray-700 flex items-center gap-2"
+                >
+                    <Play size={18} />
+                    Resume {resumableSession.plan.objectName} · Step {resumableSession.currentStepIndex + 1}/{resumableSession.plan.steps.length}
+                </button>
+            )}
+            <button 
+                onClick={openHistory}
+                className={`mt-4 hover:text-white text-sm flex items-center gap-1 ${mutedText}`}
+            >
+                <History size={16} />
+                Repair History
+            </button>
+            <button 
+                onClick={openTemplates}
+                className={`mt-2 hover:text-white text-sm flex items-center gap-1 ${mutedText}`}
+            >
+                <BookMarked size={16} />
+                Saved Fixes
+            </button>
+            <button 
+                onClick={() => setShowSettings(true)}
+                className={`mt-2 hover:text-white text-sm flex items-center gap-1 ${mutedText}`}
+            >
+                <Settings size={16} />
+                Camera, Voice & Language
+            </button>
         </div>
       )}
 
+      {/* Inspector Tools */}
+      {canInspect && (
+          <div className="absolute right-4 top-1/3 z-30 flex flex-col gap-2">
+              <button 
+                onClick={inspectAll}
+                disabled={!online}
+                className={`p-3 rounded-full disabled:opacity-30 ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-black/60 backdrop-blur border border-white/10 text-white/80 hover:text-white'}`}
+                aria-label="Identify all parts in view"
+                title="Identify all parts in view"
+              >
+                  <ScanSearch size={22} />
+              </button>
+              <button 
+                onClick={() => setShowPartTree(true)}
+                className={`relative p-3 rounded-full ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-black/60 backdrop-blur border border-white/10 text-white/80 hover:text-white'}`}
+                aria-label="Parts"
+                title="Parts"
+              >
+                  <ListTree size={22} />
+                  {partTree && partTree.parts.length > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-cyan-500 text-black text-[10px] font-bold rounded-full w-4 h-4 flex items-center justify-center">
+                          {partTree.parts.length}
+                      </span>
+                  )}
+              </button>
+          </div>
+      )}
+
       {/* Analyzing State */}
       {appState === AppState.ANALYZING && (
-          <ThinkingIndicator message="DIAGNOSING & PLANNING..." />
+          <ThinkingIndicator message="DIAGNOSING & PLANNING..." highContrast={highContrast} />
       )}
 
       {/* Verifying State */}
       {appState === AppState.VERIFYING && (
-          <ThinkingIndicator message="VERIFYING REPAIR..." />
+          <ThinkingIndicator message="VERIFYING REPAIR..." highContrast={highContrast} />
+      )}
+
+      {/* Re-planning State */}
+      {appState === AppState.REPLANNING && (
+          <ThinkingIndicator message="RE-PLANNING FROM HERE..." highContrast={highContrast} />
       )}
 
       {/* Scan Trigger */}
@@ -383,20 +1421,65 @@ const App: React.FC = () => {
           <div className="absolute bottom-12 left-0 w-full flex justify-center z-40">
               <button 
                 onClick={handleScan}
-                className="w-20 h-20 rounded-full border-4 border-white/80 flex items-center justify-center bg-white/20 backdrop-blur-sm active:scale-95 transition-all"
+                disabled={!online}
+                aria-label="Scan"
+                className={`w-20 h-20 rounded-full border-4 flex items-center justify-center active:scale-95 disabled:opacity-30 ${highContrast ? 'border-white bg-black' : 'border-white/80 bg-white/20 backdrop-blur-sm transition-all'}`}
               >
-                  <div className="w-16 h-16 bg-white rounded-full animate-pulse"></div>
+                  <div className={`w-16 h-16 rounded-full ${pulse} ${captureMode === 'clip' ? 'bg-red-500' : 'bg-white'}`}></div>
               </button>
-              <div className="absolute top-[-50px] text-white/80 font-mono bg-black/50 px-3 py-1 rounded">
-                  Point at broken object
+              <div className={`absolute top-[-50px] font-mono px-3 py-1 rounded ${highContrast ? 'text-white bg-black border border-white' : 'text-white/80 bg-black/50'}`}>
+                  {!online ? 'Scanning needs a connection' : isRecordingClip ? 'Recording motion... hold still' : captureMode === 'clip' ? 'Record the fault in action' : 'Point at broken object'}
+              </div>
+              {!online && (
+                  <button 
+                    onClick={openHistory}
+                    className={`absolute top-[-100px] px-4 py-2 rounded-full text-cyan-100 text-sm flex items-center gap-2 ${highContrast ? 'bg-black border-2 border-cyan-300' : 'bg-cyan-900/80 border border-cyan-700/50'}`}
+                  >
+                      <History size={16} />
+                      Replay a saved repair
+                  </button>
+              )}
+              <div className="absolute bottom-[-36px] flex gap-2 text-xs font-mono">
+                  {(['photo', 'clip'] as const).map(mode => (
+                      <button 
+                        key={mode}
+                        disabled={isRecordingClip}
+                        onClick={() => setCaptureMode(mode)}
+                        className={`px-3 py-1 rounded-full uppercase flex items-center gap-1 ${captureMode === mode ? 'bg-white text-black' : highContrast ? 'bg-black border border-white text-white' : 'bg-black/50 text-white/70'}`}
+                      >
+                          {mode === 'photo' ? <Camera size={12} /> : <Video size={12} />}
+                          {mode}
+                      </button>
+                  ))}
               </div>
           </div>
       )}
 
+      {/* Parts & Tools Checklist */}
+      {appState === AppState.CHECKLIST && repairPlan && session && (
+        <ChecklistScreen 
+            plan={repairPlan}
+            items={session.checklist}
+            onToggle={toggleChecklistItem}
+            onStart={() => machine.transition(AppState.REPAIR_GUIDE, 'checklist done')}
+            onCancel={resetApp}
+            highContrast={highContrast}
+        />
+      )}
+      {appState === AppState.CHECKLIST && repairPlan && templateOffer.length > 0 && (
+        <TemplateOffer 
+            objectName={repairPlan.objectName}
+            templates={templateOffer}
+            onUse={acceptTemplateOffer}
+            onDismiss={() => setTemplateOffer([])}
+            highContrast={highContrast}
+        />
+      )}
+
       {/* Repair Guide Interface */}
-      {(appState === AppState.REPAIR_GUIDE || appState === AppState.VERIFYING) && repairPlan && (
+      {(appState === AppState.REPAIR_GUIDE || appState === AppState.VERIFYING || appState === AppState.REPLANNING) && repairPlan && currentStep && (
           <>
-            <div className="absolute top-0 left-0 w-full p-4 bg-gradient-to-b from-black/80 to-transparent z-40 pointer-events-none">
+            <div className={`absolute top-0 left-0 w-full p-4 z-40 pointer-events-none ${highContrast ? 'bg-black border-b-2 border-white' : 'bg-gradient-to-b from-black/80 to-transparent'}`}>
                 <div className="flex justify-between items-start pointer-events-auto">
                     <div>
                         <h2 className="text-xl font-bold text-white">{repairPlan.objectName}</h2>
@@ -404,17 +1487,140 @@ const App: React.FC = () => {
                             <AlertCircle size={14} />
                             {repairPlan.issueDiagnosis}
                         </p>
+                        {(repairPlan.diagnosisConfidence !== undefined || alternativeDiagnoses.length > 0) && (
+                            <div className="flex items-center gap-2 mt-1">
+                                <ConfidenceBadge confidence={repairPlan.diagnosisConfidence} highContrast={highContrast} />
+                                {alternativeDiagnoses.length > 0 && (
+                                    <button 
+                                        onClick={() => setShowAlternatives(open => !open)}
+                                        className="text-[11px] text-amber-300 underline"
+                                        aria-expanded={showAlternatives}
+                                    >
+                                        {showAlternatives ? 'Hide other causes' : `Other possible causes (${alternativeDiagnoses.length})`}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {/* What else it could be, most likely first, with how to tell */}
+                        {showAlternatives && alternativeDiagnoses.length > 0 && (
+                            <ul className={`mt-2 max-w-xs rounded-lg p-2 space-y-2 ${highContrast ? 'bg-black border-2 border-white' : 'bg-black/70 border border-gray-800'}`}>
+                                {alternativeDiagnoses.map((alternative, index) => (
+                                    <li key={index} className="text-xs">
+                                        <span className="text-white font-medium">{alternative.diagnosis}</span>
+                                        {alternative.confidence !== undefined && <span className={highContrast ? 'text-white' : 'text-gray-500'}> · {formatConfidence(alternative.confidence)}</span>}
+                                        {alternative.check && <p className={mutedText}>{alternative.check}</p>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {/* Frames the diagnosis cites; tap one to freeze the view on it */}
+                        {repairPlan.diagnosisEvidence && session && session.diagnosisFrames && (
+                            <div className="flex gap-2 mt-2">
+                                {repairPlan.diagnosisEvidence.map(evidence => {
+                                    const frame = getDiagnosisFrame(session, evidence.frameIndex);
+                                    return frame && (
+                                        <button 
+                                            key={evidence.frameIndex}
+                                            title={evidence.observation}
+                                            onClick={() => setCapturedImage(capturedImage === frame.image ? null : frame.image)}
+                                            className="relative w-14 h-10 rounded overflow-hidden border border-red-400/60"
+                                        >
+                                            <img src={frame.image} className="w-full h-full object-cover" alt={evidence.observation} />
+                                            <span className={`absolute bottom-0 right-0 text-white px-1 ${highContrast ? 'bg-black text-xs' : 'bg-black/70 text-[9px]'}`}>
+                                                {((evidence.timestampMs || 0) / 1000).toFixed(1)}s
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        {currentStep.condition && (
+                            <p className="text-cyan-300 text-xs mt-1 flex items-center gap-1">
+                                <GitBranch size={12} />
+                                {currentStep.condition}
+                            </p>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button 
+                            onClick={() => updatePreferences({ handsFree: !preferences.handsFree })}
+                            className={`p-2 rounded-full ${preferences.handsFree ? 'bg-cyan-500 text-black' : roundButton}`}
+                            aria-label="Hands-free listening"
+                            aria-pressed={preferences.handsFree}
+                        >
+                            <Ear size={24} />
+                        </button>
+                        {canGoBack && (
+                            <button onClick={handlePreviousStep} className={`p-2 rounded-full ${roundButton}`} aria-label="Previous step">
+                                <ChevronLeft size={24} />
+                            </button>
+                        )}
+                        {/* Offered by the verification feedback after repeated failures */}
+                        <button 
+                            onClick={handleReplan}
+                            disabled={!online}
+                            className={`px-3 rounded-full text-xs font-bold flex items-center gap-1 disabled:opacity-40 ${failedChecks >= REPLAN_AFTER_FAILED_CHECKS ? `bg-yellow-500 text-black ${pulse}` : roundButton}`}
+                        >
+                            <RefreshCw size={14} />
+                            Re-plan
+                        </button>
+                        <button onClick={() => setShowSettings(true)} className={`p-2 rounded-full ${roundButton}`} aria-label="Settings">
+                            <Settings size={24} />
+                        </button>
+                        <button onClick={resetApp} className={`p-2 rounded-full ${roundButton}`}>
+                            <XCircle size={24} />
+                        </button>
                     </div>
-                    <button onClick={resetApp} className="p-2 bg-gray-800/50 rounded-full text-white/70 hover:text-white">
-                        <XCircle size={24} />
-                    </button>
                 </div>
+                {/* Continuous listening status while hands-free */}
+                {preferences.handsFree && (
+                    <HandsFreeBar 
+                        status={handsFree.status}
+                        lastHeard={handsFree.lastHeard}
+                        wakePhrase={preferences.wakePhrase}
+                        onWakePhraseChange={isSpeechRecognitionSupported() ? wakePhrase => updatePreferences({ wakePhrase }) : undefined}
+                        highContrast={highContrast}
+                    />
+                )}
             </div>
 
+            {/* The check couldn't tell; the user says whether to move on */}
+            {uncertainCheck && appState === AppState.REPAIR_GUIDE && !hazardsPending && (
+                <ConfirmCheckPanel 
+                    result={uncertainCheck.result}
+                    onConfirm={handleConfirmCheck}
+                    highContrast={highContrast}
+                />
+            )}
+
+            {/* Branch point: the answer picks the next step */}
+            {isDecisionStep(currentStep) && !hazardsPending && (
+                <DecisionPanel 
+                    key={currentStepIndex}
+                    decision={currentStep.decision}
+                    onChoose={handleDecision}
+                    // Hands-free already listens for the answer; only one recogniser can run
+                    onAnswerByVoice={isSpeechRecognitionSupported() && !preferences.handsFree ? answerDecisionByVoice : undefined}
+                    isListening={isAnsweringByVoice}
+                    heard={unmatchedAnswer}
+                    highContrast={highContrast}
+                />
+            )}
+
+            {/* Blocks the step until high-severity hazards are acknowledged */}
+            {hazardsPending && (
+                <SafetyPanel 
+                    key={currentStepIndex}
+                    hazards={getStepHazards(currentStep)}
+                    onAcknowledge={handleAcknowledgeHazards}
+                    highContrast={highContrast}
+                />
+            )}
+
             <StepCard 
-                step={repairPlan.steps[currentStepIndex]}
-                totalSteps={repairPlan.steps.length}
-                currentStepIndex={currentStepIndex}
+                step={currentStep}
+                totalSteps={progress.total}
+                currentStepIndex={progress.position}
                 onVerify={handleVerifyStep}
                 onNext={handleNextStep}
                 isVerifying={appState === AppState.VERIFYING}
@@ -422,19 +1628,79 @@ const App: React.FC = () => {
                 onAskAssistantStop={stopListening}
                 isListening={isListening}
                 assistantResponse={assistantResponse}
+                exchanges={session ? session.assistantExchanges : []}
+                highContrast={highContrast}
             />
           </>
       )}
 
         {/* Completion Screen */}
         {appState === AppState.COMPLETED && (
-             <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/95 text-center p-6">
-                 <CheckCircle size={80} className="text-green-500 mb-6" />
+             // Auto margins centre the content but still let the photos scroll when they don't fit
+             <div className={`absolute inset-0 z-50 flex flex-col items-center overflow-y-auto text-center p-6 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+                 <CheckCircle size={80} className="text-green-500 mb-6 mt-auto shrink-0" />
                  <h2 className="text-3xl font-bold text-white mb-2">Repair Complete!</h2>
-                 <p className="text-gray-400 mb-8">You've successfully fixed the issue.</p>
+                 <p className={`mb-8 ${mutedText}`}>You've successfully fixed the issue.</p>
+                 {session && session.checklist.some(item => item.kind === 'part') && (
+                     <div className="w-full max-w-sm mb-6 text-left">
+                         <h3 className={`text-sm font-bold uppercase mb-2 ${mutedText}`}>Parts Replaced</h3>
+                         {session.checklist.filter(item => item.kind === 'part').map(item => (
+                             <label key={item.id} className="flex items-center gap-3 py-2 border-b border-gray-800 text-white cursor-pointer">
+                                 <input 
+                                    type="checkbox"
+                                    checked={!!item.replaced}
+                                    onChange={event => togglePartReplaced(item.id, event.target.checked)}
+                                    className="w-4 h-4 accent-green-500"
+                                 />
+                                 <span className="flex-1">{item.name}</span>
+                                 <span className={`text-sm ${highContrast ? 'text-white' : 'text-gray-500'}`}>× {item.quantity}</span>
+                             </label>
+                         ))}
+                     </div>
+                 )}
+                 {session && <EvidenceGallery session={session} highContrast={highContrast} />}
+                 {session && (
+                     <div className="flex flex-wrap justify-center gap-3 mb-4">
+                         <button 
+                            onClick={() => exportSession(session, 'json')}
+                            className={`px-4 py-2 rounded-lg hover:bg-gray-800 flex items-center gap-2 text-sm ${exportButton}`}
+                         >
+                             <FileJson size={16} />
+                             Export JSON
+                         </button>
+                         <button 
+                            onClick={() => exportSession(session, 'md')}
+                            className={`px-4 py-2 rounded-lg hover:bg-gray-800 flex items-center gap-2 text-sm ${exportButton}`}
+                         >
+                             <FileText size={16} />
+                             Export Report
+                         </button>
+                         <button 
+                            onClick={() => exportSession(session, 'html')}
+                            className={`px-4 py-2 rounded-lg hover:bg-gray-800 flex items-center gap-2 text-sm ${exportButton}`}
+                         >
+                             <Images size={16} />
+                             Photo Report
+                         </button>
+                         <button 
+                            onClick={() => exportSession(session, 'pdf')}
+                            className={`px-4 py-2 rounded-lg hover:bg-gray-800 flex items-center gap-2 text-sm ${exportButton}`}
+                         >
+                             <Printer size={16} />
+                             Save PDF
+                         </button>
+                         <button 
+                            onClick={() => saveAsTemplate(session)}
+                            className={`px-4 py-2 rounded-lg hover:bg-gray-800 flex items-center gap-2 text-sm ${exportButton}`}
+                         >
+                             <BookmarkPlus size={16} />
+                             Save as Fix
+                         </button>
+                     </div>
+                 )}
                  <button 
                     onClick={resetApp}
-                    className="px-6 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white hover:bg-gray-700 flex items-center gap-2"
+                    className={`px-6 py-3 mb-auto rounded-lg text-white hover:bg-gray-700 flex items-center gap-2 ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-800 border border-gray-600'}`}
                  >
                      <RefreshCw size={20} />
                      Fix Something Else
@@ -442,12 +1708,97 @@ const App: React.FC = () => {
              </div>
         )}
 
+      {/* Repair History */}
+      {historySessions && (
+        <SessionHistory 
+            sessions={historySessions}
+            onClose={() => setHistorySessions(null)}
+            onResume={resumeSession}
+            onReplay={replaySession}
+            onExport={exportSession}
+            onSaveTemplate={saveAsTemplate}
+            onDelete={removeSession}
+            highContrast={highContrast}
+        />
+      )}
+
+      {/* Saved Fixes */}
+      {showTemplates && (
+        <TemplateLibrary 
+            templates={templates}
+            importMessage={importMessage}
+            onClose={() => setShowTemplates(false)}
+            onUse={startFromTemplate}
+            onEdit={setEditingTemplate}
+            onExport={downloadTemplates}
+            onImport={importTemplates}
+            onDelete={removeTemplate}
+            highContrast={highContrast}
+        />
+      )}
+      {editingTemplate && (
+        <TemplateEditor 
+            template={editingTemplate}
+            onSave={storeTemplate}
+            onCancel={() => setEditingTemplate(null)}
+            highContrast={highContrast}
+        />
+      )}
+
+      {/* Part Tree */}
+      {showPartTree && (
+        <PartTreePanel 
+            tree={partTree}
+            onClose={() => setShowPartTree(false)}
+            highContrast={highContrast}
+        />
+      )}
+
+      {/* Settings */}
+      {showSettings && (
+        <SettingsPanel 
+            preferences={preferences}
+            onChange={updatePreferences}
+            onTestVoice={() => speak(currentStep ? describeStepForReading(currentStep, preferences.accessibilityMode) : 'This is how repair steps will be read to you.')}
+            onClose={() => setShowSettings(false)}
+            highContrast={highContrast}
+        />
+      )}
+
+      {/* Safety Stop */}
+      {appState === AppState.SAFETY_STOP && (
+        <div className={`absolute inset-0 z-50 flex flex-col items-center justify-center text-center p-6 ${highContrast ? 'bg-black border-4 border-red-500' : 'bg-red-950/95'}`}>
+            <OctagonAlert size={80} className="text-red-400 mb-6" />
+            <h2 className="text-3xl font-bold text-white mb-2">Do Not Proceed</h2>
+            <p className="text-red-200 mb-2 max-w-md">{safetyStopReason}</p>
+            <p className="text-white font-semibold mb-8 max-w-md">
+                This needs a qualified professional. Keep away from the device and, if it is safe to do so, disconnect its power or supply.
+            </p>
+            {session && (
+                <button 
+                   onClick={() => exportSession(session, 'md')}
+                   className={`mb-4 px-4 py-2 rounded-lg flex items-center gap-2 text-sm ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-black/40 border border-red-800 text-white/80 hover:bg-black/60'}`}
+                >
+                    <FileText size={16} />
+                    Export Report for the Technician
+                </button>
+            )}
+            <button 
+                onClick={resetApp}
+                className={`px-6 py-3 rounded-lg text-white hover:bg-gray-700 flex items-center gap-2 ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-800 border border-gray-600'}`}
+            >
+                <RefreshCw size={20} />
+                Start Over
+            </button>
+        </div>
+      )}
+
       {/* Error State */}
       {appState === AppState.ERROR && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 text-center p-6">
+        <div className={`absolute inset-0 z-50 flex flex-col items-center justify-center text-center p-6 ${highContrast ? 'bg-black' : 'bg-black/90'}`}>
             <XCircle size={60} className="text-red-500 mb-4" />
             <h3 className="text-xl font-bold text-white mb-2">System Error</h3>
-            <p className="text-gray-400 mb-6">{errorMsg || "An unknown error occurred."}</p>
+            <p className={`mb-6 ${mutedText}`}>{errorMsg || "An unknown error occurred."}</p>
             <button 
                 onClick={resetApp}
                 className="px-6 py-3 bg-red-600 rounded-lg text-white font-medium hover:bg-red-500"
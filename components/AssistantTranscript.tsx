@@ -0,0 +1,61 @@
+import React, { useEffect, useRef } from 'react';
+import { CornerDownRight } from 'lucide-react';
+import { AssistantExchange } from '../types';
+
+interface AssistantTranscriptProps {
+  exchanges: AssistantExchange[];
+  highContrast?: boolean;
+}
+
+const COMMAND_LABELS: Record<NonNullable<AssistantExchange['command']>, string> = {
+  next: 'Went to the next step',
+  repeat: 'Repeated the step',
+  back: 'Went back a step',
+  inspect: 'Inspected the part in view',
+  verify: 'Checked the step',
+};
+
+// The conversation so far, scrolling inside the step card
+const AssistantTranscript: React.FC<AssistantTranscriptProps> = ({ exchanges, highContrast = false }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest turn in view as the conversation grows
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [exchanges.length]);
+
+  return (
+    <div className="max-h-48 overflow-y-auto scrollbar-hide border-t border-gray-800 pt-3 space-y-3" aria-label="Conversation">
+      {exchanges.length === 0 && (
+        <p className={`text-sm text-center ${highContrast ? 'text-white' : 'text-gray-500'}`}>Hold the mic and ask anything about the repair.</p>
+      )}
+      {exchanges.map((exchange, index) => (
+        <div key={`${exchange.timestamp}-${index}`} className="space-y-1">
+          <div className="flex justify-end items-end gap-2">
+            {exchange.frame && (
+              <img src={exchange.frame} className="w-12 h-9 rounded object-cover border border-gray-700" alt="What you were looking at" />
+            )}
+            <div className="max-w-[75%] bg-cyan-900 text-cyan-50 text-sm rounded-2xl rounded-br-sm px-3 py-2">
+              <span className={`block text-cyan-300 ${highContrast ? 'text-xs' : 'text-[10px]'}`}>Step {exchange.stepIndex + 1}</span>
+              {exchange.question}
+            </div>
+          </div>
+          <div className="flex justify-start">
+            {exchange.command ? (
+              <p className={`text-xs flex items-center gap-1 ${highContrast ? 'text-white' : 'text-gray-400'}`}>
+                <CornerDownRight size={12} /> {COMMAND_LABELS[exchange.command]}
+              </p>
+            ) : (
+              <div className={`max-w-[85%] bg-gray-800 text-sm rounded-2xl rounded-bl-sm px-3 py-2 ${highContrast ? 'text-white' : 'text-gray-100'}`}>
+                {exchange.answer}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default AssistantTranscript;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Flashlight, FlashlightOff, SwitchCamera, ZoomIn, ZoomOut } from 'lucide-react';
+import { CameraCapabilities } from '../services/camera';
+
+interface CameraControlsProps {
+  capabilities: CameraCapabilities;
+  torch: boolean;
+  zoom: number;
+  onTorchChange: (on: boolean) => void;
+  onZoomChange: (zoom: number) => void;
+  onSwitchCamera?: () => void; // Left out when there is only one camera
+  highContrast?: boolean;
+}
+
+const buttonSurface = (highContrast: boolean) =>
+  highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-900/70 border border-gray-700 text-white/80 hover:text-white';
+
+// Only the controls the current track supports are shown
+const CameraControls: React.FC<CameraControlsProps> = ({ capabilities, torch, zoom, onTorchChange, onZoomChange, onSwitchCamera, highContrast = false }) => {
+  const { zoom: range } = capabilities;
+  const buttonClass = `p-2 rounded-full ${buttonSurface(highContrast)}`;
+  if (!capabilities.torch && !range && !onSwitchCamera) return null;
+
+  return (
+    <div className="absolute right-3 top-1/2 -translate-y-1/2 z-30 flex flex-col items-center gap-2 pointer-events-auto">
+      {capabilities.torch && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onTorchChange(!torch); }}
+          className={torch ? 'p-2 bg-yellow-400 rounded-full text-black' : buttonClass}
+          aria-label="Torch"
+          aria-pressed={torch}
+        >
+          {torch ? <Flashlight size={20} /> : <FlashlightOff size={20} />}
+        </button>
+      )}
+      {onSwitchCamera && (
+        <button onClick={(e) => { e.stopPropagation(); onSwitchCamera(); }} className={buttonClass} aria-label="Switch camera">
+          <SwitchCamera size={20} />
+        </button>
+      )}
+      {range && (
+        <>
+          <button onClick={(e) => { e.stopPropagation(); onZoomChange(zoom + range.step * 5); }} className={buttonClass} aria-label="Zoom in">
+            <ZoomIn size={20} />
+          </button>
+          {/* Tap to go back to no zoom */}
+          <button
+            onClick={(e) => { e.stopPropagation(); onZoomChange(range.min); }}
+            className={`px-2 py-1 rounded-full font-bold ${highContrast ? 'text-sm' : 'text-[11px]'} ${buttonSurface(highContrast)}`}
+            aria-label="Reset zoom"
+          >
+            {zoom.toFixed(1)}×
+          </button>
+          <button onClick={(e) => { e.stopPropagation(); onZoomChange(zoom - range.step * 5); }} className={buttonClass} aria-label="Zoom out">
+            <ZoomOut size={20} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CameraControls;
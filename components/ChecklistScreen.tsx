@@ -0,0 +1,83 @@
+import React from 'react';
+import { Wrench, Droplets, Package, Play, XCircle, CheckSquare, Square } from 'lucide-react';
+import { ChecklistItem, RepairPlan, RequirementKind } from '../types';
+import { getStepProgress } from '../services/planNavigation';
+
+interface ChecklistScreenProps {
+  plan: RepairPlan;
+  items: ChecklistItem[];
+  onToggle: (itemId: string, checked: boolean) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  highContrast?: boolean;
+}
+
+const GROUPS: { kind: RequirementKind; title: string; icon: React.ReactNode }[] = [
+  { kind: 'tool', title: 'Tools', icon: <Wrench size={16} /> },
+  { kind: 'consumable', title: 'Consumables', icon: <Droplets size={16} /> },
+  { kind: 'part', title: 'Replacement Parts', icon: <Package size={16} /> },
+];
+
+const ChecklistScreen: React.FC<ChecklistScreenProps> = ({ plan, items, onToggle, onStart, onCancel, highContrast = false }) => {
+  const checkedCount = items.filter(item => item.checked).length;
+  const mutedText = highContrast ? 'text-white' : 'text-gray-500';
+
+  return (
+    <div className={`absolute inset-0 z-50 flex flex-col p-4 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Before You Start</h2>
+          <p className={`text-sm ${highContrast ? 'text-white' : 'text-gray-400'}`}>Gather everything needed to repair the {plan.objectName}.</p>
+        </div>
+        <button onClick={onCancel} className={`p-2 rounded-full ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70 hover:text-white'}`}>
+          <XCircle size={24} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide space-y-5">
+        {items.length === 0 && (
+          <p className={`text-center mt-12 ${mutedText}`}>No tools or parts needed for this repair.</p>
+        )}
+        {GROUPS.map(group => {
+          const groupItems = items.filter(item => item.kind === group.kind);
+          if (!groupItems.length) return null;
+          return (
+            <div key={group.kind}>
+              <h3 className="text-sm font-bold text-cyan-400 uppercase mb-2 flex items-center gap-2">
+                {group.icon} {group.title}
+              </h3>
+              <div className="space-y-2">
+                {groupItems.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => onToggle(item.id, !item.checked)}
+                    className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left ${highContrast ? `bg-black border-2 ${item.checked ? 'border-cyan-300' : 'border-white'}` : item.checked ? 'bg-cyan-950/60 border-cyan-800' : 'bg-gray-900 border-gray-800'}`}
+                  >
+                    {item.checked ? <CheckSquare size={20} className="text-cyan-400 shrink-0" /> : <Square size={20} className={`shrink-0 ${mutedText}`} />}
+                    <div className="flex-1">
+                      <p className={`font-medium ${item.checked ? `line-through ${highContrast ? 'text-white' : 'text-gray-400'}` : 'text-white'}`}>{item.name}</p>
+                      <p className={`${mutedText} ${highContrast ? 'text-sm' : 'text-xs'}`}>
+                        Used in step{item.stepIndexes.length > 1 ? 's' : ''} {item.stepIndexes.map(index => getStepProgress(plan, index).position + 1).join(', ')}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-mono ${highContrast ? 'text-white' : 'text-gray-300'}`}>× {item.quantity}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onStart}
+        className="mt-4 w-full py-4 bg-cyan-600 hover:bg-cyan-500 rounded-xl text-white font-bold flex items-center justify-center gap-2"
+      >
+        <Play size={20} />
+        Start Repair {items.length > 0 && <span className="text-cyan-200 text-sm font-normal">({checkedCount}/{items.length} ready)</span>}
+      </button>
+    </div>
+  );
+};
+
+export default ChecklistScreen;
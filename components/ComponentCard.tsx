@@ -0,0 +1,65 @@
+import React from 'react';
+import { ComponentInfo, ComponentStatus } from '../types';
+import { isLowConfidence } from '../services/confidence';
+import ConfidenceBadge from './ConfidenceBadge';
+
+export const COMPONENT_STATUS_STYLES: Record<ComponentStatus, string> = {
+  Good: 'bg-green-900 text-green-400',
+  Worn: 'bg-yellow-900 text-yellow-300',
+  Damaged: 'bg-red-900 text-red-400',
+  Missing: 'bg-orange-900 text-orange-300',
+  Unknown: 'bg-gray-700 text-gray-300',
+};
+
+interface ComponentCardProps {
+  info: ComponentInfo;
+  closeLabel: string;
+  onClose: () => void;
+  onBack?: () => void; // Back to the identify-all results
+  highContrast?: boolean;
+}
+
+const ComponentCard: React.FC<ComponentCardProps> = ({ info, closeLabel, onClose, onBack, highContrast = false }) => {
+  const button = `flex-1 py-2 hover:bg-gray-700 rounded-lg text-white font-medium ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-800 transition-colors'}`;
+  return (
+    <div className={`rounded-xl p-4 ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-900/95 border border-cyan-500/50 shadow-[0_0_50px_rgba(6,182,212,0.3)] backdrop-blur-xl'}`}>
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <h3 className="text-xl font-bold text-cyan-400">{info.name}</h3>
+          {info.parent && <p className={highContrast ? 'text-sm text-white' : 'text-[11px] text-gray-500'}>Part of {info.parent}</p>}
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <div className={`text-xs px-2 py-0.5 rounded uppercase font-bold ${COMPONENT_STATUS_STYLES[info.status]}`}>
+            {info.status}
+          </div>
+          <ConfidenceBadge confidence={info.confidence} highContrast={highContrast} />
+        </div>
+      </div>
+      <p className={`mb-3 ${highContrast ? 'text-white' : 'text-gray-300 text-sm font-light'}`}>{info.function}</p>
+      <div className={`p-2 rounded mb-4 ${highContrast ? 'text-sm text-white bg-black border border-white' : 'text-xs text-cyan-100/70 bg-cyan-950/30 border border-cyan-900/50'}`}>
+        <strong>Analysis:</strong> {info.details}
+      </div>
+      {isLowConfidence(info.confidence) && (
+        <p className="text-xs text-amber-300 mb-4">Not sure about this one. Get closer or improve the lighting and inspect it again before relying on it.</p>
+      )}
+      <div className="flex gap-2">
+        {onBack && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onBack(); }}
+            className={button}
+          >
+            All Parts
+          </button>
+        )}
+        <button
+          onClick={(e) => { e.stopPropagation(); onClose(); }}
+          className={button}
+        >
+          {closeLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ComponentCard;
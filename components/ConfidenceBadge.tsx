@@ -0,0 +1,27 @@
+import React from 'react';
+import { HelpCircle } from 'lucide-react';
+import { formatConfidence, isLowConfidence } from '../services/confidence';
+
+interface ConfidenceBadgeProps {
+  confidence?: number;
+  className?: string;
+  highContrast?: boolean;
+}
+
+// Renders nothing when the model gave no confidence
+const ConfidenceBadge: React.FC<ConfidenceBadgeProps> = ({ confidence, className = '', highContrast = false }) => {
+  if (confidence === undefined) return null;
+  const low = isLowConfidence(confidence);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded font-bold uppercase ${highContrast ? `text-xs bg-black border ${low ? 'border-amber-300 text-amber-300' : 'border-white text-white'}` : `text-[10px] ${low ? 'bg-amber-900/80 text-amber-300' : 'bg-gray-800 text-gray-400'}`} ${className}`}
+      title={low ? 'The model is unsure about this' : undefined}
+    >
+      {low && <HelpCircle size={11} />}
+      {low ? `Unsure · ${formatConfidence(confidence)}` : `${formatConfidence(confidence)} sure`}
+    </span>
+  );
+};
+
+export default ConfidenceBadge;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { HelpCircle, Check, X } from 'lucide-react';
+import { VerificationResult } from '../types';
+import ConfidenceBadge from './ConfidenceBadge';
+
+interface ConfirmCheckPanelProps {
+  result: VerificationResult;
+  onConfirm: (done: boolean) => void;
+  highContrast?: boolean;
+}
+
+// Shown instead of moving on when the model can't tell whether the step is done
+const ConfirmCheckPanel: React.FC<ConfirmCheckPanelProps> = ({ result, onConfirm, highContrast = false }) => {
+  return (
+    <div className={`absolute left-4 right-4 top-28 z-40 rounded-2xl p-4 ${highContrast ? 'bg-black border-2 border-amber-300' : 'bg-gray-950/95 border border-amber-600'}`}>
+      <h3 className="text-lg font-bold text-white flex items-center gap-2 mb-1">
+        <HelpCircle size={20} className="text-amber-400 shrink-0" />
+        Is this step done?
+      </h3>
+      <div className="mb-3 flex items-start gap-2">
+        <p className={`flex-1 text-sm ${highContrast ? 'text-white' : 'text-gray-300'}`}>
+          The check couldn't tell for sure{result.completed ? ' but thinks it probably is' : ' and thinks it probably isn\'t'}. {result.feedback}
+        </p>
+        <ConfidenceBadge confidence={result.confidence} className="shrink-0" highContrast={highContrast} />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onConfirm(false)}
+          className={`flex-1 py-3 hover:bg-gray-700 rounded-xl text-white font-medium flex items-center justify-center gap-2 ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-800 border border-gray-700'}`}
+        >
+          <X size={18} />
+          Not yet
+        </button>
+        <button
+          onClick={() => onConfirm(true)}
+          className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 rounded-xl text-black font-bold flex items-center justify-center gap-2"
+        >
+          <Check size={18} />
+          Yes, it's done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmCheckPanel;
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef } from 'react';
+import { VisualCue } from '../types';
+import { COORDINATE_MAX } from '../services/planValidation';
+import { layoutLabels, getCueLabel, isUnsureCue, Rect } from '../services/cueLayout';
+
+interface CueOverlayProps {
+  cues: VisualCue[];
+  width: number;
+  height: number;
+}
+
+const CUE_COLOR = '#22d3ee';
+const HAZARD_COLOR = '#ef4444';
+const LABEL_FONT = '600 13px Inter, sans-serif';
+const LABEL_PADDING = 6;
+const LABEL_HEIGHT = 22;
+
+const ARROW_VECTORS: Record<string, [number, number]> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0],
+};
+
+const toRect = (cue: VisualCue, width: number, height: number): Rect => {
+  const { xmin, ymin, xmax, ymax } = cue.coordinates;
+  return {
+    x: (xmin / COORDINATE_MAX) * width,
+    y: (ymin / COORDINATE_MAX) * height,
+    width: ((xmax - xmin) / COORDINATE_MAX) * width,
+    height: ((ymax - ymin) / COORDINATE_MAX) * height,
+  };
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, size = 12) => {
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x - size * Math.cos(angle - Math.PI / 6), y - size * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(x - size * Math.cos(angle + Math.PI / 6), y - size * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawCue = (ctx: CanvasRenderingContext2D, cue: VisualCue, rect: Rect, width: number, height: number) => {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  ctx.strokeStyle = CUE_COLOR;
+  ctx.fillStyle = CUE_COLOR;
+  ctx.lineWidth = 3;
+
+  switch (cue.type) {
+    case 'box':
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      break;
+
+    case 'point':
+      ctx.beginPath();
+      ctx.arc(cx, cy, 8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.beginPath();
+      ctx.arc(cx, cy, 18, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+
+    case 'arrow': {
+      // Point into the target from the opposite side of the requested direction
+      const [vx, vy] = ARROW_VECTORS[(cue.direction || '').toLowerCase()] || [-0.7, 0.7];
+      const length = Math.max(60, Math.max(rect.width, rect.height));
+      const tipX = cx;
+      const tipY = cy;
+      const tailX = tipX - vx * length;
+      const tailY = tipY - vy * length;
+      ctx.beginPath();
+      ctx.moveTo(tailX, tailY);
+      ctx.lineTo(tipX, tipY);
+      ctx.stroke();
+      drawArrowHead(ctx, tipX, tipY, Math.atan2(vy, vx), 16);
+      break;
+    }
+
+    case 'polygon':
+      if (!cue.points) break;
+      ctx.beginPath();
+      cue.points.forEach((point, index) => {
+        const px = (point.x / COORDINATE_MAX) * width;
+        const py = (point.y / COORDINATE_MAX) * height;
+        if (index === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+      });
+      ctx.closePath();
+      ctx.globalAlpha = 0.2;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.stroke();
+      break;
+
+    case 'sequence': {
+      const radius = 14;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#000';
+      ctx.font = 'bold 15px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(String(cue.order || ''), cx, cy + 1);
+      ctx.textAlign = 'start';
+      ctx.textBaseline = 'alphabetic';
+      break;
+    }
+
+    case 'rotation': {
+      const radius = Math.max(20, Math.min(rect.width, rect.height) / 2 + 10);
+      const clockwise = cue.direction !== 'counterclockwise';
+      const start = -Math.PI / 2;
+      const end = start + (clockwise ? 1.5 : -1.5) * Math.PI;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, start, end, !clockwise);
+      ctx.stroke();
+      // Arrow head tangent to the end of the arc
+      drawArrowHead(ctx, cx + radius * Math.cos(end), cy + radius * Math.sin(end), end + (clockwise ? Math.PI / 2 : -Math.PI / 2), 14);
+      break;
+    }
+
+    case 'hazard': {
+      ctx.save();
+      ctx.strokeStyle = HAZARD_COLOR;
+      ctx.fillStyle = HAZARD_COLOR;
+      ctx.globalAlpha = 0.18;
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.globalAlpha = 0.6;
+      ctx.lineWidth = 2;
+      // Diagonal hatching clipped to the zone
+      ctx.beginPath();
+      ctx.rect(rect.x, rect.y, rect.width, rect.height);
+      ctx.clip();
+      for (let offset = -rect.height; offset < rect.width; offset += 16) {
+        ctx.beginPath();
+        ctx.moveTo(rect.x + offset, rect.y + rect.height);
+        ctx.lineTo(rect.x + offset + rect.height, rect.y);
+        ctx.stroke();
+      }
+      ctx.restore();
+      ctx.strokeStyle = HAZARD_COLOR;
+      ctx.setLineDash([10, 6]);
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.setLineDash([]);
+      break;
+    }
+
+    default:
+      break;
+  }
+};
+
+/**
+ * Renders every cue of a step (boxes, arrows, points, outlines, numbered
+ * markers, rotation arcs and keep-out zones) with non-overlapping labels.
+ */
+const CueOverlay: React.FC<CueOverlayProps> = ({ cues, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.clearRect(0, 0, width, height);
+
+    const visible = cues.filter(cue => cue.type !== 'none');
+    const rects = visible.map(cue => toRect(cue, width, height));
+    // Hazards first so the other cues are drawn on top of the hatching
+    visible
+      .map((cue, index) => ({ cue, rect: rects[index] }))
+      .sort((a, b) => (a.cue.type === 'hazard' ? 0 : 1) - (b.cue.type === 'hazard' ? 0 : 1))
+      .forEach(({ cue, rect }) => {
+        // Dashed outlines mark where the model is only guessing
+        ctx.setLineDash(isUnsureCue(cue) ? [6, 6] : []);
+        drawCue(ctx, cue, rect, width, height);
+        ctx.setLineDash([]);
+      });
+
+    ctx.font = LABEL_FONT;
+    const labelled = visible
+      .map((cue, index) => ({ cue, rect: rects[index], text: getCueLabel(cue) }))
+      .filter(entry => entry.text);
+    const positions = layoutLabels(
+      labelled.map(entry => ({
+        anchor: entry.rect,
+        width: ctx.measureText(entry.text).width + LABEL_PADDING * 2,
+        height: LABEL_HEIGHT,
+      })),
+      { x: 0, y: 0, width, height }
+    );
+
+    labelled.forEach((entry, index) => {
+      const position = positions[index];
+      const color = entry.cue.type === 'hazard' ? HAZARD_COLOR : CUE_COLOR;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+      ctx.fillRect(position.x, position.y, position.width, position.height);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(position.x, position.y, position.width, position.height);
+      ctx.fillStyle = color;
+      ctx.textBaseline = 'middle';
+      ctx.fillText(entry.text, position.x + LABEL_PADDING, position.y + position.height / 2);
+    });
+  }, [cues, width, height]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />;
+};
+
+export default CueOverlay;
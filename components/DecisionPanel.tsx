@@ -0,0 +1,49 @@
+import React from 'react';
+import { HelpCircle, Mic } from 'lucide-react';
+import { StepDecision } from '../types';
+
+interface DecisionPanelProps {
+  decision: StepDecision;
+  onChoose: (optionIndex: number) => void;
+  onAnswerByVoice?: () => void; // Left out when the browser can't recognise speech
+  isListening: boolean;
+  heard: string | null; // Last transcript that matched no option
+  highContrast?: boolean;
+}
+
+const DecisionPanel: React.FC<DecisionPanelProps> = ({ decision, onChoose, onAnswerByVoice, isListening, heard, highContrast = false }) => {
+  return (
+    <div className={`absolute left-4 right-4 top-28 z-40 rounded-2xl p-4 ${highContrast ? 'bg-black border-2 border-cyan-300' : 'bg-gray-950/95 border border-cyan-700'}`}>
+      <h3 className="text-lg font-bold text-white flex items-center gap-2 mb-3">
+        <HelpCircle size={20} className="text-cyan-400 shrink-0" />
+        {decision.question}
+      </h3>
+      <div className="flex flex-col gap-2">
+        {decision.options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => onChoose(index)}
+            className={`w-full py-3 px-4 hover:bg-cyan-900 rounded-xl text-white text-left font-medium ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-800 border border-gray-700'}`}
+          >
+            <span className="text-cyan-400 mr-2">{index + 1}.</span>{option.label}
+          </button>
+        ))}
+      </div>
+      {onAnswerByVoice && (
+        <button
+          onClick={onAnswerByVoice}
+          disabled={isListening}
+          className={`mt-3 w-full py-2 rounded-xl text-cyan-300 text-sm flex items-center justify-center gap-2 ${highContrast ? 'border-2 border-cyan-300' : 'border border-cyan-800 disabled:animate-pulse'}`}
+        >
+          <Mic size={16} />
+          {isListening ? 'Listening...' : 'Answer by voice'}
+        </button>
+      )}
+      {heard && !isListening && (
+        <p className={`mt-2 text-center ${highContrast ? 'text-sm text-white' : 'text-xs text-gray-400'}`}>Heard "{heard}". Please tap an answer or try again.</p>
+      )}
+    </div>
+  );
+};
+
+export default DecisionPanel;
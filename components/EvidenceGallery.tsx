@@ -0,0 +1,81 @@
+import React from 'react';
+import { DiagnosisFrame, EvidenceFrame, FrameEvidence, RepairSession } from '../types';
+import { getDiagnosisFrame, listStepEvidence } from '../services/repairSession';
+import ConfidenceBadge from './ConfidenceBadge';
+
+interface EvidenceGalleryProps {
+  session: RepairSession;
+  highContrast?: boolean;
+}
+
+const EvidencePhoto: React.FC<{ label: string; frame?: EvidenceFrame; missing: string; highContrast: boolean }> = ({ label, frame, missing, highContrast }) => {
+  if (!frame) {
+    return <div className={`aspect-[4/3] rounded-lg bg-gray-900 border border-gray-800 flex items-center justify-center text-xs ${highContrast ? 'text-white' : 'text-gray-600'}`}>{missing}</div>;
+  }
+  return (
+    <figure>
+      <img src={frame.image} alt={label} className="w-full aspect-[4/3] object-cover rounded-lg border border-gray-800" />
+      <figcaption className={`mt-1 ${highContrast ? 'text-sm text-white' : 'text-[11px] text-gray-500'}`}>
+        <span className={`font-bold uppercase mr-1 ${highContrast ? 'text-white' : 'text-gray-300'}`}>{label}</span>
+        {new Date(frame.timestamp).toLocaleTimeString()}
+      </figcaption>
+    </figure>
+  );
+};
+
+// The clip frames the diagnosis cites, then before and after photos of every step, side by side
+const EvidenceGallery: React.FC<EvidenceGalleryProps> = ({ session, highContrast = false }) => {
+  const entries = listStepEvidence(session);
+  const clipFrames = (session.plan.diagnosisEvidence || [])
+    .map(evidence => ({ evidence, frame: getDiagnosisFrame(session, evidence.frameIndex) }))
+    .filter((entry): entry is { evidence: FrameEvidence; frame: DiagnosisFrame } => !!entry.frame);
+  if (!entries.length && !clipFrames.length) return null;
+  const headingClass = `text-sm font-bold uppercase mb-2 ${highContrast ? 'text-white' : 'text-gray-400'}`;
+
+  return (
+    <div className="w-full max-w-2xl mb-6 text-left">
+      {clipFrames.length > 0 && (
+        <div className="mb-6">
+          <h3 className={headingClass}>Diagnosis</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {clipFrames.map(({ evidence, frame }) => (
+              <figure key={evidence.frameIndex}>
+                <img src={frame.image} alt={evidence.observation} className="w-full aspect-[4/3] object-cover rounded-lg border border-red-400/60" />
+                <figcaption className={`mt-1 ${highContrast ? 'text-sm text-white' : 'text-[11px] text-gray-500'}`}>
+                  <span className={`font-bold mr-1 ${highContrast ? 'text-white' : 'text-gray-300'}`}>{((evidence.timestampMs || 0) / 1000).toFixed(1)}s</span>
+                  {evidence.observation}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+      {entries.length > 0 && <h3 className={headingClass}>Before & After</h3>}
+      <div className="space-y-4">
+        {entries.map(entry => {
+          const step = session.plan.steps[entry.stepIndex];
+          return (
+            <div key={entry.stepIndex} className="border-b border-gray-800 pb-4">
+              <p className="text-white text-sm font-medium mb-2">
+                <span className={`mr-2 ${highContrast ? 'text-white' : 'text-gray-500'}`}>Step {entry.stepIndex + 1}</span>
+                {step ? step.title : ''}
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <EvidencePhoto label="Before" frame={entry.before} missing="No before photo" highContrast={highContrast} />
+                <EvidencePhoto label="After" frame={entry.after} missing="Not verified" highContrast={highContrast} />
+              </div>
+              {entry.after && entry.after.feedback && (
+                <div className={`mt-2 flex items-start gap-2 text-xs ${highContrast ? 'text-white' : 'text-gray-400'}`}>
+                  <p className="flex-1">{entry.after.feedback}{entry.after.confirmedByUser ? ' (confirmed by you)' : ''}</p>
+                  <ConfidenceBadge confidence={entry.after.confidence} className="shrink-0" highContrast={highContrast} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceGallery;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Ear } from 'lucide-react';
+import { HandsFreeStatus } from '../hooks/useHandsFree';
+
+interface HandsFreeBarProps {
+  status: HandsFreeStatus;
+  lastHeard: string | null;
+  wakePhrase: string;
+  onWakePhraseChange?: (wakePhrase: string) => void; // Left out when the browser can't recognise speech
+  highContrast?: boolean;
+}
+
+const STATUS_LABELS: Record<HandsFreeStatus, string> = {
+  off: 'Microphone unavailable',
+  waiting: 'Listening',
+  hearing: 'Hearing you...',
+  processing: 'Got it...',
+};
+
+const HandsFreeBar: React.FC<HandsFreeBarProps> = ({ status, lastHeard, wakePhrase, onWakePhraseChange, highContrast = false }) => {
+  const prompt = wakePhrase ? `Say "${wakePhrase}", then "next", "repeat" or a question` : 'Say "next", "repeat", "verify" or ask a question';
+
+  return (
+    <div className={`mt-3 pointer-events-auto rounded-xl px-3 py-2 flex items-center gap-3 ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-950/80 border border-gray-800'}`}>
+      <Ear size={18} className={status === 'hearing' ? `text-cyan-400 ${highContrast ? '' : 'animate-pulse'}` : status === 'off' ? (highContrast ? 'text-white' : 'text-gray-600') : (highContrast ? 'text-cyan-300' : 'text-cyan-700')} />
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-bold text-white">{STATUS_LABELS[status]}</p>
+        <p className={`truncate ${highContrast ? 'text-sm text-white' : 'text-[11px] text-gray-400'}`}>{lastHeard ? `Heard "${lastHeard}"` : prompt}</p>
+      </div>
+      {onWakePhraseChange && (
+        <input
+          value={wakePhrase}
+          onChange={event => onWakePhraseChange(event.target.value)}
+          placeholder="Wake phrase"
+          aria-label="Wake phrase"
+          className={`w-28 rounded-lg px-2 py-1 text-xs text-white ${highContrast ? 'bg-black border-2 border-white placeholder-gray-300' : 'bg-gray-900 border border-gray-700 placeholder-gray-600'}`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default HandsFreeBar;
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface LiveAnnouncerProps {
+  status: string; // What the app is doing now
+  reply: string | null; // The assistant's latest answer or check result
+  alert: string | null; // Safety stops and errors, read out over anything else
+}
+
+// Visually hidden; screen readers read changes without focus leaving the camera view
+const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ status, reply, alert }) => (
+  <div className="sr-only">
+    <div role="status" aria-live="polite" aria-atomic="true">{status}</div>
+    <div aria-live="polite" aria-atomic="true">{reply || ''}</div>
+    <div role="alert" aria-live="assertive" aria-atomic="true">{alert || ''}</div>
+  </div>
+);
+
+export default LiveAnnouncer;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { XCircle, ChevronRight, ChevronDown } from 'lucide-react';
+import { PartNode, PartTree } from '../types';
+import { getChildParts, getLatestStatus } from '../services/partTree';
+import { COMPONENT_STATUS_STYLES } from './ComponentCard';
+
+interface PartTreePanelProps {
+  tree: PartTree | null;
+  onClose: () => void;
+  highContrast?: boolean;
+}
+
+const formatObservation = (observed: PartNode['history'][number]) =>
+  `${new Date(observed.timestamp).toLocaleString()}${observed.stepIndex !== null ? ` · Step ${observed.stepIndex + 1}` : ' · Before repair'}`;
+
+const PartRow: React.FC<{ tree: PartTree; part: PartNode; depth: number; highContrast: boolean }> = ({ tree, part, depth, highContrast }) => {
+  const [open, setOpen] = useState(false);
+  const children = getChildParts(tree, part.id);
+  const status = getLatestStatus(part);
+
+  return (
+    <div style={{ marginLeft: depth * 16 }}>
+      <button
+        onClick={() => setOpen(value => !value)}
+        className="w-full flex items-center gap-2 py-2 border-b border-gray-800 text-left"
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown size={16} className={highContrast ? 'text-white' : 'text-gray-500'} /> : <ChevronRight size={16} className={highContrast ? 'text-white' : 'text-gray-500'} />}
+        <span className="flex-1 text-white">{part.name}</span>
+        {part.history.length > 0 && (
+          <span className={`text-[10px] px-2 py-0.5 rounded uppercase font-bold ${COMPONENT_STATUS_STYLES[status]}`}>{status}</span>
+        )}
+      </button>
+      {open && (
+        <div className="ml-6 py-2 space-y-2">
+          {part.function && <p className={`text-sm ${highContrast ? 'text-white' : 'text-gray-400'}`}>{part.function}</p>}
+          {part.history.length === 0 ? (
+            <p className={`text-xs ${highContrast ? 'text-white' : 'text-gray-600'}`}>Not inspected on its own yet.</p>
+          ) : (
+            // Newest first: what it looks like now matters most
+            part.history.slice().reverse().map((observed, index) => (
+              <div key={`${observed.timestamp}-${index}`} className="text-xs">
+                <span className={`px-1.5 py-0.5 rounded uppercase font-bold mr-2 ${COMPONENT_STATUS_STYLES[observed.status]}`}>{observed.status}</span>
+                <span className={highContrast ? 'text-white' : 'text-gray-500'}>{formatObservation(observed)}</span>
+                {observed.details && <p className={`mt-1 ${highContrast ? 'text-white' : 'text-gray-300'}`}>{observed.details}</p>}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+      {children.map(child => <PartRow key={child.id} tree={tree} part={child} depth={depth + 1} highContrast={highContrast} />)}
+    </div>
+  );
+};
+
+const PartTreePanel: React.FC<PartTreePanelProps> = ({ tree, onClose, highContrast = false }) => {
+  return (
+    <div className={`absolute inset-0 z-[60] flex flex-col p-4 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Parts</h2>
+          {tree && tree.objectName && <p className={`text-sm ${highContrast ? 'text-white' : 'text-gray-400'}`}>{tree.objectName}</p>}
+        </div>
+        <button onClick={onClose} className={`p-2 rounded-full hover:text-white ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70'}`} aria-label="Close parts">
+          <XCircle size={24} />
+        </button>
+      </div>
+
+      {!tree || tree.parts.length === 0 ? (
+        <p className={`text-center mt-12 ${highContrast ? 'text-white' : 'text-gray-500'}`}>No parts inspected yet. Tap or drag over a part, or identify everything in view.</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto scrollbar-hide">
+          {getChildParts(tree, null).map(part => <PartRow key={part.id} tree={tree} part={part} depth={0} highContrast={highContrast} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PartTreePanel;
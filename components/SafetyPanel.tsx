@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Zap, Flame, Gauge, FlaskConical, Scissors, Weight, HardHat, ShieldAlert, CheckSquare, Square } from 'lucide-react';
+import { HazardCategory, HazardSeverity, StepHazard } from '../types';
+import { HAZARD_LABELS } from '../services/safety';
+
+interface SafetyPanelProps {
+  hazards: StepHazard[];
+  onAcknowledge: () => void;
+  highContrast?: boolean;
+}
+
+const HAZARD_ICONS: Record<HazardCategory, React.ReactNode> = {
+  electrical: <Zap size={16} />,
+  thermal: <Flame size={16} />,
+  pressure: <Gauge size={16} />,
+  chemical: <FlaskConical size={16} />,
+  sharp: <Scissors size={16} />,
+  lifting: <Weight size={16} />,
+};
+
+const SEVERITY_STYLES: Record<HazardSeverity, string> = {
+  low: 'bg-yellow-900 text-yellow-300',
+  medium: 'bg-orange-900 text-orange-300',
+  high: 'bg-red-900 text-red-300',
+};
+
+/**
+ * Blocks a high-severity step until every precondition is ticked and the
+ * user confirms. Mount it with a per-step key so the ticks reset between steps.
+ */
+const SafetyPanel: React.FC<SafetyPanelProps> = ({ hazards, onAcknowledge, highContrast = false }) => {
+  const preconditions = hazards.reduce<string[]>((all, hazard) => all.concat(hazard.preconditions), []);
+  const ppe = hazards.reduce<string[]>((all, hazard) => all.concat(hazard.ppe.filter(item => all.indexOf(item) === -1)), []);
+  const [done, setDone] = useState<boolean[]>(() => preconditions.map(() => false));
+  const ready = done.every(Boolean);
+  const mutedText = highContrast ? 'text-white' : 'text-gray-400';
+
+  return (
+    <div className={`absolute inset-0 z-[45] flex items-center justify-center p-4 ${highContrast ? 'bg-black' : 'bg-black/80'}`}>
+      <div className={`w-full max-w-md border-2 rounded-2xl p-5 ${highContrast ? 'bg-black border-red-500' : 'bg-gray-950 border-red-600'}`}>
+        <h2 className="text-xl font-bold text-red-400 flex items-center gap-2 mb-4">
+          <ShieldAlert size={24} /> Safety Check
+        </h2>
+
+        <div className="space-y-3 mb-4">
+          {hazards.map((hazard, index) => (
+            <div key={index} className="flex items-start gap-3">
+              <span className="text-red-400 mt-0.5">{HAZARD_ICONS[hazard.category]}</span>
+              <div className="flex-1">
+                <p className="text-white text-sm font-semibold">
+                  {HAZARD_LABELS[hazard.category]}
+                  <span className={`ml-2 px-1.5 py-0.5 rounded uppercase font-bold ${highContrast ? 'text-xs' : 'text-[10px]'} ${SEVERITY_STYLES[hazard.severity]}`}>
+                    {hazard.severity}
+                  </span>
+                </p>
+                <p className={`text-sm ${mutedText}`}>{hazard.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {ppe.length > 0 && (
+          <p className="text-cyan-300 text-sm mb-4 flex items-center gap-2">
+            <HardHat size={16} /> Wear: {ppe.join(', ')}
+          </p>
+        )}
+
+        {preconditions.length > 0 && (
+          <div className="mb-4">
+            <h3 className={`text-xs font-bold uppercase mb-2 ${mutedText}`}>Before you continue</h3>
+            {preconditions.map((precondition, index) => (
+              <button
+                key={index}
+                onClick={() => setDone(prev => prev.map((value, i) => i === index ? !value : value))}
+                className="w-full flex items-center gap-3 py-2 text-left text-white"
+              >
+                {done[index] ? <CheckSquare size={20} className="text-green-400 shrink-0" /> : <Square size={20} className={`shrink-0 ${highContrast ? 'text-white' : 'text-gray-500'}`} />}
+                <span className={done[index] ? mutedText : ''}>{precondition}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={onAcknowledge}
+          disabled={!ready}
+          className={`w-full py-3 bg-red-600 hover:bg-red-500 rounded-xl text-white font-bold ${highContrast ? 'disabled:bg-black disabled:border-2 disabled:border-white' : 'disabled:bg-gray-800 disabled:text-gray-500'}`}
+        >
+          I understand the risks
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SafetyPanel;
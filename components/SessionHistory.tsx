@@ -0,0 +1,95 @@
+import React from 'react';
+import { XCircle, FileJson, FileText, Images, Printer, Trash2, Play, RotateCcw, BookmarkPlus } from 'lucide-react';
+import { RepairSession } from '../types';
+import { ReportFormat } from '../services/sessionReport';
+import { getStepProgress } from '../services/planNavigation';
+import { formatUsage } from '../services/requestPipeline';
+
+interface SessionHistoryProps {
+  sessions: RepairSession[];
+  onClose: () => void;
+  onResume: (session: RepairSession) => void;
+  onReplay: (session: RepairSession) => void; // Start over with a saved plan, works offline
+  onExport: (session: RepairSession, format: ReportFormat) => void;
+  onSaveTemplate: (session: RepairSession) => void; // Opens the plan in the template editor
+  onDelete: (session: RepairSession) => void;
+  highContrast?: boolean;
+}
+
+const STATUS_STYLES: Record<RepairSession['status'], string> = {
+  active: 'bg-cyan-900 text-cyan-300',
+  completed: 'bg-green-900 text-green-400',
+  abandoned: 'bg-gray-700 text-gray-300',
+  stopped: 'bg-red-900 text-red-300',
+};
+
+const formatProgress = (session: RepairSession) => {
+  const { position, total } = getStepProgress(session.plan, session.currentStepIndex);
+  return `Step ${position + 1} of ${total}`;
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, onClose, onResume, onReplay, onExport, onSaveTemplate, onDelete, highContrast = false }) => {
+  return (
+    <div className={`absolute inset-0 z-[60] flex flex-col p-4 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">Repair History</h2>
+        <button onClick={onClose} className={`p-2 rounded-full hover:text-white ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70'}`}>
+          <XCircle size={24} />
+        </button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className={`text-center mt-12 ${highContrast ? 'text-white' : 'text-gray-500'}`}>No repairs recorded yet.</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto scrollbar-hide space-y-3">
+          {sessions.map(session => (
+            <div key={session.id} className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+              <div className="flex justify-between items-start mb-1">
+                <h3 className="text-lg font-semibold text-white">{session.plan.objectName}</h3>
+                <span className={`text-xs px-2 py-0.5 rounded uppercase font-bold ${STATUS_STYLES[session.status]}`}>
+                  {session.status}
+                </span>
+              </div>
+              <p className={`text-sm mb-1 ${highContrast ? 'text-white' : 'text-gray-400'}`}>{session.plan.issueDiagnosis}</p>
+              <p className={`text-xs mb-3 ${highContrast ? 'text-white' : 'text-gray-500'}`}>
+                {new Date(session.updatedAt).toLocaleString()} · {formatProgress(session)}
+                {session.usage && <span className="block">Model: {formatUsage(session.usage)}</span>}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {session.status === 'active' ? (
+                  <button onClick={() => onResume(session)} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 rounded-lg text-white text-sm flex items-center gap-1">
+                    <Play size={14} /> Resume
+                  </button>
+                ) : (
+                  <button onClick={() => onReplay(session)} className="px-3 py-1.5 bg-cyan-900 hover:bg-cyan-800 rounded-lg text-cyan-200 text-sm flex items-center gap-1">
+                    <RotateCcw size={14} /> Replay
+                  </button>
+                )}
+                <button onClick={() => onExport(session, 'json')} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <FileJson size={14} /> JSON
+                </button>
+                <button onClick={() => onExport(session, 'md')} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <FileText size={14} /> Markdown
+                </button>
+                <button onClick={() => onExport(session, 'html')} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <Images size={14} /> Photo Report
+                </button>
+                <button onClick={() => onExport(session, 'pdf')} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <Printer size={14} /> PDF
+                </button>
+                <button onClick={() => onSaveTemplate(session)} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <BookmarkPlus size={14} /> Save as Fix
+                </button>
+                <button onClick={() => onDelete(session)} className={`ml-auto p-1.5 hover:text-red-400 ${highContrast ? 'text-white' : 'text-gray-500'}`} aria-label="Delete session">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionHistory;
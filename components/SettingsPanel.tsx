@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { XCircle, Volume2 } from 'lucide-react';
+import { Preferences, LANGUAGES } from '../services/preferences';
+import { isSpeechSynthesisSupported, listVoices } from '../services/speech';
+import { listCameras, RESOLUTIONS, CameraResolution } from '../services/camera';
+import { KEYBOARD_SHORTCUTS, formatShortcutKeys } from '../services/keyboardShortcuts';
+
+interface SettingsPanelProps {
+  preferences: Preferences;
+  onChange: (changes: Partial<Preferences>) => void;
+  onTestVoice: () => void;
+  onClose: () => void;
+  highContrast?: boolean;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, onChange, onTestVoice, onClose, highContrast = false }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => listVoices(preferences.language));
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const canSpeak = isSpeechSynthesisSupported();
+  const labelClass = `text-sm font-bold uppercase ${highContrast ? 'text-white' : 'text-gray-400'}`;
+  const hintClass = `block text-xs ${highContrast ? 'text-white' : 'text-gray-500'}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    listCameras()
+      .then(found => { if (!cancelled) setCameras(found); })
+      .catch(err => console.warn('Could not list cameras', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  // Browsers load voices lazily and announce them with voiceschanged
+  useEffect(() => {
+    if (!canSpeak) return;
+    const refresh = () => setVoices(listVoices(preferences.language));
+    refresh();
+    window.speechSynthesis.addEventListener('voiceschanged', refresh);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+  }, [canSpeak, preferences.language]);
+
+  return (
+    <div className={`absolute inset-0 z-[60] flex flex-col p-4 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">Settings</h2>
+        <button onClick={onClose} className={`p-2 rounded-full hover:text-white ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70'}`} aria-label="Close settings">
+          <XCircle size={24} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide space-y-5 max-w-md w-full mx-auto">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences.accessibilityMode}
+            onChange={event => onChange({ accessibilityMode: event.target.checked })}
+            className="mt-1 w-4 h-4 accent-cyan-500"
+          />
+          <span>
+            <span className="block text-white font-medium">Accessibility mode</span>
+            <span className={hintClass}>High-contrast large type without flashing. Screen readers hear each step with where its markers are, and reading a step aloud includes them too.</span>
+          </span>
+        </label>
+
+        <div>
+          <span className={labelClass}>Keyboard</span>
+          <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+            {KEYBOARD_SHORTCUTS.map(shortcut => (
+              <React.Fragment key={shortcut.action}>
+                <dt className="font-mono text-cyan-300">{formatShortcutKeys(shortcut)}</dt>
+                <dd className={highContrast ? 'text-white' : 'text-gray-300'}>{shortcut.label}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+        {cameras.length > 1 && (
+          <label className="block">
+            <span className={labelClass}>Camera</span>
+            <select
+              value={preferences.cameraDeviceId}
+              onChange={event => onChange({ cameraDeviceId: event.target.value })}
+              className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white"
+            >
+              <option value="">Back camera</option>
+              {cameras.map((camera, index) => (
+                <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${index + 1}`}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="block">
+          <span className={labelClass}>Resolution</span>
+          <select
+            value={preferences.cameraResolution}
+            onChange={event => onChange({ cameraResolution: event.target.value as CameraResolution })}
+            className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white"
+          >
+            {RESOLUTIONS.map(resolution => (
+              <option key={resolution.id} value={resolution.id}>{resolution.label}</option>
+            ))}
+          </select>
+          <span className={`mt-1 ${hintClass}`}>Frames are compressed before upload either way; higher helps with small parts and labels.</span>
+        </label>
+
+        <label className="block">
+          <span className={labelClass}>Language</span>
+          <select
+            value={preferences.language}
+            // A voice only fits its own language
+            onChange={event => onChange({ language: event.target.value, voiceURI: '' })}
+            className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white"
+          >
+            {LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.label}</option>
+            ))}
+          </select>
+          <span className={`mt-1 ${hintClass}`}>Plans, checks and answers come back in this language. Offline demo plans stay in English.</span>
+        </label>
+
+        {canSpeak ? (
+          <>
+            <label className="block">
+              <span className={labelClass}>Voice</span>
+              <select
+                value={preferences.voiceURI}
+                onChange={event => onChange({ voiceURI: event.target.value })}
+                className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white"
+              >
+                <option value="">Default</option>
+                {voices.map(voice => (
+                  <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className={labelClass}>Speed · {preferences.speechRate.toFixed(1)}×</span>
+              <input
+                type="range"
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={preferences.speechRate}
+                onChange={event => onChange({ speechRate: Number(event.target.value) })}
+                className="mt-2 w-full accent-cyan-500"
+              />
+            </label>
+
+            <label className="block">
+              <span className={labelClass}>Volume · {Math.round(preferences.speechVolume * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={preferences.speechVolume}
+                onChange={event => onChange({ speechVolume: Number(event.target.value) })}
+                className="mt-2 w-full accent-cyan-500"
+              />
+            </label>
+
+            <button
+              onClick={onTestVoice}
+              className={`px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg hover:bg-gray-800 flex items-center gap-2 text-sm ${highContrast ? 'text-white' : 'text-white/80'}`}
+            >
+              <Volume2 size={16} />
+              Test voice
+            </button>
+
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences.autoReadSteps}
+                onChange={event => onChange({ autoReadSteps: event.target.checked })}
+                className="mt-1 w-4 h-4 accent-cyan-500"
+              />
+              <span>
+                <span className="block text-white font-medium">Read each step aloud</span>
+                <span className={hintClass}>The instruction and any safety warning are read as soon as a step comes up.</span>
+              </span>
+            </label>
+          </>
+        ) : (
+          <p className={`text-sm ${highContrast ? 'text-white' : 'text-gray-500'}`}>This browser can't speak, so voice settings are unavailable.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
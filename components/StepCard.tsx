@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, ArrowRight, Mic, MessageSquare, ChevronDown, ChevronUp, Wrench, HelpCircle } from 'lucide-react';
+import { AssistantExchange, RepairStep } from '../types';
+import { getStepRequirements } from '../services/checklist';
+import { isLowConfidence, getStepCueConfidence } from '../services/confidence';
+import AssistantTranscript from './AssistantTranscript';
+
+interface StepCardProps {
+  step: RepairStep;
+  totalSteps: number;
+  currentStepIndex: number; // 0-based place on the path taken
+  onVerify: () => void;
+  onNext: () => void;
+  isVerifying: boolean;
+  onAskAssistantStart: () => void;
+  onAskAssistantStop: () => void;
+  isListening: boolean;
+  assistantResponse: string | null;
+  exchanges: AssistantExchange[];
+  highContrast?: boolean; // Accessibility mode: solid surfaces, larger type and buttons, nothing pulsing
+}
+
+const isTalkKey = (key: string) => key === ' ' || key === 'Enter';
+
+// The current step along the bottom of the camera view, with the assistant conversation folded into it
+const StepCard: React.FC<StepCardProps> = ({
+  step, totalSteps, currentStepIndex, onVerify, onNext, isVerifying,
+  onAskAssistantStart, onAskAssistantStop, isListening, assistantResponse, exchanges, highContrast = false,
+}) => {
+  const [showConversation, setShowConversation] = useState(false);
+  const requirements = getStepRequirements(step);
+  // Read at arm's length in accessibility mode: body text and buttons at least 18px
+  const bodyText = highContrast ? 'text-lg' : 'text-sm';
+  const smallText = highContrast ? 'text-lg' : 'text-xs';
+  const buttonFrame = highContrast ? 'min-h-12 border-2 border-white text-lg' : '';
+
+  // Hold to talk: the question is sent when the button is let go
+  const handleTalkKeyDown = (event: React.KeyboardEvent) => {
+    if (!isTalkKey(event.key) || event.repeat) return;
+    event.preventDefault();
+    onAskAssistantStart();
+  };
+  const handleTalkKeyUp = (event: React.KeyboardEvent) => {
+    if (!isTalkKey(event.key)) return;
+    event.preventDefault();
+    onAskAssistantStop();
+  };
+
+  return (
+    <section
+      aria-label="Current step"
+      className={`absolute bottom-0 left-0 right-0 z-30 rounded-t-2xl p-4 space-y-3 ${highContrast ? 'bg-black border-t-2 border-white leading-relaxed' : 'bg-gray-950/90 border-t border-gray-800'}`}
+    >
+      <div>
+        <p className={`text-cyan-400 font-medium ${smallText}`}>Step {currentStepIndex + 1} of {totalSteps}</p>
+        <h2 className={`font-bold text-white ${highContrast ? 'text-2xl' : 'text-xl'}`}>{step.title}</h2>
+        <p className={`mt-1 ${bodyText} ${highContrast ? 'text-white' : 'text-gray-300'}`}>{step.instruction}</p>
+        {isLowConfidence(getStepCueConfidence(step)) && (
+          <p className={`text-amber-300 mt-1 flex items-center gap-1 ${smallText}`}>
+            <HelpCircle size={12} />
+            The highlighted spots are a best guess. Check them before acting.
+          </p>
+        )}
+      </div>
+
+      {requirements.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {requirements.map(requirement => (
+            <span key={`${requirement.kind}-${requirement.name}`} className={`rounded-full px-2 py-1 flex items-center gap-1 ${smallText} ${highContrast ? 'bg-black border border-white text-white' : 'bg-gray-800 text-gray-200'}`}>
+              <Wrench size={12} className="text-gray-400" />
+              {requirement.quantity > 1 ? `${requirement.quantity}× ` : ''}{requirement.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {step.safetyWarning && (
+        <p className={`text-amber-200 rounded-xl px-3 py-2 flex items-start gap-2 ${bodyText} ${highContrast ? 'bg-black border-2 border-amber-400' : 'bg-amber-900/40 border border-amber-700'}`}>
+          <AlertTriangle size={16} className="text-amber-400 shrink-0 mt-0.5" />
+          {step.safetyWarning}
+        </p>
+      )}
+
+      {assistantResponse && (
+        <p data-testid="assistant-response" className={`rounded-2xl rounded-bl-sm px-3 py-2 ${bodyText} ${highContrast ? 'bg-black border border-white text-white' : 'bg-gray-800 text-gray-100'}`}>
+          {assistantResponse}
+        </p>
+      )}
+
+      <button
+        onClick={() => setShowConversation(open => !open)}
+        className={`flex items-center gap-1 ${smallText} ${highContrast ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+        aria-expanded={showConversation}
+      >
+        <MessageSquare size={14} />
+        Conversation{exchanges.length > 0 ? ` (${exchanges.length})` : ''}
+        {showConversation ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+      {showConversation && <AssistantTranscript exchanges={exchanges} highContrast={highContrast} />}
+
+      <div className="flex gap-2">
+        <button
+          onPointerDown={onAskAssistantStart}
+          onPointerUp={onAskAssistantStop}
+          onPointerLeave={() => isListening && onAskAssistantStop()}
+          onKeyDown={handleTalkKeyDown}
+          onKeyUp={handleTalkKeyUp}
+          className={`p-3 rounded-xl border ${buttonFrame} ${isListening ? `bg-red-600 border-red-500 text-white ${highContrast ? '' : 'animate-pulse'}` : 'bg-gray-800 border-gray-700 text-white hover:bg-gray-700'}`}
+          aria-label={isListening ? 'Release to send question' : 'Hold to ask'}
+          aria-pressed={isListening}
+        >
+          <Mic size={20} />
+        </button>
+        <button
+          onClick={onVerify}
+          disabled={isVerifying}
+          className={`flex-1 py-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-xl text-white font-medium flex items-center justify-center gap-2 disabled:opacity-50 ${buttonFrame}`}
+        >
+          <CheckCircle size={18} />
+          Verify
+        </button>
+        <button
+          onClick={onNext}
+          className={`flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 rounded-xl text-black font-bold flex items-center justify-center gap-2 ${buttonFrame}`}
+        >
+          Next
+          <ArrowRight size={18} />
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default StepCard;
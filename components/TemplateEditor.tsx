@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { XCircle, Save, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { Coordinates, PlanTemplate, RepairPlan, VisualCue, VisualCueType } from '../types';
+import { updateTemplate, moveStep, removeStep, updateStep, updateCue, removeCue } from '../services/planTemplates';
+import { getStepCues } from '../services/cueLayout';
+import { COORDINATE_MAX, RepairPlanValidationError } from '../services/planValidation';
+import CueOverlay from './CueOverlay';
+
+interface TemplateEditorProps {
+  template: PlanTemplate;
+  onSave: (template: PlanTemplate) => void;
+  onCancel: () => void;
+  highContrast?: boolean;
+}
+
+const CUE_TYPES: VisualCueType[] = ['box', 'arrow', 'point', 'polygon', 'sequence', 'rotation', 'hazard'];
+const COORDINATE_FIELDS: (keyof Coordinates)[] = ['xmin', 'ymin', 'xmax', 'ymax'];
+const PREVIEW_WIDTH = 320;
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white';
+
+const CueFields: React.FC<{ cue: VisualCue; onChange: (changes: Partial<Pick<VisualCue, 'type' | 'label' | 'coordinates'>>) => void; onRemove: () => void; highContrast: boolean }> = ({ cue, onChange, onRemove, highContrast }) => (
+  <div className="border border-gray-800 rounded-lg p-2 space-y-2">
+    <div className="flex gap-2">
+      <select value={cue.type} onChange={event => onChange({ type: event.target.value as VisualCueType })} className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm">
+        {CUE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+      </select>
+      <input
+        value={cue.label || ''}
+        onChange={event => onChange({ label: event.target.value })}
+        placeholder="Label"
+        className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm"
+      />
+      <button onClick={onRemove} className={`p-1.5 hover:text-red-400 ${highContrast ? 'text-white' : 'text-gray-500'}`} aria-label="Remove cue">
+        <Trash2 size={14} />
+      </button>
+    </div>
+    {/* Same 0-1000 space the model uses, across and down the reference photo */}
+    <div className="grid grid-cols-4 gap-2">
+      {COORDINATE_FIELDS.map(field => (
+        <label key={field} className={`uppercase ${highContrast ? 'text-sm text-white' : 'text-[11px] text-gray-500'}`}>
+          {field}
+          <input
+            type="number"
+            min={0}
+            max={COORDINATE_MAX}
+            step={10}
+            value={cue.coordinates[field]}
+            onChange={event => {
+              const value = Math.min(COORDINATE_MAX, Math.max(0, Number(event.target.value) || 0));
+              onChange({ coordinates: { ...cue.coordinates, [field]: value } });
+            }}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white text-sm"
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onCancel, highContrast = false }) => {
+  const [name, setName] = useState(template.name);
+  const [tagsText, setTagsText] = useState(template.tags.join(', '));
+  const [plan, setPlan] = useState<RepairPlan>(template.plan);
+  const [selectedStep, setSelectedStep] = useState(0);
+  const [previewHeight, setPreviewHeight] = useState(PREVIEW_WIDTH * 3 / 4);
+  const [error, setError] = useState<string | null>(null);
+  const labelClass = `text-sm font-bold uppercase ${highContrast ? 'text-white' : 'text-gray-400'}`;
+  const hintClass = `block text-xs ${highContrast ? 'text-white' : 'text-gray-500'}`;
+
+  const step = plan.steps[Math.min(selectedStep, plan.steps.length - 1)];
+  const stepIndex = step ? plan.steps.indexOf(step) : -1;
+  const cues = step ? getStepCues(step).filter(cue => cue.type !== 'none') : [];
+
+  // The moved step stays selected so its cues stay on screen
+  const move = (event: React.MouseEvent, from: number, to: number) => {
+    event.stopPropagation();
+    setPlan(prev => moveStep(prev, from, to));
+    setSelectedStep(to);
+  };
+
+  const save = () => {
+    try {
+      onSave(updateTemplate(template, { name, tags: tagsText.split(','), plan }));
+    } catch (err) {
+      if (!(err instanceof RepairPlanValidationError)) throw err;
+      setError('The fix needs at least one step with a title or instruction.');
+    }
+  };
+
+  return (
+    <div className={`absolute inset-0 z-[70] flex flex-col p-4 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">Edit Saved Fix</h2>
+        <button onClick={onCancel} className={`p-2 rounded-full hover:text-white ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70'}`} aria-label="Discard changes">
+          <XCircle size={24} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide space-y-4 max-w-xl w-full mx-auto">
+        <label className="block">
+          <span className={labelClass}>Name</span>
+          <input value={name} onChange={event => setName(event.target.value)} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Tags</span>
+          <input value={tagsText} onChange={event => setTagsText(event.target.value)} placeholder="dishwasher, Bosch SMS46" className={`mt-1 ${inputClass}`} />
+          <span className={`mt-1 ${hintClass}`}>Comma separated. Offered after a scan when one matches the object the model names.</span>
+        </label>
+        <label className="block">
+          <span className={labelClass}>Object</span>
+          <input value={plan.objectName} onChange={event => setPlan({ ...plan, objectName: event.target.value })} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Diagnosis</span>
+          <textarea value={plan.issueDiagnosis} onChange={event => setPlan({ ...plan, issueDiagnosis: event.target.value })} rows={2} className={`mt-1 ${inputClass}`} />
+        </label>
+
+        <div>
+          <h3 className={`mb-2 ${labelClass}`}>Steps</h3>
+          <div className="space-y-2">
+            {plan.steps.map((planStep, index) => (
+              <div
+                key={index}
+                className={`border rounded-xl p-3 ${index === stepIndex ? 'border-cyan-600 bg-gray-900' : 'border-gray-800'}`}
+                onClick={() => setSelectedStep(index)}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-cyan-400 font-bold">{index + 1}.</span>
+                  <input
+                    value={planStep.title}
+                    onChange={event => setPlan(updateStep(plan, index, { title: event.target.value }))}
+                    className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white"
+                  />
+                  <button onClick={event => move(event, index, index - 1)} disabled={index === 0} className={`p-1 hover:text-white disabled:opacity-30 ${highContrast ? 'text-white' : 'text-gray-400'}`} aria-label="Move step up">
+                    <ArrowUp size={16} />
+                  </button>
+                  <button onClick={event => move(event, index, index + 1)} disabled={index === plan.steps.length - 1} className={`p-1 hover:text-white disabled:opacity-30 ${highContrast ? 'text-white' : 'text-gray-400'}`} aria-label="Move step down">
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    onClick={event => { event.stopPropagation(); setPlan(removeStep(plan, index)); setSelectedStep(0); }}
+                    disabled={plan.steps.length === 1}
+                    className={`p-1 hover:text-red-400 disabled:opacity-30 ${highContrast ? 'text-white' : 'text-gray-500'}`}
+                    aria-label="Delete step"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <textarea
+                  value={planStep.instruction}
+                  onChange={event => setPlan(updateStep(plan, index, { instruction: event.target.value }))}
+                  rows={2}
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm"
+                />
+                {planStep.decision && (
+                  <p className={`text-xs mt-1 ${highContrast ? 'text-white' : 'text-gray-500'}`}>
+                    Asks "{planStep.decision.question}": {planStep.decision.options.map(option => `${option.label} → ${option.nextStepId ? `step ${option.nextStepId}` : 'finish'}`).join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {step && (
+          <div>
+            <h3 className={`mb-2 ${labelClass}`}>Cues for step {stepIndex + 1}</h3>
+            {template.referenceFrame && (
+              <div className="relative mb-2 rounded-lg overflow-hidden border border-gray-800" style={{ width: PREVIEW_WIDTH, height: previewHeight }}>
+                <img
+                  src={template.referenceFrame}
+                  alt="Reference scan"
+                  className="absolute inset-0 w-full h-full"
+                  onLoad={event => {
+                    const image = event.currentTarget;
+                    if (image.naturalWidth) setPreviewHeight(PREVIEW_WIDTH * image.naturalHeight / image.naturalWidth);
+                  }}
+                />
+                <CueOverlay cues={cues} width={PREVIEW_WIDTH} height={previewHeight} />
+              </div>
+            )}
+            {cues.length === 0 && <p className={`text-sm ${highContrast ? 'text-white' : 'text-gray-500'}`}>No cues on this step.</p>}
+            <div className="space-y-2">
+              {cues.map((cue, index) => (
+                <CueFields
+                  key={index}
+                  cue={cue}
+                  onChange={changes => setPlan(prev => updateCue(prev, stepIndex, index, changes))}
+                  onRemove={() => setPlan(prev => removeCue(prev, stepIndex, index))}
+                  highContrast={highContrast}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400 mt-2 text-center">{error}</p>}
+      <button onClick={save} className="mt-3 w-full max-w-xl mx-auto py-3 bg-cyan-600 hover:bg-cyan-500 rounded-xl text-white font-bold flex items-center justify-center gap-2">
+        <Save size={18} />
+        Save
+      </button>
+    </div>
+  );
+};
+
+export default TemplateEditor;
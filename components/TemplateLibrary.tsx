@@ -0,0 +1,98 @@
+import React, { useRef } from 'react';
+import { XCircle, Play, Pencil, Download, Upload, Trash2, Tag } from 'lucide-react';
+import { PlanTemplate } from '../types';
+
+interface TemplateLibraryProps {
+  templates: PlanTemplate[];
+  importMessage: string | null; // Result of the last import, or why it failed
+  onClose: () => void;
+  onUse: (template: PlanTemplate) => void;
+  onEdit: (template: PlanTemplate) => void;
+  onExport: (templates: PlanTemplate[]) => void;
+  onImport: (file: File) => void;
+  onDelete: (template: PlanTemplate) => void;
+  highContrast?: boolean;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ templates, importMessage, onClose, onUse, onEdit, onExport, onImport, onDelete, highContrast = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className={`absolute inset-0 z-[60] flex flex-col p-4 ${highContrast ? 'bg-black' : 'bg-black/95'}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">Saved Fixes</h2>
+        <button onClick={onClose} className={`p-2 rounded-full hover:text-white ${highContrast ? 'bg-black border-2 border-white text-white' : 'bg-gray-800/50 text-white/70'}`} aria-label="Close saved fixes">
+          <XCircle size={24} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+          <Upload size={14} /> Import
+        </button>
+        {templates.length > 0 && (
+          <button onClick={() => onExport(templates)} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+            <Download size={14} /> Export All
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files && event.target.files[0];
+            // Cleared so picking the same file again still fires
+            event.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+      {importMessage && <p className={`text-sm mb-3 ${highContrast ? 'text-white' : 'text-gray-400'}`}>{importMessage}</p>}
+
+      {templates.length === 0 ? (
+        <p className={`text-center mt-12 ${highContrast ? 'text-white' : 'text-gray-500'}`}>
+          No saved fixes yet. Save a plan from Repair History or when a repair is done, or import one from your team.
+        </p>
+      ) : (
+        <div className="flex-1 overflow-y-auto scrollbar-hide space-y-3">
+          {templates.map(template => (
+            <div key={template.id} className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+              <div className="flex justify-between items-start mb-1">
+                <h3 className="text-lg font-semibold text-white">{template.name}</h3>
+                <span className={`text-xs shrink-0 ml-2 ${highContrast ? 'text-white' : 'text-gray-500'}`}>rev {template.revision}</span>
+              </div>
+              <p className={`text-sm mb-1 ${highContrast ? 'text-white' : 'text-gray-400'}`}>{template.plan.objectName} · {template.plan.steps.length} step{template.plan.steps.length === 1 ? '' : 's'}</p>
+              {template.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {template.tags.map(tag => (
+                    <span key={tag} className="text-xs px-2 py-0.5 rounded bg-cyan-950 text-cyan-300 flex items-center gap-1">
+                      <Tag size={10} /> {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <p className={`text-xs mb-3 ${highContrast ? 'text-white' : 'text-gray-500'}`}>Edited {new Date(template.updatedAt).toLocaleString()}</p>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => onUse(template)} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 rounded-lg text-white text-sm flex items-center gap-1">
+                  <Play size={14} /> Use
+                </button>
+                <button onClick={() => onEdit(template)} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <Pencil size={14} /> Edit
+                </button>
+                <button onClick={() => onExport([template])} className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-white text-sm flex items-center gap-1">
+                  <Download size={14} /> Export
+                </button>
+                <button onClick={() => onDelete(template)} className={`ml-auto p-1.5 hover:text-red-400 ${highContrast ? 'text-white' : 'text-gray-500'}`} aria-label="Delete saved fix">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateLibrary;
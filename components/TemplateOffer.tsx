@@ -0,0 +1,42 @@
+import React from 'react';
+import { BookMarked } from 'lucide-react';
+import { PlanTemplate } from '../types';
+
+interface TemplateOfferProps {
+  objectName: string;
+  templates: PlanTemplate[]; // Best match first
+  onUse: (template: PlanTemplate) => void;
+  onDismiss: () => void;
+  highContrast?: boolean;
+}
+
+// Shown over the checklist when a saved fix matches what the scan found
+const TemplateOffer: React.FC<TemplateOfferProps> = ({ objectName, templates, onUse, onDismiss, highContrast = false }) => {
+  const mutedText = highContrast ? 'text-white' : 'text-gray-400';
+  return (
+    <div className={`absolute left-4 right-4 bottom-24 z-[55] rounded-2xl p-4 ${highContrast ? 'bg-black border-2 border-cyan-300' : 'bg-gray-950/95 border border-cyan-700'}`}>
+      <h3 className="text-lg font-bold text-white flex items-center gap-2 mb-1">
+        <BookMarked size={20} className="text-cyan-400 shrink-0" />
+        Saved fix for {objectName}
+      </h3>
+      <p className={`text-sm mb-3 ${mutedText}`}>Your team has fixed this before. Use the saved steps instead of the new plan?</p>
+      <div className="flex flex-col gap-2">
+        {templates.slice(0, 3).map(template => (
+          <button
+            key={template.id}
+            onClick={() => onUse(template)}
+            className={`w-full py-3 px-4 hover:bg-cyan-900 rounded-xl text-white text-left ${highContrast ? 'bg-black border-2 border-white' : 'bg-gray-800 border border-gray-700'}`}
+          >
+            <span className="font-medium">{template.name}</span>
+            <span className={`block text-xs ${mutedText}`}>{template.plan.steps.length} step{template.plan.steps.length === 1 ? '' : 's'} · {template.tags.join(', ')}</span>
+          </button>
+        ))}
+      </div>
+      <button onClick={onDismiss} className={`mt-3 w-full py-2 rounded-xl text-sm ${highContrast ? 'border-2 border-white text-white' : 'border border-gray-700 text-gray-300'}`}>
+        Keep the new plan
+      </button>
+    </div>
+  );
+};
+
+export default TemplateOffer;
@@ -0,0 +1,15 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface ThinkingIndicatorProps {
+  message: string;
+  highContrast?: boolean;
+}
+
+// Dims the camera view while the model works so the user holds still rather than tapping again
+export const ThinkingIndicator: React.FC<ThinkingIndicatorProps> = ({ message, highContrast = false }) => (
+  <div className={`absolute inset-0 z-40 flex flex-col items-center justify-center gap-4 pointer-events-none ${highContrast ? 'bg-black' : 'bg-black/60'}`} role="status">
+    <Loader2 size={48} className={highContrast ? 'text-white' : 'text-cyan-400 animate-spin'} />
+    <p className={`font-bold tracking-widest ${highContrast ? 'text-white text-lg' : 'text-cyan-300 text-sm'}`}>{message}</p>
+  </div>
+);
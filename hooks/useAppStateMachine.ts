@@ -0,0 +1,14 @@
+import { useRef, useSyncExternalStore } from 'react';
+import { AppState } from '../types';
+import { createAppStateMachine, AppStateMachine } from '../services/appStateMachine';
+
+// Binds a single AppStateMachine to the component's lifetime and re-renders on every accepted transition
+export const useAppStateMachine = (initial: AppState = AppState.INTRO) => {
+  const machineRef = useRef<AppStateMachine | null>(null);
+  if (!machineRef.current) {
+    machineRef.current = createAppStateMachine(initial);
+  }
+  const machine = machineRef.current;
+  const appState = useSyncExternalStore(machine.subscribe, () => machine.state);
+  return { appState, machine };
+};
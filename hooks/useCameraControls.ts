@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  CameraCapabilities,
+  NO_CAMERA_CAPABILITIES,
+  readCapabilities,
+  getCurrentZoom,
+  applyTorch,
+  applyZoom,
+  clampZoom,
+  applyFocusPoint,
+} from '../services/camera';
+import { delay } from '../services/abort';
+
+// The lens needs a moment to move after a focus point is set
+const FOCUS_SETTLE_MS = 300;
+
+/**
+ * Torch, zoom and tap-to-focus for the stream's video track. Controls the
+ * track doesn't support stay off; a new stream (lens or resolution change)
+ * starts again with the torch off and zoom at its default.
+ */
+export const useCameraControls = (stream: MediaStream | null) => {
+  const [track, setTrack] = useState<MediaStreamTrack | null>(null);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>(NO_CAMERA_CAPABILITIES);
+  const [torch, setTorchState] = useState(false);
+  const [zoom, setZoomState] = useState(1);
+
+  useEffect(() => {
+    const videoTrack = stream ? stream.getVideoTracks()[0] || null : null;
+    const next = videoTrack ? readCapabilities(videoTrack) : NO_CAMERA_CAPABILITIES;
+    setTrack(videoTrack);
+    setCapabilities(next);
+    setTorchState(false);
+    setZoomState(next.zoom && videoTrack ? getCurrentZoom(videoTrack) ?? next.zoom.min : 1);
+  }, [stream]);
+
+  const setTorch = useCallback(async (on: boolean) => {
+    if (!track || !capabilities.torch) return;
+    try {
+      await applyTorch(track, on);
+      setTorchState(on);
+    } catch (err) {
+      console.warn('Torch not available', err);
+    }
+  }, [track, capabilities.torch]);
+
+  const setZoom = useCallback((value: number) => {
+    if (!track || !capabilities.zoom) return;
+    const next = clampZoom(capabilities.zoom, value);
+    // Shown straight away; the track catches up during a pinch
+    setZoomState(next);
+    applyZoom(track, next).catch(err => console.warn('Zoom not applied', err));
+  }, [track, capabilities.zoom]);
+
+  // x and y run 0-1 across the view; resolves once the lens has had time to settle
+  const focusAt = useCallback(async (x: number, y: number) => {
+    if (!track || !capabilities.focus) return;
+    try {
+      await applyFocusPoint(track, Math.min(1, Math.max(0, x)), Math.min(1, Math.max(0, y)));
+      await delay(FOCUS_SETTLE_MS);
+    } catch (err) {
+      console.warn('Focus point not applied', err);
+    }
+  }, [track, capabilities.focus]);
+
+  return { capabilities, torch, zoom, setTorch, setZoom, focusAt };
+};
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState, RefObject } from 'react';
+import { VisualCue } from '../types';
+import { createCueTracker, toGrayFrame, toLiveGrayFrame, offsetCue, TRACK_WIDTH, TRACK_HEIGHT, GrayFrame } from '../services/cueTracker';
+
+const TRACK_INTERVAL_MS = 100;
+
+export interface CueTrackingState {
+  cues: VisualCue[];
+  confidence: number;
+  lost: boolean;
+}
+
+const createTrackingContext = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TRACK_WIDTH;
+  canvas.height = TRACK_HEIGHT;
+  return canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+};
+
+const loadGrayFrame = (src: string): Promise<GrayFrame> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const ctx = createTrackingContext();
+    if (!ctx) return reject(new Error('Canvas unavailable'));
+    ctx.drawImage(image, 0, 0, TRACK_WIDTH, TRACK_HEIGHT);
+    resolve(toGrayFrame(ctx));
+  };
+  image.onerror = () => reject(new Error('Could not load reference frame'));
+  image.src = src;
+});
+
+/**
+ * Keeps a step's cues anchored to the object on the live video.
+ * `referenceFrame` is the image the cue coordinates were produced from. The
+ * first visible cue is tracked and the rest move with it, since they all sit
+ * on the same object. While `enabled` is false the cues are returned untouched.
+ */
+export const useCueTracking = (
+  videoRef: RefObject<HTMLVideoElement | null>,
+  referenceFrame: string | null,
+  cues: VisualCue[],
+  enabled: boolean
+): CueTrackingState => {
+  const [state, setState] = useState<CueTrackingState>({ cues, confidence: 1, lost: false });
+  const lastReported = useRef({ dx: 0, dy: 0, lost: false });
+
+  useEffect(() => {
+    setState({ cues, confidence: 1, lost: false });
+    lastReported.current = { dx: 0, dy: 0, lost: false };
+    const anchor = cues.find(cue => cue.type !== 'none');
+    if (!enabled || !referenceFrame || !anchor) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const ctx = createTrackingContext();
+
+    loadGrayFrame(referenceFrame).then(reference => {
+      if (cancelled || !ctx) return;
+      const tracker = createCueTracker(reference, anchor.coordinates);
+
+      timer = setInterval(() => {
+        const video = videoRef.current;
+        if (!video || video.readyState < 2) return;
+        ctx.drawImage(video, 0, 0, TRACK_WIDTH, TRACK_HEIGHT);
+        const result = tracker.update(toLiveGrayFrame(ctx));
+
+        // Skip re-renders for sub-pixel jitter
+        const previous = lastReported.current;
+        if (result.lost === previous.lost && Math.abs(result.dx - previous.dx) < 2 && Math.abs(result.dy - previous.dy) < 2) return;
+        lastReported.current = { dx: result.dx, dy: result.dy, lost: result.lost };
+
+        setState({
+          cues: cues.map(cue => offsetCue(cue, result.dx, result.dy)),
+          confidence: result.confidence,
+          lost: result.lost,
+        });
+      }, TRACK_INTERVAL_MS);
+    }).catch(console.error);
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+    };
+  }, [videoRef, referenceFrame, cues, enabled]);
+
+  return state;
+};
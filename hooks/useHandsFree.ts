@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { createVoiceActivityDetector } from '../services/voiceActivity';
+import { startContinuousRecognition } from '../services/speechRecognition';
+import { stripWakePhrase } from '../services/voiceCommands';
+
+// Time allowed for the recogniser's final result to land after the voice stops
+const SETTLE_MS = 800;
+// The recogniser timestamps results when they finish, so look back a little before the voice started
+const TRANSCRIPT_LEAD_MS = 500;
+// After the wake phrase on its own, the next utterance within this window needs no phrase
+const ARMED_MS = 6000;
+
+export type HandsFreeStatus = 'off' | 'waiting' | 'hearing' | 'processing';
+
+export interface Utterance {
+  transcript: string; // Local transcript with the wake phrase removed; '' when the browser can't transcribe
+  audio: Blob;
+}
+
+interface HandsFreeOptions {
+  stream: MediaStream | null;
+  enabled: boolean;
+  suspended: boolean; // Busy (thinking, verifying): speech is ignored rather than queued
+  wakePhrase: string; // '' for none; needs browser speech recognition to be checked
+  lang: string;
+  onUtterance: (utterance: Utterance) => void;
+}
+
+/**
+ * Hands-free listening on the camera stream's audio track. Voice activity
+ * detection starts and stops a recording per utterance, and the browser's
+ * recogniser transcribes it locally so commands never need the model.
+ * Anything the app says itself is ignored.
+ */
+export const useHandsFree = ({ stream, enabled, suspended, wakePhrase, lang, onUtterance }: HandsFreeOptions) => {
+  const [status, setStatus] = useState<HandsFreeStatus>('off');
+  const [lastHeard, setLastHeard] = useState<string | null>(null);
+  const onUtteranceRef = useRef(onUtterance);
+  const suspendedRef = useRef(suspended);
+  const wakePhraseRef = useRef(wakePhrase);
+  onUtteranceRef.current = onUtterance;
+  suspendedRef.current = suspended;
+  wakePhraseRef.current = wakePhrase;
+
+  useEffect(() => {
+    if (!enabled || !stream || !stream.getAudioTracks().length) {
+      setStatus('off');
+      return;
+    }
+
+    const recognition = startContinuousRecognition(lang);
+    let recorder: MediaRecorder | null = null;
+    let chunks: Blob[] = [];
+    let startedAt = 0;
+    let armedUntil = 0;
+    let cancelled = false;
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const deliver = (audio: Blob, since: number) => {
+      settleTimer = setTimeout(() => {
+        if (cancelled) return;
+        setStatus('waiting');
+        const transcript = recognition ? recognition.takeTranscript(since - TRANSCRIPT_LEAD_MS) : '';
+        let text = transcript;
+        if (wakePhraseRef.current && recognition) {
+          const rest = stripWakePhrase(transcript, wakePhraseRef.current);
+          if (rest === null && Date.now() > armedUntil) return;
+          if (rest === '') {
+            armedUntil = Date.now() + ARMED_MS;
+            setLastHeard(transcript);
+            return;
+          }
+          text = rest === null ? transcript : rest;
+          armedUntil = 0;
+        }
+        setLastHeard(text || null);
+        onUtteranceRef.current({ transcript: text, audio });
+      }, SETTLE_MS);
+    };
+
+    const detector = createVoiceActivityDetector(stream, {
+      isSuspended: () => suspendedRef.current || ('speechSynthesis' in window && window.speechSynthesis.speaking),
+      onSpeechStart: () => {
+        startedAt = Date.now();
+        chunks = [];
+        recorder = new MediaRecorder(new MediaStream(stream.getAudioTracks()));
+        recorder.ondataavailable = event => chunks.push(event.data);
+        recorder.start();
+        setStatus('hearing');
+      },
+      onSpeechEnd: () => {
+        const finished = recorder;
+        const since = startedAt;
+        recorder = null;
+        if (!finished) return;
+        finished.onstop = () => deliver(new Blob(chunks, { type: finished.mimeType || 'audio/webm' }), since);
+        finished.stop();
+        setStatus('processing');
+      },
+      onDiscard: () => {
+        if (recorder) recorder.stop();
+        recorder = null;
+        // Throw away whatever the recogniser made of the noise
+        if (recognition) recognition.takeTranscript(startedAt - TRANSCRIPT_LEAD_MS);
+        setStatus('waiting');
+      },
+    });
+    setStatus('waiting');
+
+    return () => {
+      cancelled = true;
+      if (settleTimer) clearTimeout(settleTimer);
+      detector.stop();
+      if (recognition) recognition.stop();
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+      setStatus('off');
+    };
+  }, [enabled, stream, lang]);
+
+  return { status, lastHeard };
+};
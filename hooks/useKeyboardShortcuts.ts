@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { KeyboardAction, parseKeyboardShortcut } from '../services/keyboardShortcuts';
+
+interface KeyboardShortcutOptions {
+  enabled: boolean;
+  onAction: (action: KeyboardAction) => void;
+  onTalkEnd: () => void; // Releasing the talk key, like letting go of the Ask button
+}
+
+export const useKeyboardShortcuts = ({ enabled, onAction, onTalkEnd }: KeyboardShortcutOptions) => {
+  const onActionRef = useRef(onAction);
+  const onTalkEndRef = useRef(onTalkEnd);
+  onActionRef.current = onAction;
+  onTalkEndRef.current = onTalkEnd;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = parseKeyboardShortcut(event);
+      if (!action) return;
+      event.preventDefault();
+      // Holding a key auto-repeats; one press is one action
+      if (!event.repeat) onActionRef.current(action);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (parseKeyboardShortcut(event) === 'talk') onTalkEndRef.current();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [enabled]);
+};
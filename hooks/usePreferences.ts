@@ -0,0 +1,16 @@
+import { useCallback, useState } from 'react';
+import { Preferences, loadPreferences, savePreferences } from '../services/preferences';
+
+export const usePreferences = () => {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  const updatePreferences = useCallback((changes: Partial<Preferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      savePreferences(next);
+      return next;
+    });
+  }, []);
+
+  return { preferences, updatePreferences };
+};
@@ -0,0 +1,89 @@
+// Omni-Fix service worker: keeps the app shell and its bundled code on the device
+// so the app still opens in a garage or basement with no signal.
+
+const CACHE_VERSION = 'omni-fix-v2';
+const SHELL_CACHE = `${CACHE_VERSION}-shell`;
+const ASSET_CACHE = `${CACHE_VERSION}-assets`;
+
+const SHELL_ASSETS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Vite writes the bundle under /assets/ with a content hash in every file name
+const isHashedAsset = (url) => url.origin === self.location.origin && url.pathname.startsWith('/assets/');
+
+// The built index.html names the current bundle; caching what it references makes the first visit enough
+const precacheBundle = async () => {
+  const shell = await caches.open(SHELL_CACHE);
+  const page = await shell.match('/index.html');
+  if (!page) return;
+  const html = await page.text();
+  const assets = [];
+  html.replace(/(?:src|href)="(\/assets\/[^"]+)"/g, (match, asset) => {
+    assets.push(asset);
+    return match;
+  });
+  const cache = await caches.open(ASSET_CACHE);
+  await Promise.all(assets.map((asset) => cache.add(asset).catch(() => undefined)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      // Add one by one so a single missing asset doesn't fail the whole install
+      .then((cache) => Promise.all(SHELL_ASSETS.map((asset) => cache.add(asset).catch(() => undefined))))
+      .then(precacheBundle)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !key.startsWith(CACHE_VERSION)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// A hashed file never changes under its name, so the cached copy is always right
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// The page and unhashed files change between deploys, so prefer the network and fall back to the cache
+const networkFirst = async (request, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request) || (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  // Model calls and anything else off-site go straight to the network, never to the cache
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (isHashedAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
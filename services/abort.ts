@@ -0,0 +1,27 @@
+// Small helpers for cancelling work tied to an AbortSignal
+
+export const createAbortError = () => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+// Rejects as soon as the signal fires, even if the wrapped promise cannot be cancelled itself
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      err => { signal.removeEventListener('abort', onAbort); reject(err); }
+    );
+  });
+};
+
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
@@ -0,0 +1,39 @@
+import { AppState, RepairPlan } from '../types';
+import { describeStepForReading } from './speech';
+
+export interface AnnouncementContext {
+  plan: RepairPlan | null;
+  stepIndex: number;
+  position: number; // 0-based place on the path taken, which is what the step card counts
+  total: number;
+}
+
+/**
+ * What the polite live region says for each state. Steps carry their cue
+ * positions so a screen-reader user hears where to look as well as what to do.
+ */
+export const describeStateForAnnouncement = (state: AppState, { plan, stepIndex, position, total }: AnnouncementContext): string => {
+  switch (state) {
+    case AppState.CAMERA_READY:
+      return 'Camera on. Point it at the broken object and press Scan.';
+    case AppState.ANALYZING:
+      return 'Diagnosing. This can take a few seconds.';
+    case AppState.CHECKLIST:
+      return plan ? `${plan.objectName}: ${plan.issueDiagnosis}. Check the tools and parts you need, then start the repair.` : '';
+    case AppState.REPAIR_GUIDE: {
+      const step = plan && plan.steps[stepIndex];
+      return step ? `Step ${position + 1} of ${total}: ${step.title}. ${describeStepForReading(step, true)}` : '';
+    }
+    case AppState.VERIFYING:
+      return 'Checking your work.';
+    case AppState.REPLANNING:
+      return 'Making a new plan from this step.';
+    case AppState.INSPECTING:
+      return 'Identifying parts. Press Escape to go back.';
+    case AppState.COMPLETED:
+      return 'Repair complete.';
+    default:
+      // The intro speaks for itself; stops and errors go through the assertive region
+      return '';
+  }
+};
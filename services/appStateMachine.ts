@@ -0,0 +1,91 @@
+import { AppState } from '../types';
+
+/**
+ * Every AppState change the UI is allowed to make. Anything not listed here
+ * is rejected, which is what stops a late async result from reopening a
+ * screen the user has already left.
+ */
+export const APP_TRANSITIONS: Record<AppState, AppState[]> = {
+  [AppState.INTRO]: [AppState.CAMERA_READY, AppState.ERROR],
+  [AppState.CAMERA_READY]: [AppState.ANALYZING, AppState.CHECKLIST, AppState.REPAIR_GUIDE, AppState.INSPECTING, AppState.ERROR],
+  [AppState.ANALYZING]: [AppState.CHECKLIST, AppState.CAMERA_READY, AppState.ERROR],
+  [AppState.CHECKLIST]: [AppState.REPAIR_GUIDE, AppState.CAMERA_READY, AppState.ERROR],
+  [AppState.REPAIR_GUIDE]: [AppState.VERIFYING, AppState.INSPECTING, AppState.REPLANNING, AppState.COMPLETED, AppState.SAFETY_STOP, AppState.CAMERA_READY, AppState.ERROR],
+  [AppState.VERIFYING]: [AppState.REPAIR_GUIDE, AppState.COMPLETED, AppState.SAFETY_STOP, AppState.CAMERA_READY, AppState.ERROR],
+  // A failed re-plan returns to the guide: the old plan is still usable
+  [AppState.REPLANNING]: [AppState.REPAIR_GUIDE, AppState.CAMERA_READY, AppState.ERROR],
+  // Back to the camera when inspecting before a plan exists
+  [AppState.INSPECTING]: [AppState.REPAIR_GUIDE, AppState.SAFETY_STOP, AppState.CAMERA_READY, AppState.ERROR],
+  [AppState.COMPLETED]: [AppState.CAMERA_READY, AppState.INTRO],
+  // Dead end on purpose: the only way out is to start over
+  [AppState.SAFETY_STOP]: [AppState.CAMERA_READY, AppState.INTRO],
+  [AppState.ERROR]: [AppState.CAMERA_READY, AppState.INTRO],
+};
+
+export interface TransitionRecord {
+  from: AppState;
+  to: AppState;
+  at: number;
+  accepted: boolean;
+  reason?: string;
+}
+
+const MAX_LOG_ENTRIES = 200;
+
+export interface AppStateMachine {
+  readonly state: AppState;
+  // Aborted the moment the machine leaves the current state
+  readonly signal: AbortSignal;
+  readonly log: TransitionRecord[];
+  can(to: AppState): boolean;
+  transition(to: AppState, reason?: string): boolean;
+  subscribe(listener: (state: AppState) => void): () => void;
+}
+
+export const canTransition = (from: AppState, to: AppState) =>
+  from === to || APP_TRANSITIONS[from].indexOf(to) !== -1;
+
+export const createAppStateMachine = (initial: AppState = AppState.INTRO): AppStateMachine => {
+  let state = initial;
+  let controller = new AbortController();
+  const log: TransitionRecord[] = [];
+  const listeners = new Set<(state: AppState) => void>();
+
+  const record = (entry: TransitionRecord) => {
+    log.push(entry);
+    if (log.length > MAX_LOG_ENTRIES) log.shift();
+  };
+
+  return {
+    get state() { return state; },
+    get signal() { return controller.signal; },
+    get log() { return log.slice(); },
+
+    can(to) {
+      return canTransition(state, to);
+    },
+
+    transition(to, reason) {
+      // Re-entering the current state is a no-op and keeps in-flight work alive
+      if (to === state) return true;
+
+      const accepted = canTransition(state, to);
+      record({ from: state, to, at: Date.now(), accepted, reason });
+      if (!accepted) {
+        console.warn(`Ignored AppState transition ${state} -> ${to}${reason ? ` (${reason})` : ''}`);
+        return false;
+      }
+
+      controller.abort();
+      controller = new AbortController();
+      state = to;
+      listeners.forEach(listener => listener(state));
+      return true;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
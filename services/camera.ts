@@ -0,0 +1,83 @@
+// Camera selection and the track controls (torch, zoom, focus) phones expose through MediaStreamTrack
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+export const RESOLUTIONS: { id: CameraResolution; label: string; width: number; height: number }[] = [
+  { id: '480p', label: 'Low (480p) · saves data', width: 854, height: 480 },
+  { id: '720p', label: 'Standard (720p)', width: 1280, height: 720 },
+  { id: '1080p', label: 'High (1080p) · small parts and labels', width: 1920, height: 1080 },
+];
+
+export const getVideoConstraints = (deviceId: string, resolution: CameraResolution): MediaTrackConstraints => {
+  const size = RESOLUTIONS.find(option => option.id === resolution) || RESOLUTIONS[1];
+  return {
+    // A chosen lens wins; otherwise the back camera, the one pointed at the repair
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+    width: { ideal: size.width },
+    height: { ideal: size.height },
+  };
+};
+
+// Labels are only filled in once camera permission has been granted
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+// Torch, zoom and focus points aren't in lib.dom yet; these follow the Image Capture spec
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+  focusMode?: string[];
+}
+
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+}
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom: ZoomRange | null;
+  focus: boolean; // Can focus on a tapped point
+}
+
+export const NO_CAMERA_CAPABILITIES: CameraCapabilities = { torch: false, zoom: null, focus: false };
+
+export const readCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  // Firefox has no getCapabilities; everything stays off there
+  if (typeof track.getCapabilities !== 'function') return NO_CAMERA_CAPABILITIES;
+  const capabilities = track.getCapabilities() as ExtendedCapabilities;
+  const { zoom, focusMode } = capabilities;
+  return {
+    torch: !!capabilities.torch,
+    zoom: zoom && zoom.max > zoom.min ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 } : null,
+    focus: !!focusMode && (focusMode.indexOf('single-shot') !== -1 || focusMode.indexOf('manual') !== -1),
+  };
+};
+
+export const getCurrentZoom = (track: MediaStreamTrack): number | undefined =>
+  (track.getSettings() as { zoom?: number }).zoom;
+
+const applyAdvanced = (track: MediaStreamTrack, constraints: ExtendedConstraintSet) =>
+  track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+
+export const applyTorch = (track: MediaStreamTrack, on: boolean) => applyAdvanced(track, { torch: on });
+
+export const clampZoom = (range: ZoomRange, value: number) =>
+  Math.min(range.max, Math.max(range.min, Math.round(value / range.step) * range.step));
+
+export const applyZoom = (track: MediaStreamTrack, zoom: number) => applyAdvanced(track, { zoom });
+
+// x and y run 0-1 across the frame
+export const applyFocusPoint = (track: MediaStreamTrack, x: number, y: number) =>
+  applyAdvanced(track, { pointsOfInterest: [{ x, y }], focusMode: 'single-shot' });
@@ -0,0 +1,167 @@
+import { RepairPlan, RepairStep, StepRequirement, RequirementKind, ChecklistItem, ReplacedPart } from '../types';
+import { getNextStepIndex, isDecisionStep } from './planNavigation';
+
+const CONSUMABLE_WORDS = [
+  'tape', 'grease', 'glue', 'adhesive', 'lubricant', 'sealant', 'wd-40', 'zip tie', 'cable tie', 'solder',
+  'thread seal', 'cloth', 'rag', 'oil', 'paste', 'cleaner', 'alcohol', 'sandpaper', 'epoxy', 'putty',
+];
+const PART_WORDS = [
+  'replacement', 'new ', 'spare', 'o-ring', 'fuse', 'belt', 'filter', 'bulb', 'battery', 'gasket',
+  'washer', 'bearing', 'capacitor', 'cartridge', 'seal', 'hose', 'switch', 'motor', 'valve',
+];
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, eight: 8, ten: 10 };
+
+// toolNeeded values that mean "nothing needed"
+const NOTHING_PATTERN = /^(none|n\/a|no tools?( needed| required)?|nothing|hands?( only)?)\b/i;
+
+const mentions = (text: string, words: string[]) => words.some(word => new RegExp(`\\b${word}`).test(text));
+
+// Consumables are checked first so "thread sealant" isn't taken for a replacement "seal"
+export const classifyRequirement = (name: string): RequirementKind => {
+  const lower = `${name.toLowerCase()} `;
+  if (mentions(lower, CONSUMABLE_WORDS)) return 'consumable';
+  if (mentions(lower, PART_WORDS)) return 'part';
+  return 'tool';
+};
+
+// "2x M3 screw", "M3 screw x2", "four screws (4)" -> quantity + bare name
+const splitQuantity = (text: string): { name: string; quantity: number } => {
+  let name = text.trim();
+  let quantity = 1;
+  const patterns: [RegExp, (match: RegExpMatchArray) => number][] = [
+    [/^(\d+)\s*(?:x|×)?\s+/i, match => parseInt(match[1], 10)],
+    [/\s*(?:x|×)\s*(\d+)$/i, match => parseInt(match[1], 10)],
+    [/\s*\((\d+)\)$/, match => parseInt(match[1], 10)],
+    [/^(one|two|three|four|five|six|eight|ten)\s+/i, match => NUMBER_WORDS[match[1].toLowerCase()]],
+  ];
+  patterns.forEach(([pattern, read]) => {
+    const match = name.match(pattern);
+    if (match) {
+      quantity = read(match);
+      name = name.replace(pattern, '').trim();
+    }
+  });
+  return { name, quantity: Math.max(1, quantity) };
+};
+
+/**
+ * Turns a free-text toolNeeded ("Phillips screwdriver and 2x replacement
+ * fuse") into structured requirements. Used when the model gave no
+ * structured list, e.g. plans saved before requirements existed.
+ */
+export const parseToolNeeded = (toolNeeded?: string): StepRequirement[] => {
+  if (!toolNeeded) return [];
+  return toolNeeded
+    .split(/,|;|\band\b|\+|\n/i)
+    .map(part => part.replace(/\(.*?hand tight.*?\)/i, '').trim())
+    .filter(part => part && !NOTHING_PATTERN.test(part))
+    .map(part => {
+      const { name, quantity } = splitQuantity(part);
+      return { name, quantity, kind: classifyRequirement(name) };
+    });
+};
+
+export const getStepRequirements = (step: RepairStep): StepRequirement[] =>
+  step.requirements && step.requirements.length ? step.requirements : parseToolNeeded(step.toolNeeded);
+
+const itemKey = (name: string, kind: RequirementKind) =>
+  `${kind}:${name.toLowerCase().replace(/^(a|an|the|new)\s+/, '').replace(/[^a-z0-9]+/g, ' ').trim().replace(/s$/, '')}`;
+
+// What one step needs of one checklist item
+interface StepUse {
+  stepIndex: number;
+  quantity: number;
+}
+
+// Every step that can directly follow this one, down each branch of a decision
+const getSuccessors = (plan: RepairPlan, stepIndex: number): number[] => {
+  const step = plan.steps[stepIndex];
+  const next = isDecisionStep(step)
+    ? step.decision.options.map((_, optionIndex) => getNextStepIndex(plan, stepIndex, optionIndex))
+    : [getNextStepIndex(plan, stepIndex)];
+  return next.filter((index): index is number => index !== null);
+};
+
+// reaches[a][b]: some run through the plan can do step b after step a
+const getReachability = (plan: RepairPlan): boolean[][] =>
+  plan.steps.map((_, from) => {
+    const reached = plan.steps.map(() => false);
+    const queue = getSuccessors(plan, from);
+    while (queue.length) {
+      const index = queue.pop() as number;
+      if (reached[index]) continue;
+      reached[index] = true;
+      queue.push(...getSuccessors(plan, index));
+    }
+    return reached;
+  });
+
+// Steps in a loop reach each other both ways; plan order breaks the tie so the chain below ends
+const comesAfter = (reaches: boolean[][], from: number, to: number) =>
+  reaches[from][to] && (!reaches[to][from] || to > from);
+
+/**
+ * The most of an item any single run through the plan uses: the heaviest
+ * chain of steps that can all happen one after another. Steps on different
+ * branches of a decision never reach each other, so they never add up.
+ */
+const largestOnOnePath = (uses: StepUse[], reaches: boolean[][]): number => {
+  const totals: number[] = [];
+  const totalFrom = (position: number): number => {
+    if (totals[position] === undefined) {
+      const use = uses[position];
+      const after = uses.map((later, index) => comesAfter(reaches, use.stepIndex, later.stepIndex) ? totalFrom(index) : 0);
+      totals[position] = use.quantity + Math.max(0, ...after);
+    }
+    return totals[position];
+  };
+  return Math.max(...uses.map((_, position) => totalFrom(position)));
+};
+
+/**
+ * Gathers every tool, consumable and part across the plan into one
+ * deduplicated list. Tools are reused between steps, so they count the
+ * largest number any single step needs; consumables and parts add up along
+ * the path that needs the most of them.
+ */
+export const buildChecklist = (plan: RepairPlan): ChecklistItem[] => {
+  const items: ChecklistItem[] = [];
+  const byKey: Record<string, ChecklistItem> = {};
+  const usesByKey: Record<string, StepUse[]> = {};
+
+  plan.steps.forEach((step, stepIndex) => {
+    if (step.superseded) return;
+    getStepRequirements(step).forEach(requirement => {
+      const id = itemKey(requirement.name, requirement.kind);
+      if (!byKey[id]) {
+        byKey[id] = { id, name: requirement.name, kind: requirement.kind, quantity: 0, stepIndexes: [], checked: false };
+        usesByKey[id] = [];
+        items.push(byKey[id]);
+      }
+      const uses = usesByKey[id];
+      const use = uses.find(entry => entry.stepIndex === stepIndex);
+      if (!use) {
+        uses.push({ stepIndex, quantity: requirement.quantity });
+        byKey[id].stepIndexes.push(stepIndex);
+      } else {
+        use.quantity = requirement.kind === 'tool' ? Math.max(use.quantity, requirement.quantity) : use.quantity + requirement.quantity;
+      }
+    });
+  });
+
+  const reaches = getReachability(plan);
+  items.forEach(item => {
+    const uses = usesByKey[item.id];
+    item.quantity = item.kind === 'tool'
+      ? Math.max(...uses.map(use => use.quantity))
+      : largestOnOnePath(uses, reaches);
+  });
+
+  const order: RequirementKind[] = ['tool', 'consumable', 'part'];
+  return items.sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+};
+
+export const toReplacedParts = (checklist: ChecklistItem[]): ReplacedPart[] =>
+  checklist
+    .filter(item => item.kind === 'part' && item.replaced)
+    .map(item => ({ name: item.name, quantity: item.quantity, stepIndexes: item.stepIndexes }));
@@ -0,0 +1,24 @@
+import { RepairStep } from '../types';
+
+// Below this a result is treated as a guess: flagged in the UI, and a check needs the user to confirm it
+export const LOW_CONFIDENCE = 0.6;
+
+// Accepts 0-1 or a percentage (85, "85%"); anything else means the model gave no confidence
+export const normalizeConfidence = (value: unknown): number | undefined => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || !isFinite(num) || num < 0) return undefined;
+  if (num <= 1) return num;
+  return num <= 100 ? num / 100 : undefined;
+};
+
+export const isLowConfidence = (confidence?: number) => confidence !== undefined && confidence < LOW_CONFIDENCE;
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+// A step is only as certain as its least certain cue
+export const getStepCueConfidence = (step: RepairStep): number | undefined => {
+  const values = (step.visualCues || [step.visualCue])
+    .filter(cue => cue.type !== 'none' && cue.confidence !== undefined)
+    .map(cue => cue.confidence as number);
+  return values.length ? Math.min(...values) : undefined;
+};
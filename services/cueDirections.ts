@@ -0,0 +1,64 @@
+import { Coordinates, RepairStep, VisualCue } from '../types';
+import { COORDINATE_MAX } from './planValidation';
+import { getStepCues, isUnsureCue } from './cueLayout';
+
+// The AR cues in words, for anyone who can't see the overlay
+
+const ROWS = ['upper', 'middle', 'lower'];
+const COLUMNS = ['left', 'centre', 'right'];
+
+// Fractions people can picture, for how far in from the nearer side a cue sits
+const INSETS: [number, string][] = [
+  [0.05, 'right at the edge'],
+  [1 / 6, 'about a sixth of the way in'],
+  [1 / 4, 'about a quarter of the way in'],
+  [1 / 3, 'about a third of the way in'],
+];
+
+// A cue covering more than this share of the view is everywhere, not somewhere
+const FILLS_VIEW = 0.5;
+
+const third = (value: number) => Math.min(2, Math.max(0, Math.floor((value / COORDINATE_MAX) * 3)));
+
+const describeInset = (fraction: number) =>
+  INSETS.reduce((best, candidate) => Math.abs(candidate[0] - fraction) < Math.abs(best[0] - fraction) ? candidate : best)[1];
+
+/**
+ * Where a box sits in the view, by the thirds its centre falls in, e.g.
+ * "upper left, about a sixth of the way in". Boxes in the centre column
+ * only get a row; side columns also get the distance from the edge.
+ */
+export const describeCuePosition = (box: Coordinates): string => {
+  const x = (box.xmin + box.xmax) / 2;
+  const y = (box.ymin + box.ymax) / 2;
+  const area = ((box.xmax - box.xmin) * (box.ymax - box.ymin)) / (COORDINATE_MAX * COORDINATE_MAX);
+  if (area > FILLS_VIEW) return 'filling most of the view';
+
+  const row = third(y);
+  const column = third(x);
+  if (column === 1) return row === 1 ? 'in the centre' : `${ROWS[row]} centre`;
+  const place = row === 1 ? `${COLUMNS[column]} side` : `${ROWS[row]} ${COLUMNS[column]}`;
+  return `${place}, ${describeInset(Math.min(x, COORDINATE_MAX - x) / COORDINATE_MAX)}`;
+};
+
+const describeTarget = (cue: VisualCue) => {
+  if (cue.type === 'hazard') return `Keep away from ${cue.label || 'the marked area'}`;
+  return cue.label || 'The marked part';
+};
+
+const describeMotion = (cue: VisualCue) => {
+  if (!cue.direction) return '';
+  if (cue.type === 'rotation') return `, turn ${cue.direction}`;
+  if (cue.type === 'arrow') return `, pointing ${cue.direction}`;
+  return '';
+};
+
+export const describeCueDirection = (cue: VisualCue) =>
+  `${describeTarget(cue)}: ${isUnsureCue(cue) ? 'probably ' : ''}${describeCuePosition(cue.coordinates)}${describeMotion(cue)}.`;
+
+// Every cue on the step, in the order the user should act on them
+export const describeStepCues = (step: RepairStep) =>
+  getStepCues(step)
+    .filter(cue => cue.type !== 'none')
+    .map(describeCueDirection)
+    .join(' ');
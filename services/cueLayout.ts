@@ -0,0 +1,89 @@
+import { RepairStep, VisualCue } from '../types';
+import { isLowConfidence } from './confidence';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LabelRequest {
+  anchor: Rect; // Screen-space area the label describes
+  width: number;
+  height: number;
+}
+
+// Plans saved before multi-cue support only carry `visualCue`
+export const getStepCues = (step: RepairStep): VisualCue[] =>
+  step.visualCues && step.visualCues.length ? step.visualCues : [step.visualCue];
+
+// Keep-out zones are always drawn as certain: a guessed hazard is still a hazard
+export const isUnsureCue = (cue: VisualCue) => cue.type !== 'hazard' && isLowConfidence(cue.confidence);
+
+const baseLabelText = (cue: VisualCue) => {
+  if (cue.type === 'hazard') return `KEEP OUT${cue.label ? `: ${cue.label}` : ''}`;
+  if (cue.type === 'sequence' && cue.label) return `${cue.order}. ${cue.label}`;
+  if (cue.type === 'rotation') return `${cue.label ? `${cue.label} ` : ''}(${cue.direction})`;
+  return cue.label || '';
+};
+
+export const getCueLabel = (cue: VisualCue) => {
+  const text = baseLabelText(cue);
+  if (!isUnsureCue(cue)) return text;
+  return text ? `${text} ?` : '?';
+};
+
+const overlapArea = (a: Rect, b: Rect) => {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+const clampInto = (rect: Rect, bounds: Rect): Rect => ({
+  ...rect,
+  x: Math.min(bounds.x + bounds.width - rect.width, Math.max(bounds.x, rect.x)),
+  y: Math.min(bounds.y + bounds.height - rect.height, Math.max(bounds.y, rect.y)),
+});
+
+/**
+ * Places one label per request so labels neither overlap each other nor the
+ * cue areas they describe. Tries above, below, right and left of the anchor,
+ * then stacks further away; falls back to the least-overlapping spot.
+ */
+export const layoutLabels = (requests: LabelRequest[], bounds: Rect, gap = 6): Rect[] => {
+  const placed: Rect[] = [];
+  const anchors = requests.map(request => request.anchor);
+
+  return requests.map(({ anchor, width, height }) => {
+    const candidates: Rect[] = [];
+    for (let ring = 0; ring < 4; ring++) {
+      const offset = gap + ring * (height + gap);
+      candidates.push(
+        { x: anchor.x, y: anchor.y - height - offset, width, height },
+        { x: anchor.x, y: anchor.y + anchor.height + offset, width, height },
+        { x: anchor.x + anchor.width + gap + ring * (width + gap), y: anchor.y, width, height },
+        { x: anchor.x - width - gap - ring * (width + gap), y: anchor.y, width, height }
+      );
+    }
+
+    let best: Rect | null = null;
+    let bestCost = Infinity;
+    for (let i = 0; i < candidates.length; i++) {
+      const rect = clampInto(candidates[i], bounds);
+      const cost = placed.reduce((sum, other) => sum + overlapArea(rect, other), 0)
+        + anchors.reduce((sum, other) => sum + overlapArea(rect, other) * 0.5, 0);
+      if (cost === 0) {
+        best = rect;
+        break;
+      }
+      if (cost < bestCost) {
+        best = rect;
+        bestCost = cost;
+      }
+    }
+
+    placed.push(best as Rect);
+    return best as Rect;
+  });
+};
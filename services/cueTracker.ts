@@ -0,0 +1,190 @@
+import { Coordinates, VisualCue } from '../types';
+import { COORDINATE_MAX } from './planValidation';
+import { correctExposure } from './framePreprocessing';
+
+// Tracking runs on small grayscale frames; it only has to follow the object, not see detail
+export const TRACK_WIDTH = 160;
+export const TRACK_HEIGHT = 90;
+
+// Below this normalized cross-correlation the match is not trusted
+export const LOST_THRESHOLD = 0.55;
+
+const MAX_TEMPLATE_SAMPLES = 24; // Per axis, so at most 24x24 correlation samples
+const MIN_TEMPLATE_SIZE = 16;
+const SEARCH_RADIUS = 16;
+const SMOOTHING = 0.5;
+
+export interface GrayFrame {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface TrackResult {
+  // Offset of the cue from where it was in the reference frame, in the 0-1000 cue space
+  dx: number;
+  dy: number;
+  confidence: number; // 0-1, smoothed
+  lost: boolean;
+}
+
+export interface CueTracker {
+  update(frame: GrayFrame): TrackResult;
+}
+
+export const toGrayFrame = (ctx: CanvasRenderingContext2D, width = TRACK_WIDTH, height = TRACK_HEIGHT): GrayFrame => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return { data: gray, width, height };
+};
+
+/**
+ * Reference frames are what was uploaded to the model, levels already
+ * stretched by correctExposure. Live video gets the same correction so the
+ * template and the frames it is matched against agree on brightness.
+ * Correcting the reference again would not cancel out: a second pass can
+ * shift an already levelled frame.
+ */
+export const toLiveGrayFrame = (ctx: CanvasRenderingContext2D, width = TRACK_WIDTH, height = TRACK_HEIGHT): GrayFrame => {
+  correctExposure(ctx, width, height);
+  return toGrayFrame(ctx, width, height);
+};
+
+interface Template {
+  offsets: number[]; // Sample positions relative to the template origin, as x,y pairs
+  values: Float32Array; // Zero-mean sample values
+  norm: number;
+  originX: number;
+  originY: number;
+}
+
+const buildTemplate = (reference: GrayFrame, box: Coordinates): Template | null => {
+  const { width, height } = reference;
+  // Pad the cue region a little: the surroundings are what make it recognizable
+  const cx = ((box.xmin + box.xmax) / 2 / COORDINATE_MAX) * width;
+  const cy = ((box.ymin + box.ymax) / 2 / COORDINATE_MAX) * height;
+  const w = Math.min(width / 2, Math.max(MIN_TEMPLATE_SIZE, ((box.xmax - box.xmin) / COORDINATE_MAX) * width * 1.25));
+  const h = Math.min(height / 2, Math.max(MIN_TEMPLATE_SIZE, ((box.ymax - box.ymin) / COORDINATE_MAX) * height * 1.25));
+  const originX = Math.round(Math.min(width - w, Math.max(0, cx - w / 2)));
+  const originY = Math.round(Math.min(height - h, Math.max(0, cy - h / 2)));
+
+  const stepX = Math.max(1, Math.floor(w / MAX_TEMPLATE_SAMPLES));
+  const stepY = Math.max(1, Math.floor(h / MAX_TEMPLATE_SAMPLES));
+  const offsets: number[] = [];
+  const raw: number[] = [];
+  for (let y = 0; y < h; y += stepY) {
+    for (let x = 0; x < w; x += stepX) {
+      offsets.push(x, y);
+      raw.push(reference.data[(originY + y) * width + originX + x]);
+    }
+  }
+
+  const mean = raw.reduce((sum, value) => sum + value, 0) / raw.length;
+  const values = new Float32Array(raw.map(value => value - mean));
+  let norm = 0;
+  for (let i = 0; i < values.length; i++) norm += values[i] * values[i];
+  norm = Math.sqrt(norm);
+  // A flat, featureless region can't be tracked
+  return norm < 1e-3 ? null : { offsets, values, norm, originX, originY };
+};
+
+const correlate = (frame: GrayFrame, template: Template, x0: number, y0: number): number => {
+  const { offsets, values, norm } = template;
+  const n = values.length;
+  let sum = 0;
+  let sumSq = 0;
+  let cross = 0;
+  for (let i = 0; i < n; i++) {
+    const value = frame.data[(y0 + offsets[i * 2 + 1]) * frame.width + x0 + offsets[i * 2]];
+    sum += value;
+    sumSq += value * value;
+    cross += values[i] * value;
+  }
+  const variance = sumSq - (sum * sum) / n;
+  if (variance <= 1e-3) return 0;
+  // values are zero-mean, so the patch mean drops out of the cross term
+  return cross / (norm * Math.sqrt(variance));
+};
+
+/**
+ * Follows one cue region from the frame the plan was made on onto live
+ * frames using normalized cross-correlation. Searches near the last match and
+ * falls back to a coarse whole-frame scan once tracking is lost. A region
+ * too plain to match against is never reported lost; its cue stays put.
+ */
+export const createCueTracker = (reference: GrayFrame, box: Coordinates): CueTracker => {
+  const template = buildTemplate(reference, box);
+  let lastX = template ? template.originX : 0;
+  let lastY = template ? template.originY : 0;
+  let confidence = 1;
+
+  const bounds = (frame: GrayFrame) => {
+    const last = template ? template.offsets.length - 2 : 0;
+    const maxX = frame.width - 1 - (template ? template.offsets[last] : 0);
+    const maxY = frame.height - 1 - (template ? template.offsets[last + 1] : 0);
+    return { maxX, maxY };
+  };
+
+  const search = (frame: GrayFrame, fromX: number, toX: number, fromY: number, toY: number, step: number) => {
+    const { maxX, maxY } = bounds(frame);
+    let best = { x: lastX, y: lastY, score: -1 };
+    for (let y = Math.max(0, fromY); y <= Math.min(maxY, toY); y += step) {
+      for (let x = Math.max(0, fromX); x <= Math.min(maxX, toX); x += step) {
+        const score = correlate(frame, template as Template, x, y);
+        if (score > best.score) best = { x, y, score };
+      }
+    }
+    return best;
+  };
+
+  return {
+    update(frame) {
+      // Nothing to lock on to (a featureless or uniform region): show the cue where the plan put it
+      if (!template) return { dx: 0, dy: 0, confidence: 1, lost: false };
+
+      const lost = confidence < LOST_THRESHOLD;
+      // Coarse pass: local window normally, the whole frame when re-acquiring
+      let best = lost
+        ? search(frame, 0, frame.width, 0, frame.height, 4)
+        : search(frame, lastX - SEARCH_RADIUS, lastX + SEARCH_RADIUS, lastY - SEARCH_RADIUS, lastY + SEARCH_RADIUS, 2);
+      const coarseStep = lost ? 4 : 2;
+      best = search(frame, best.x - coarseStep, best.x + coarseStep, best.y - coarseStep, best.y + coarseStep, 1);
+
+      confidence = confidence * SMOOTHING + Math.max(0, best.score) * (1 - SMOOTHING);
+      if (best.score >= LOST_THRESHOLD) {
+        lastX = best.x;
+        lastY = best.y;
+      }
+
+      return {
+        dx: ((lastX - template.originX) / frame.width) * COORDINATE_MAX,
+        dy: ((lastY - template.originY) / frame.height) * COORDINATE_MAX,
+        confidence,
+        lost: confidence < LOST_THRESHOLD,
+      };
+    },
+  };
+};
+
+// Shifts a cue box by a tracked offset, keeping it on screen
+export const offsetCoordinates = (box: Coordinates, dx: number, dy: number): Coordinates => {
+  const clampShift = (shift: number, min: number, max: number) => Math.min(COORDINATE_MAX - max, Math.max(-min, shift));
+  const sx = clampShift(dx, box.xmin, box.xmax);
+  const sy = clampShift(dy, box.ymin, box.ymax);
+  return { ymin: box.ymin + sy, xmin: box.xmin + sx, ymax: box.ymax + sy, xmax: box.xmax + sx };
+};
+
+// Moves a whole cue, outline included, by a tracked offset
+export const offsetCue = (cue: VisualCue, dx: number, dy: number): VisualCue => {
+  const coordinates = offsetCoordinates(cue.coordinates, dx, dy);
+  const sx = coordinates.xmin - cue.coordinates.xmin;
+  const sy = coordinates.ymin - cue.coordinates.ymin;
+  return {
+    ...cue,
+    coordinates,
+    ...(cue.points ? { points: cue.points.map(point => ({ x: point.x + sx, y: point.y + sy })) } : {}),
+  };
+};
@@ -0,0 +1,57 @@
+// Shared IndexedDB connection for everything the app keeps on the device
+
+const DB_NAME = 'omni-fix';
+const DB_VERSION = 4;
+
+export const SESSION_STORE = 'sessions';
+export const REQUEST_QUEUE_STORE = 'requestQueue';
+export const PART_TREE_STORE = 'partTrees';
+export const TEMPLATE_STORE = 'planTemplates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(REQUEST_QUEUE_STORE)) {
+          db.createObjectStore(REQUEST_QUEUE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PART_TREE_STORE)) {
+          db.createObjectStore(PART_TREE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+          db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,189 @@
+import { delay } from './abort';
+
+// Everything sent to the model goes through here: exposure fixed, blur measured, size kept in check
+
+// Bigger frames cost upload time and tokens without helping the model
+const MAX_UPLOAD_EDGE = 1600;
+const MIN_UPLOAD_EDGE = 480;
+const MAX_UPLOAD_BYTES = 350 * 1024;
+const QUALITY_STEPS = [0.85, 0.75, 0.65, 0.55];
+
+// Variance of the Laplacian on a small greyscale copy; below this the frame counts as blurred
+export const BLUR_THRESHOLD = 40;
+const SHARPNESS_WIDTH = 240;
+
+// Frames darker, brighter or flatter than this get their levels stretched
+const MIN_MEAN_LUMA = 70;
+const MAX_MEAN_LUMA = 185;
+const MIN_LUMA_RANGE = 150;
+
+const STEADY_TIMEOUT_MS = 3000;
+const STEADY_RETRY_MS = 200;
+
+export interface PreparedFrame {
+  base64: string; // JPEG without the data URL prefix
+  width: number;
+  height: number;
+  bytes: number;
+  sharpness: number;
+  exposureCorrected: boolean;
+}
+
+const luma = (data: Uint8ClampedArray, i: number) => data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+
+const dataUrlBytes = (dataUrl: string) => Math.ceil((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+export const measureSharpness = (source: HTMLCanvasElement): number => {
+  const width = Math.min(SHARPNESS_WIDTH, source.width);
+  const height = Math.round(source.height * (width / source.width));
+  if (width < 3 || height < 3) return 0;
+  const sample = document.createElement('canvas');
+  sample.width = width;
+  sample.height = height;
+  const ctx = sample.getContext('2d');
+  if (!ctx) return 0;
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = luma(data, i * 4);
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+export const isBlurry = (frame: PreparedFrame) => frame.sharpness < BLUR_THRESHOLD;
+
+/**
+ * Auto-levels for badly exposed frames: stretches the 1st-99th percentile
+ * of brightness to the full range, then applies a gamma that brings the
+ * mean back to mid-grey. Well exposed frames are left untouched.
+ */
+export const correctExposure = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const histogram = new Array<number>(256).fill(0);
+  let samples = 0;
+  let total = 0;
+  // Every 4th pixel is plenty for a histogram
+  for (let i = 0; i < data.length; i += 16) {
+    const value = luma(data, i) | 0;
+    histogram[value]++;
+    total += value;
+    samples++;
+  }
+  if (!samples) return false;
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histogram[value];
+      if (seen >= samples * fraction) return value;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  const mean = total / samples;
+  if (mean >= MIN_MEAN_LUMA && mean <= MAX_MEAN_LUMA && high - low >= MIN_LUMA_RANGE) return false;
+  // A covered lens or a blank wall: nothing to recover
+  if (high - low < 16) return false;
+
+  const stretchedMean = Math.min(0.95, Math.max(0.05, (mean - low) / (high - low)));
+  const gamma = Math.min(2, Math.max(0.5, Math.log(0.5) / Math.log(stretchedMean)));
+  const table = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    const normalized = Math.min(1, Math.max(0, (value - low) / (high - low)));
+    table[value] = Math.round(255 * Math.pow(normalized, gamma));
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+  return true;
+};
+
+// Lowers JPEG quality first, then size, until the frame fits the upload budget
+export const compressCanvas = (canvas: HTMLCanvasElement, maxBytes = MAX_UPLOAD_BYTES): string => {
+  let source = canvas;
+  let dataUrl = '';
+  while (true) {
+    for (let i = 0; i < QUALITY_STEPS.length; i++) {
+      dataUrl = source.toDataURL('image/jpeg', QUALITY_STEPS[i]);
+      if (dataUrlBytes(dataUrl) <= maxBytes) return dataUrl;
+    }
+    const width = Math.round(source.width * 0.75);
+    const height = Math.round(source.height * 0.75);
+    if (Math.max(width, height) < MIN_UPLOAD_EDGE) return dataUrl;
+    const smaller = document.createElement('canvas');
+    smaller.width = width;
+    smaller.height = height;
+    const ctx = smaller.getContext('2d');
+    if (!ctx) return dataUrl;
+    ctx.drawImage(source, 0, 0, width, height);
+    source = smaller;
+  }
+};
+
+export const prepareFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement): PreparedFrame | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const scale = Math.min(1, MAX_UPLOAD_EDGE / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  // Measured before the levels stretch, which would make every frame look sharper
+  const sharpness = measureSharpness(canvas);
+  const exposureCorrected = correctExposure(ctx, canvas.width, canvas.height);
+  const dataUrl = compressCanvas(canvas);
+  return {
+    base64: dataUrl.split(',')[1],
+    width: canvas.width,
+    height: canvas.height,
+    bytes: dataUrlBytes(dataUrl),
+    sharpness,
+    exposureCorrected,
+  };
+};
+
+/**
+ * Keeps capturing until a frame is sharp enough, calling onUnsteady while
+ * it waits so the UI can ask the user to hold still. Gives up after a few
+ * seconds and returns the sharpest frame seen rather than blocking.
+ */
+export const captureSteadyFrame = async (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  options: { signal?: AbortSignal; onUnsteady?: (unsteady: boolean) => void } = {}
+): Promise<PreparedFrame | null> => {
+  const { signal, onUnsteady } = options;
+  const deadline = Date.now() + STEADY_TIMEOUT_MS;
+  let best: PreparedFrame | null = null;
+  try {
+    while (true) {
+      const frame = prepareFrame(video, canvas);
+      if (frame && (!best || frame.sharpness > best.sharpness)) best = frame;
+      if (!frame || !isBlurry(frame) || Date.now() >= deadline) return best;
+      if (onUnsteady) onUnsteady(true);
+      await delay(STEADY_RETRY_MS, signal);
+    }
+  } finally {
+    if (onUnsteady) onUnsteady(false);
+  }
+};
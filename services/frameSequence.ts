@@ -0,0 +1,92 @@
+import { delay } from './abort';
+import { correctExposure } from './framePreprocessing';
+
+export interface SequenceFrame {
+  base64: string; // JPEG without the data URL prefix, same as captureFrame()
+  timestampMs: number; // Offset from the start of the burst
+  motionScore: number; // Mean pixel change from the previous frame, 0-255
+}
+
+export interface BurstOptions {
+  durationMs?: number;
+  fps?: number;
+  keyFrameCount?: number;
+  quality?: number;
+  signal?: AbortSignal;
+}
+
+// Frames are diffed at thumbnail size; it's plenty to spot a wobble or a drip
+const DIFF_WIDTH = 48;
+const DIFF_HEIGHT = 27;
+
+const toGrayscale = (ctx: CanvasRenderingContext2D): Uint8Array => {
+  const { data } = ctx.getImageData(0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+  const gray = new Uint8Array(DIFF_WIDTH * DIFF_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114) | 0;
+  }
+  return gray;
+};
+
+const meanDifference = (a: Uint8Array, b: Uint8Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+/**
+ * Picks the frames most worth sending to the model: the first frame for
+ * context plus the ones with the most motion, kept in chronological order.
+ */
+export const selectKeyFrames = (frames: SequenceFrame[], count: number): SequenceFrame[] => {
+  if (frames.length <= count) return frames.slice();
+  const [first, ...rest] = frames;
+  const busiest = rest
+    .slice()
+    .sort((a, b) => b.motionScore - a.motionScore)
+    .slice(0, Math.max(0, count - 1));
+  return [first, ...busiest].sort((a, b) => a.timestampMs - b.timestampMs);
+};
+
+/**
+ * Records a short burst from the live video and returns its key frames.
+ * Reuses the capture canvas so it works on the same stream as single shots.
+ */
+export const captureBurst = async (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  { durationMs = 2000, fps = 6, keyFrameCount = 4, quality = 0.7, signal }: BurstOptions = {}
+): Promise<SequenceFrame[]> => {
+  const ctx = canvas.getContext('2d');
+  const diffCanvas = document.createElement('canvas');
+  diffCanvas.width = DIFF_WIDTH;
+  diffCanvas.height = DIFF_HEIGHT;
+  const diffCtx = diffCanvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+  if (!ctx || !diffCtx || !video.videoWidth) return [];
+
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const frames: SequenceFrame[] = [];
+  const interval = 1000 / fps;
+  const start = performance.now();
+  let previous: Uint8Array | null = null;
+
+  while (performance.now() - start < durationMs) {
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    // Motion is measured on the raw video; only the uploaded frame is levelled, like single shots
+    correctExposure(ctx, canvas.width, canvas.height);
+    diffCtx.drawImage(video, 0, 0, DIFF_WIDTH, DIFF_HEIGHT);
+    const gray = toGrayscale(diffCtx);
+
+    frames.push({
+      base64: canvas.toDataURL('image/jpeg', quality).split(',')[1],
+      timestampMs: Math.round(performance.now() - start),
+      motionScore: previous ? meanDifference(previous, gray) : 0,
+    });
+    previous = gray;
+    await delay(interval, signal);
+  }
+
+  return selectKeyFrames(frames, keyFrameCount);
+};
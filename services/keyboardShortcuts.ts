@@ -0,0 +1,37 @@
+import { VoiceCommand } from '../types';
+
+// The guide's controls on single keys; the voice commands are reused so keys obey the same guards
+export type KeyboardAction = VoiceCommand | 'talk' | 'close';
+
+export interface KeyboardShortcut {
+  keys: string[]; // KeyboardEvent.key values, letters in lower case
+  action: KeyboardAction;
+  label: string;
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['ArrowRight', 'n'], action: 'next', label: 'Next step' },
+  { keys: ['ArrowLeft', 'b'], action: 'back', label: 'Previous step' },
+  { keys: ['v'], action: 'verify', label: 'Check the step' },
+  { keys: ['r'], action: 'repeat', label: 'Repeat the step and where to look' },
+  { keys: ['i'], action: 'inspect', label: 'Inspect the marked part' },
+  { keys: ['a'], action: 'talk', label: 'Hold to ask a question' },
+  { keys: ['Escape'], action: 'close', label: 'Close the inspector' },
+];
+
+// Arrow keys and letters belong to whatever form field has focus
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+
+export const parseKeyboardShortcut = (event: KeyboardEvent): KeyboardAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const match = KEYBOARD_SHORTCUTS.find(shortcut => shortcut.keys.indexOf(key) !== -1);
+  return match ? match.action : null;
+};
+
+// "→ / N" for the settings list
+export const formatShortcutKeys = (shortcut: KeyboardShortcut) =>
+  shortcut.keys
+    .map(key => key === 'ArrowRight' ? '→' : key === 'ArrowLeft' ? '←' : key === 'Escape' ? 'Esc' : key.toUpperCase())
+    .join(' / ');
@@ -0,0 +1,60 @@
+import { QueuedRequest } from '../types';
+import { runRequest, REQUEST_QUEUE_STORE } from './db';
+
+// Give up on a request after this many failed replays
+const MAX_ATTEMPTS = 5;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// Omit applied to each member of the union so `kind` still narrows
+type NewQueuedRequest = DistributiveOmit<QueuedRequest, 'id' | 'createdAt' | 'attempts'>;
+
+const createRequestId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const enqueueRequest = async (request: NewQueuedRequest): Promise<QueuedRequest> => {
+  const queued = { ...request, id: createRequestId(), createdAt: Date.now(), attempts: 0 } as QueuedRequest;
+  await runRequest(REQUEST_QUEUE_STORE, 'readwrite', store => store.put(queued));
+  return queued;
+};
+
+// Oldest first, so replies come back in the order they were asked
+export const listQueuedRequests = async (): Promise<QueuedRequest[]> => {
+  const requests = await runRequest<QueuedRequest[]>(REQUEST_QUEUE_STORE, 'readonly', store => store.getAll());
+  return requests.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const removeQueuedRequest = (id: string) =>
+  runRequest(REQUEST_QUEUE_STORE, 'readwrite', store => store.delete(id));
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Replays queued requests through `process`, removing each one that
+ * succeeds. Failures stay queued for the next flush until MAX_ATTEMPTS.
+ * Concurrent calls share the same run. Resolves with the number still queued.
+ */
+export const flushQueue = (process: (request: QueuedRequest) => Promise<void>): Promise<number> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const requests = await listQueuedRequests();
+    let remaining = requests.length;
+    for (const request of requests) {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) break;
+      try {
+        await process(request);
+        await removeQueuedRequest(request.id);
+        remaining -= 1;
+      } catch (err) {
+        console.error('Queued request failed', err);
+        if (request.attempts + 1 >= MAX_ATTEMPTS) {
+          await removeQueuedRequest(request.id);
+          remaining -= 1;
+        } else {
+          await runRequest(REQUEST_QUEUE_STORE, 'readwrite', store => store.put({ ...request, attempts: request.attempts + 1 }));
+        }
+      }
+    }
+    return remaining;
+  })().finally(() => { flushing = null; });
+  return flushing;
+};
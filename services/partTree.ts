@@ -0,0 +1,123 @@
+import { ComponentInfo, ComponentScan, ComponentStatus, PartNode, PartObservation, PartTree } from '../types';
+
+// Long-lived parts get inspected a lot; the oldest observations matter least
+const MAX_HISTORY = 20;
+
+export interface InspectionContext {
+  sessionId: string | null;
+  stepIndex: number | null;
+  timestamp?: number;
+}
+
+// Letters, vowel signs and digits in any script; built at runtime because the compile target predates the u flag
+const SEPARATORS = new RegExp('[^\\p{L}\\p{M}\\p{N}]+', 'gu');
+
+/**
+ * Stable id for a part or object name in whatever language the model answered
+ * in. Latin accents are dropped so "Réfrigérateur" and "Refrigerateur" agree;
+ * other marks (Devanagari vowel signs, kana voicing) are part of the word.
+ */
+export const partId = (name: string) => {
+  const folded = name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').normalize('NFC').toLowerCase();
+  return folded.replace(SEPARATORS, ' ').trim().replace(/ /g, '-') || name.trim().toLowerCase();
+};
+
+export const createPartTree = (objectName: string): PartTree => ({
+  id: partId(objectName),
+  objectName,
+  parts: [],
+  updatedAt: Date.now(),
+});
+
+const findPart = (tree: PartTree, id: string) => tree.parts.find(part => part.id === id);
+
+// True when making parentId the parent of id would loop back to id
+const createsCycle = (tree: PartTree, id: string, parentId: string) => {
+  let current: string | null = parentId;
+  const seen: string[] = [];
+  while (current && seen.indexOf(current) === -1) {
+    if (current === id) return true;
+    seen.push(current);
+    const parent = findPart(tree, current);
+    current = parent ? parent.parentId : null;
+  }
+  return false;
+};
+
+const upsertPart = (tree: PartTree, node: PartNode): PartTree => {
+  const exists = !!findPart(tree, node.id);
+  return {
+    ...tree,
+    parts: exists ? tree.parts.map(part => part.id === node.id ? node : part) : [...tree.parts, node],
+    updatedAt: Date.now(),
+  };
+};
+
+// Parents named by the model but never inspected get a placeholder so the hierarchy holds
+const ensurePart = (tree: PartTree, name: string): PartTree =>
+  findPart(tree, partId(name)) ? tree : upsertPart(tree, { id: partId(name), name, function: '', parentId: null, history: [] });
+
+/**
+ * Adds one inspection result to the tree: the part is created or updated,
+ * linked under its parent assembly, and the observed status is appended to
+ * its history.
+ */
+export const recordInspection = (tree: PartTree, info: ComponentInfo, context: InspectionContext): PartTree => {
+  const id = partId(info.name);
+  if (!id) return tree;
+
+  let next = tree;
+  let parentId: string | null = null;
+  if (info.parent && partId(info.parent) && partId(info.parent) !== id) {
+    next = ensurePart(next, info.parent);
+    parentId = createsCycle(next, id, partId(info.parent)) ? null : partId(info.parent);
+  }
+
+  const existing = findPart(next, id);
+  const observation: PartObservation = {
+    status: info.status,
+    details: info.details,
+    timestamp: context.timestamp ?? Date.now(),
+    sessionId: context.sessionId,
+    stepIndex: context.stepIndex,
+  };
+  return upsertPart(next, {
+    id,
+    name: existing ? existing.name : info.name,
+    function: info.function || (existing ? existing.function : ''),
+    // Keep a known parent when this look didn't say
+    parentId: parentId ?? (existing ? existing.parentId : null),
+    history: [...(existing ? existing.history : []), observation].slice(-MAX_HISTORY),
+  });
+};
+
+export const recordScan = (tree: PartTree, scan: ComponentScan, context: InspectionContext): PartTree => {
+  const named = tree.objectName ? tree : { ...createPartTree(scan.objectName), parts: tree.parts };
+  // Parents first, so children found in the same scan link to real nodes rather than placeholders
+  const ordered = scan.components.filter(component => !component.parent).concat(scan.components.filter(component => !!component.parent));
+  return ordered.reduce((current, component) => recordInspection(current, component, context), named);
+};
+
+// Folds source's parts into target, e.g. parts inspected before the plan named the object
+export const mergePartTrees = (target: PartTree, source: PartTree): PartTree =>
+  source.parts.reduce((tree, part) => {
+    const existing = findPart(tree, part.id);
+    const parentId = part.parentId && !createsCycle(tree, part.id, part.parentId) ? part.parentId : null;
+    return upsertPart(tree, existing
+      ? {
+          ...existing,
+          function: existing.function || part.function,
+          parentId: existing.parentId ?? parentId,
+          history: existing.history.concat(part.history).sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_HISTORY),
+        }
+      : { ...part, parentId });
+  }, target);
+
+export const getLatestStatus = (part: PartNode): ComponentStatus =>
+  part.history.length ? part.history[part.history.length - 1].status : 'Unknown';
+
+// Children of a part, or the top-level parts for null; parents missing from the tree count as top-level
+export const getChildParts = (tree: PartTree, parentId: string | null): PartNode[] =>
+  tree.parts.filter(part => parentId === null
+    ? !part.parentId || !findPart(tree, part.parentId)
+    : part.parentId === parentId);
@@ -0,0 +1,13 @@
+import { PartTree } from '../types';
+import { runRequest as runStoreRequest, PART_TREE_STORE } from './db';
+import { partId } from './partTree';
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runStoreRequest(PART_TREE_STORE, mode, action);
+
+// Trees for an object that hasn't been named yet live in memory only
+export const savePartTree = (tree: PartTree) =>
+  tree.id ? runRequest('readwrite', store => store.put(tree)).then(() => undefined) : Promise.resolve();
+
+export const getPartTree = async (objectName: string): Promise<PartTree | null> =>
+  (await runRequest<PartTree | undefined>('readonly', store => store.get(partId(objectName)))) || null;
@@ -0,0 +1,127 @@
+import { RepairPlan, RepairStep, RepairSession, StepDecision } from '../types';
+
+// Step target meaning "the repair is finished"
+export const END_OF_PLAN = 0;
+
+export const isDecisionStep = (step: RepairStep): step is RepairStep & { decision: StepDecision } =>
+  !!step.decision && step.decision.options.length > 0;
+
+const indexOfStepId = (plan: RepairPlan, stepId: number): number | null => {
+  if (stepId === END_OF_PLAN) return null;
+  const index = plan.steps.findIndex(step => step.id === stepId);
+  return index === -1 ? null : index;
+};
+
+/**
+ * Where the plan goes after `stepIndex`, or null when the repair is done.
+ * Decision steps need the chosen option; without one they return the step itself.
+ */
+export const getNextStepIndex = (plan: RepairPlan, stepIndex: number, optionIndex?: number): number | null => {
+  const step = plan.steps[stepIndex];
+  if (isDecisionStep(step)) {
+    const option = optionIndex !== undefined ? step.decision.options[optionIndex] : undefined;
+    return option ? indexOfStepId(plan, option.nextStepId) : stepIndex;
+  }
+  if (step.nextStepId !== undefined) return indexOfStepId(plan, step.nextStepId);
+  // Plain steps fall through to the next live one; superseded steps are only reachable by explicit jumps
+  for (let index = stepIndex + 1; index < plan.steps.length; index++) {
+    if (!plan.steps[index].superseded) return index;
+  }
+  return null;
+};
+
+export const isLastStep = (plan: RepairPlan, stepIndex: number) =>
+  !isDecisionStep(plan.steps[stepIndex]) && getNextStepIndex(plan, stepIndex) === null;
+
+// Sessions saved before branching existed only moved forward, so their path is every step so far
+export const getSessionPath = (session: RepairSession): number[] => {
+  if (session.path && session.path.length) return session.path;
+  const path: number[] = [];
+  for (let index = 0; index <= session.currentStepIndex; index++) path.push(index);
+  return path;
+};
+
+// Position and total for "Step X of Y", ignoring steps a re-plan replaced
+export const getStepProgress = (plan: RepairPlan, stepIndex: number) => {
+  const live = plan.steps.filter(step => !step.superseded).length;
+  const position = plan.steps.slice(0, stepIndex).filter(step => !step.superseded).length;
+  return { position, total: live };
+};
+
+// For what the user says; loose on purpose
+const YES_PATTERN = /\b(yes|yeah|yep|it is|it's|correct|affirmative)\b/i;
+const NO_PATTERN = /\b(no|nope|not|isn't|it's fine|negative)\b/i;
+// For option labels, where only the leading word says which branch it is: "No, it's intact" is the no branch
+const YES_LABEL = /^\s*(yes|yeah|yep)\b/i;
+const NO_LABEL = /^\s*no\b/i;
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const words = (text: string) => text.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ').split(' ').filter(word => word.length > 2);
+
+/**
+ * Picks the decision option a spoken answer refers to: "option 2", "the
+ * second one", a plain yes/no for yes/no questions, or else the option whose
+ * label shares the most words with the answer. -1 when nothing fits.
+ */
+export const matchDecisionOption = (decision: StepDecision, transcript: string): number => {
+  const answer = transcript.toLowerCase().trim();
+  if (!answer) return -1;
+
+  const numbered = answer.match(/\b(?:option|number)\s+(\d)\b/);
+  if (numbered && decision.options[parseInt(numbered[1], 10) - 1]) return parseInt(numbered[1], 10) - 1;
+  const ordinal = ORDINALS.findIndex(word => answer.indexOf(word) !== -1);
+  if (ordinal !== -1 && decision.options[ordinal]) return ordinal;
+
+  const yesIndex = decision.options.findIndex(option => YES_LABEL.test(option.label));
+  const noIndex = decision.options.findIndex(option => NO_LABEL.test(option.label));
+  if (yesIndex !== -1 && noIndex !== -1) {
+    if (/^\s*(no|nope|negative)\b/.test(answer)) return noIndex;
+    if (YES_PATTERN.test(answer) && !NO_PATTERN.test(answer)) return yesIndex;
+  }
+
+  const answerWords = words(answer);
+  let best = -1;
+  let bestScore = 0;
+  decision.options.forEach((option, index) => {
+    const score = words(option.label).filter(word => answerWords.indexOf(word) !== -1).length;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Splices re-planned steps into the plan. Nothing is removed: the steps not
+ * yet done are marked superseded and the new ones are appended, so every
+ * step index already recorded in the session stays valid. Jumps that led to
+ * the replaced step are pointed at the first new step instead.
+ */
+export const mergeReplannedSteps = (plan: RepairPlan, completedPath: number[], fromStepIndex: number, newSteps: RepairStep[]): RepairPlan => {
+  const offset = plan.steps.length;
+  const firstNewId = offset + 1;
+  const replacedId = plan.steps[fromStepIndex].id;
+  const shift = (stepId: number) => stepId === END_OF_PLAN ? END_OF_PLAN : stepId + offset;
+  const redirect = (stepId: number) => stepId === replacedId ? firstNewId : stepId;
+
+  const kept = plan.steps.map((step, index): RepairStep => {
+    if (completedPath.indexOf(index) === -1) return { ...step, superseded: true };
+    if (isDecisionStep(step)) {
+      return { ...step, decision: { ...step.decision, options: step.decision.options.map(option => ({ ...option, nextStepId: redirect(option.nextStepId) })) } };
+    }
+    if (step.nextStepId !== undefined) return { ...step, nextStepId: redirect(step.nextStepId) };
+    // Fell through into the replaced step before; jump to the new steps explicitly
+    return getNextStepIndex(plan, index) === fromStepIndex ? { ...step, nextStepId: firstNewId } : step;
+  });
+
+  const appended = newSteps.map((step, index): RepairStep => ({
+    ...step,
+    id: firstNewId + index,
+    superseded: false,
+    nextStepId: step.nextStepId !== undefined ? shift(step.nextStepId) : undefined,
+    decision: step.decision && { ...step.decision, options: step.decision.options.map(option => ({ ...option, nextStepId: shift(option.nextStepId) })) },
+  }));
+
+  return { ...plan, steps: [...kept, ...appended] };
+};
@@ -0,0 +1,254 @@
+import { Coordinates, PlanTemplate, RepairPlan, RepairStep, VisualCue } from '../types';
+import { validateRepairPlan, RepairPlanValidationError } from './planValidation';
+import { END_OF_PLAN } from './planNavigation';
+import { getStepCues } from './cueLayout';
+import { partId } from './partTree';
+
+// Shared as JSON files between devices and teams; bump the version when the layout changes
+export const TEMPLATE_FILE_FORMAT = 'omni-fix-plan-templates';
+export const TEMPLATE_FILE_VERSION = 1;
+
+interface TemplateFile {
+  format: string;
+  version: number;
+  exportedAt: number;
+  templates: PlanTemplate[];
+}
+
+export class TemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateImportError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, TemplateImportError.prototype);
+  }
+}
+
+const createTemplateId = () => `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const EMPTY_CUE: VisualCue = { type: 'none', coordinates: { ymin: 0, xmin: 0, ymax: 0, xmax: 0 } };
+
+/**
+ * Gives steps ids matching their new positions and points branch targets
+ * at the same steps as before. Targets whose step is gone are dropped, and
+ * a decision left with fewer than two ways to go becomes a plain step.
+ */
+const renumberSteps = (steps: RepairStep[]): RepairStep[] => {
+  const idMap: Record<number, number> = {};
+  steps.forEach((step, index) => { idMap[step.id] = index + 1; });
+  const mapTarget = (target: number) => target === END_OF_PLAN ? END_OF_PLAN : idMap[target];
+
+  return steps.map((step, index) => {
+    const renumbered: RepairStep = { ...step, id: index + 1 };
+    if (step.nextStepId !== undefined) {
+      const next = mapTarget(step.nextStepId);
+      renumbered.nextStepId = next === undefined || next === index + 1 ? undefined : next;
+    }
+    if (step.decision) {
+      const options = step.decision.options
+        .map(option => ({ ...option, nextStepId: mapTarget(option.nextStepId) }))
+        .filter(option => option.nextStepId !== undefined && option.nextStepId !== index + 1);
+      renumbered.decision = options.length >= 2 ? { ...step.decision, options } : undefined;
+    }
+    return renumbered;
+  });
+};
+
+// Only the fix itself: what this one scan showed (evidence frames, confidence, other causes) stays with its session
+const toTemplatePlan = (plan: RepairPlan): RepairPlan => {
+  const { plan: validated } = validateRepairPlan({
+    objectName: plan.objectName,
+    issueDiagnosis: plan.issueDiagnosis,
+    steps: renumberSteps(plan.steps.filter(step => !step.superseded)),
+  });
+  return validated;
+};
+
+export const createTemplate = (plan: RepairPlan, referenceFrame?: string): PlanTemplate => {
+  const now = Date.now();
+  return {
+    id: createTemplateId(),
+    name: plan.issueDiagnosis,
+    tags: [plan.objectName],
+    plan: toTemplatePlan(plan),
+    ...(referenceFrame ? { referenceFrame } : {}),
+    revision: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Throws RepairPlanValidationError when the edited plan has no usable steps left
+export const updateTemplate = (template: PlanTemplate, changes: Partial<Pick<PlanTemplate, 'name' | 'tags' | 'plan'>>): PlanTemplate => ({
+  ...template,
+  ...changes,
+  name: (changes.name ?? template.name).trim() || template.plan.issueDiagnosis,
+  tags: (changes.tags ?? template.tags).map(tag => tag.trim()).filter(Boolean),
+  plan: changes.plan ? toTemplatePlan(changes.plan) : template.plan,
+  revision: template.revision + 1,
+  updatedAt: Date.now(),
+});
+
+// A fresh copy for a new session, so the session's edits never reach the saved template
+export const planFromTemplate = (template: PlanTemplate): RepairPlan =>
+  JSON.parse(JSON.stringify(template.plan));
+
+export const moveStep = (plan: RepairPlan, from: number, to: number): RepairPlan => {
+  if (to < 0 || to >= plan.steps.length || from === to) return plan;
+  const steps = plan.steps.slice();
+  const [moved] = steps.splice(from, 1);
+  steps.splice(to, 0, moved);
+  return { ...plan, steps: renumberSteps(steps) };
+};
+
+export const removeStep = (plan: RepairPlan, index: number): RepairPlan => ({
+  ...plan,
+  steps: renumberSteps(plan.steps.filter((_, stepIndex) => stepIndex !== index)),
+});
+
+export const updateStep = (plan: RepairPlan, index: number, changes: Partial<Pick<RepairStep, 'title' | 'instruction'>>): RepairPlan => ({
+  ...plan,
+  steps: plan.steps.map((step, stepIndex) => stepIndex === index ? { ...step, ...changes } : step),
+});
+
+// visualCue is always the first of visualCues; a step with none left keeps an empty cue
+const setStepCues = (plan: RepairPlan, index: number, cues: VisualCue[]): RepairPlan => ({
+  ...plan,
+  steps: plan.steps.map((step, stepIndex) => stepIndex === index
+    ? { ...step, visualCue: cues[0] || EMPTY_CUE, visualCues: cues.length ? cues : [EMPTY_CUE] }
+    : step),
+});
+
+// Polygon outlines are scaled with their bounding box so they keep their shape
+const moveCueBounds = (cue: VisualCue, coordinates: Coordinates): VisualCue => {
+  const from = cue.coordinates;
+  if (!cue.points) return { ...cue, coordinates };
+  const scale = (value: number, min: number, max: number, newMin: number, newMax: number) =>
+    max > min ? newMin + ((value - min) / (max - min)) * (newMax - newMin) : newMin;
+  return {
+    ...cue,
+    coordinates,
+    points: cue.points.map(point => ({
+      x: Math.round(scale(point.x, from.xmin, from.xmax, coordinates.xmin, coordinates.xmax)),
+      y: Math.round(scale(point.y, from.ymin, from.ymax, coordinates.ymin, coordinates.ymax)),
+    })),
+  };
+};
+
+export const updateCue = (plan: RepairPlan, stepIndex: number, cueIndex: number, changes: Partial<Pick<VisualCue, 'type' | 'label' | 'coordinates'>>): RepairPlan => {
+  const cues = getStepCues(plan.steps[stepIndex]).map((cue, index) => {
+    if (index !== cueIndex) return cue;
+    const { coordinates, ...rest } = changes;
+    const updated = { ...cue, ...rest };
+    return coordinates ? moveCueBounds(updated, coordinates) : updated;
+  });
+  return setStepCues(plan, stepIndex, cues);
+};
+
+export const removeCue = (plan: RepairPlan, stepIndex: number, cueIndex: number): RepairPlan =>
+  setStepCues(plan, stepIndex, getStepCues(plan.steps[stepIndex]).filter((cue, index) => index !== cueIndex && cue.type !== 'none'));
+
+const words = (text: string) => partId(text).split('-').filter(Boolean);
+
+const containsAll = (haystack: string[], needles: string[]) => needles.every(word => haystack.indexOf(word) !== -1);
+
+// 2 when a tag names the object exactly, 1 when one is a more specific name for the other, 0 otherwise
+const matchScore = (template: PlanTemplate, objectName: string): number => {
+  const target = words(objectName);
+  if (!target.length) return 0;
+  return [template.plan.objectName].concat(template.tags).reduce((best, tag) => {
+    const tagWords = words(tag);
+    if (!tagWords.length) return best;
+    if (tagWords.join(' ') === target.join(' ')) return Math.max(best, 2);
+    return containsAll(target, tagWords) || containsAll(tagWords, target) ? Math.max(best, 1) : best;
+  }, 0);
+};
+
+// Saved fixes for what the scan identified, best match first
+export const findMatchingTemplates = (templates: PlanTemplate[], objectName: string): PlanTemplate[] =>
+  templates
+    .map(template => ({ template, score: matchScore(template, objectName) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.template.updatedAt - a.template.updatedAt)
+    .map(match => match.template);
+
+export const templatesToJson = (templates: PlanTemplate[]): string => {
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    exportedAt: Date.now(),
+    templates,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readTemplate = (raw: unknown, index: number): PlanTemplate => {
+  if (!isRecord(raw) || !isRecord(raw.plan) || !Array.isArray(raw.plan.steps)) {
+    throw new TemplateImportError(`Template ${index + 1} has no plan.`);
+  }
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : `Template ${index + 1}`;
+  let plan: RepairPlan;
+  try {
+    plan = toTemplatePlan(raw.plan as unknown as RepairPlan);
+  } catch (err) {
+    if (err instanceof RepairPlanValidationError || err instanceof TypeError) {
+      throw new TemplateImportError(`"${name}" has no usable repair steps.`);
+    }
+    throw err;
+  }
+  const now = Date.now();
+  const timestamp = (value: unknown) => typeof value === 'number' && value > 0 ? value : now;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createTemplateId(),
+    name,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string' && !!tag.trim()) : [plan.objectName],
+    plan,
+    ...(typeof raw.referenceFrame === 'string' && raw.referenceFrame.indexOf('data:image/') === 0 ? { referenceFrame: raw.referenceFrame } : {}),
+    revision: typeof raw.revision === 'number' && raw.revision >= 1 ? Math.floor(raw.revision) : 1,
+    createdAt: timestamp(raw.createdAt),
+    updatedAt: timestamp(raw.updatedAt),
+  };
+};
+
+/**
+ * Reads an exported template file. Every plan goes through the same
+ * validation as a model response; a file that is not ours, comes from a
+ * newer version of the app or holds an unusable plan throws
+ * TemplateImportError.
+ */
+export const parseTemplateFile = (text: string): PlanTemplate[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new TemplateImportError('The file is not valid JSON.');
+  }
+  if (!isRecord(raw) || raw.format !== TEMPLATE_FILE_FORMAT || !Array.isArray(raw.templates)) {
+    throw new TemplateImportError('The file is not an Omni-Fix template export.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > TEMPLATE_FILE_VERSION) {
+    throw new TemplateImportError('The file was made by a newer version of Omni-Fix. Update the app and try again.');
+  }
+  return raw.templates.map(readTemplate);
+};
+
+// New templates and newer revisions of ones already saved; older or equal revisions are skipped
+export const selectTemplatesToImport = (existing: PlanTemplate[], incoming: PlanTemplate[]): PlanTemplate[] =>
+  incoming.filter(template => {
+    const current = existing.find(candidate => candidate.id === template.id);
+    return !current || template.revision > current.revision;
+  });
+
+export const downloadTemplates = (templates: PlanTemplate[]) => {
+  const blob = new Blob([templatesToJson(templates)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const slug = templates.length === 1 ? partId(templates[0].name) : 'library';
+  link.href = url;
+  link.download = `omni-fix-templates-${slug || 'export'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
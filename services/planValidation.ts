@@ -0,0 +1,539 @@
+import { RepairPlan, RepairStep, VisualCue, Coordinates, CuePoint, FrameEvidence, StepRequirement, RequirementKind, StepHazard, HazardCategory, HazardSeverity, StepDecision, AlternativeDiagnosis } from '../types';
+import { classifyRequirement } from './checklist';
+import { HAZARD_CATEGORIES, HAZARD_SEVERITIES, inferHazards } from './safety';
+import { END_OF_PLAN } from './planNavigation';
+import { normalizeConfidence } from './confidence';
+
+// Gemini returns box coordinates normalized to a 0-1000 grid
+export const COORDINATE_MAX = 1000;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a model response cannot be turned into a usable RepairPlan.
+ * `issues` lists every problem found so the UI can say what actually went wrong.
+ */
+export class RepairPlanValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(issues.length
+      ? `Repair plan rejected: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`
+      : 'Repair plan rejected');
+    this.name = 'RepairPlanValidationError';
+    this.issues = issues;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, RepairPlanValidationError.prototype);
+  }
+}
+
+export interface ParseOptions {
+  // Timestamps of the frames sent with a sequence request; enables evidence_frames
+  frameTimestamps?: number[];
+}
+
+export interface ParsedRepairPlan {
+  plan: RepairPlan;
+  // Non-fatal fixes applied while normalizing (coerced cue types, clamped boxes, defaults)
+  warnings: ValidationIssue[];
+}
+
+const CUE_TYPE_ALIASES: Record<string, VisualCue['type']> = {
+  box: 'box',
+  bbox: 'box',
+  bounding_box: 'box',
+  rectangle: 'box',
+  rect: 'box',
+  highlight: 'box',
+  arrow: 'arrow',
+  line: 'arrow',
+  direction: 'arrow',
+  point: 'point',
+  dot: 'point',
+  circle: 'point',
+  marker: 'point',
+  pin: 'point',
+  polygon: 'polygon',
+  outline: 'polygon',
+  segmentation: 'polygon',
+  mask: 'polygon',
+  sequence: 'sequence',
+  numbered: 'sequence',
+  number: 'sequence',
+  step_marker: 'sequence',
+  rotation: 'rotation',
+  rotate: 'rotation',
+  arc: 'rotation',
+  turn: 'rotation',
+  hazard: 'hazard',
+  keep_out: 'hazard',
+  danger: 'hazard',
+  no_touch: 'hazard',
+  none: 'none',
+};
+
+const ROTATION_ALIASES: Record<string, string> = {
+  clockwise: 'clockwise',
+  cw: 'clockwise',
+  tighten: 'clockwise',
+  counterclockwise: 'counterclockwise',
+  anticlockwise: 'counterclockwise',
+  ccw: 'counterclockwise',
+  loosen: 'counterclockwise',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length ? trimmed : undefined;
+};
+
+const toNumber = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && isFinite(num) ? num : null;
+};
+
+const clamp = (value: number) => Math.min(COORDINATE_MAX, Math.max(0, value));
+
+const EMPTY_COORDINATES: Coordinates = { ymin: 0, xmin: 0, ymax: 0, xmax: 0 };
+
+const normalizeCoordinates = (raw: Record<string, unknown>, path: string, warnings: ValidationIssue[]): Coordinates | null => {
+  const values = ['ymin', 'xmin', 'ymax', 'xmax'].map(key => toNumber(raw[key]));
+  if (values.some(value => value === null)) {
+    warnings.push({ path, message: 'missing or non-numeric coordinates' });
+    return null;
+  }
+  let [ymin, xmin, ymax, xmax] = values as number[];
+
+  // Some responses come back as 0-1 fractions instead of the 0-1000 grid
+  if ([ymin, xmin, ymax, xmax].every(value => value >= 0 && value <= 1) && (ymax > 0 || xmax > 0)) {
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(value => value * COORDINATE_MAX);
+    warnings.push({ path, message: 'coordinates were fractional, rescaled to 0-1000' });
+  }
+
+  if ([ymin, xmin, ymax, xmax].some(value => value < 0 || value > COORDINATE_MAX)) {
+    warnings.push({ path, message: 'coordinates out of range, clamped to 0-1000' });
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(clamp);
+  }
+  if (ymin > ymax) {
+    warnings.push({ path, message: 'ymin was larger than ymax, swapped' });
+    [ymin, ymax] = [ymax, ymin];
+  }
+  if (xmin > xmax) {
+    warnings.push({ path, message: 'xmin was larger than xmax, swapped' });
+    [xmin, xmax] = [xmax, xmin];
+  }
+  return { ymin, xmin, ymax, xmax };
+};
+
+const normalizePoints = (raw: unknown, path: string, warnings: ValidationIssue[]): CuePoint[] | null => {
+  if (!Array.isArray(raw)) return null;
+  let points = raw
+    .map(point => isRecord(point) ? { x: toNumber(point.x), y: toNumber(point.y) } : { x: null, y: null })
+    .filter((point): point is CuePoint => point.x !== null && point.y !== null);
+  if (points.length < raw.length) {
+    warnings.push({ path, message: `${raw.length - points.length} invalid points dropped` });
+  }
+  if (points.length < 3) {
+    warnings.push({ path, message: 'polygon needs at least 3 points' });
+    return null;
+  }
+  if (points.every(point => point.x <= 1 && point.y <= 1 && point.x >= 0 && point.y >= 0)) {
+    points = points.map(point => ({ x: point.x * COORDINATE_MAX, y: point.y * COORDINATE_MAX }));
+  }
+  return points.map(point => ({ x: clamp(point.x), y: clamp(point.y) }));
+};
+
+const boundsOf = (points: CuePoint[]): Coordinates => ({
+  ymin: Math.min(...points.map(point => point.y)),
+  xmin: Math.min(...points.map(point => point.x)),
+  ymax: Math.max(...points.map(point => point.y)),
+  xmax: Math.max(...points.map(point => point.x)),
+});
+
+export const normalizeVisualCue = (raw: unknown, path: string, warnings: ValidationIssue[]): VisualCue => {
+  if (!isRecord(raw)) {
+    warnings.push({ path, message: 'visual cue missing, step will show no overlay' });
+    return { type: 'none', coordinates: EMPTY_COORDINATES };
+  }
+
+  const rawType = (cleanString(raw.type) || 'none').toLowerCase().replace(/[\s-]+/g, '_');
+  let type = CUE_TYPE_ALIASES[rawType];
+  if (!type) {
+    warnings.push({ path: `${path}.type`, message: `unknown cue type "${rawType}", overlay disabled` });
+    type = 'none';
+  }
+
+  const points = type === 'polygon' ? normalizePoints(raw.points, `${path}.points`, warnings) : null;
+  if (type === 'polygon' && !points) {
+    warnings.push({ path: `${path}.type`, message: 'polygon without a usable outline, drawn as a box' });
+    type = 'box';
+  }
+
+  // Accept both the flat shape and a nested `coordinates` object; polygons can derive it from their outline
+  const coordinateSource = isRecord(raw.coordinates) ? raw.coordinates : raw;
+  const coordinates = type === 'none'
+    ? EMPTY_COORDINATES
+    : points
+      ? boundsOf(points)
+      : normalizeCoordinates(coordinateSource, `${path}.coordinates`, warnings);
+  if (!coordinates) {
+    return { type: 'none', coordinates: EMPTY_COORDINATES, label: cleanString(raw.label) };
+  }
+
+  let direction = cleanString(raw.direction);
+  if (type === 'rotation') {
+    const normalized = ROTATION_ALIASES[(direction || '').toLowerCase().replace(/[\s_-]+/g, '')];
+    if (!normalized) {
+      warnings.push({ path: `${path}.direction`, message: `rotation direction "${direction || ''}" unclear, assuming clockwise` });
+    }
+    direction = normalized || 'clockwise';
+  }
+
+  const order = toNumber(raw.order);
+  const confidence = normalizeConfidence(raw.confidence);
+  return {
+    type,
+    coordinates,
+    label: cleanString(raw.label),
+    direction,
+    ...(points ? { points } : {}),
+    ...(type === 'sequence' && order !== null && order >= 1 ? { order: Math.round(order) } : {}),
+    ...(confidence !== undefined ? { confidence } : {}),
+  };
+};
+
+// A step's cues in order; a lone `visual_cue` is treated as a list of one
+const normalizeStepCues = (raw: Record<string, unknown>, path: string, warnings: ValidationIssue[]): VisualCue[] => {
+  const list = raw.visual_cues ?? raw.visualCues;
+  const cues = Array.isArray(list) && list.length
+    ? list.map((cue, index) => normalizeVisualCue(cue, `${path}.visual_cues[${index}]`, warnings))
+    : [normalizeVisualCue(raw.visual_cue ?? raw.visualCue, `${path}.visual_cue`, warnings)];
+
+  const visible = cues.filter(cue => cue.type !== 'none');
+  const result = visible.length ? visible : cues.slice(0, 1);
+
+  // Number unnumbered sequence markers by their position among the markers
+  let sequenceCount = 0;
+  return result.map(cue => {
+    if (cue.type !== 'sequence') return cue;
+    sequenceCount += 1;
+    return cue.order ? cue : { ...cue, order: sequenceCount };
+  });
+};
+
+const REQUIREMENT_KINDS: RequirementKind[] = ['tool', 'consumable', 'part'];
+
+const normalizeRequirements = (raw: unknown, path: string, warnings: ValidationIssue[]): StepRequirement[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const requirements: StepRequirement[] = [];
+  raw.forEach((entry, index) => {
+    const name = isRecord(entry) ? cleanString(entry.name) : undefined;
+    if (!isRecord(entry) || !name) {
+      warnings.push({ path: `${path}[${index}]`, message: 'requirement without a name, ignored' });
+      return;
+    }
+    const rawKind = (cleanString(entry.kind) || '').toLowerCase() as RequirementKind;
+    const quantity = toNumber(entry.quantity);
+    requirements.push({
+      name,
+      kind: REQUIREMENT_KINDS.indexOf(rawKind) !== -1 ? rawKind : classifyRequirement(name),
+      quantity: quantity !== null && quantity >= 1 ? Math.round(quantity) : 1,
+    });
+  });
+  return requirements.length ? requirements : undefined;
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(cleanString).filter((entry): entry is string => !!entry) : [];
+
+// Unknown severities are read as high: over-warning is the safe mistake here
+const normalizeHazards = (raw: unknown, safetyWarning: string | undefined, path: string, warnings: ValidationIssue[]): StepHazard[] | undefined => {
+  if (!Array.isArray(raw)) {
+    const inferred = inferHazards(safetyWarning);
+    return inferred.length ? inferred : undefined;
+  }
+  const hazards: StepHazard[] = [];
+  raw.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isRecord(entry)) {
+      warnings.push({ path: entryPath, message: 'hazard is not an object, ignored' });
+      return;
+    }
+    const category = (cleanString(entry.category) || '').toLowerCase() as HazardCategory;
+    const description = cleanString(entry.description) || safetyWarning;
+    const inferred = inferHazards(description);
+    if (HAZARD_CATEGORIES.indexOf(category) === -1 && !inferred.length) {
+      warnings.push({ path: entryPath, message: `unknown hazard category "${entry.category}", ignored` });
+      return;
+    }
+    let severity = (cleanString(entry.severity) || '').toLowerCase() as HazardSeverity;
+    if (HAZARD_SEVERITIES.indexOf(severity) === -1) {
+      warnings.push({ path: `${entryPath}.severity`, message: `unknown severity "${entry.severity}", using "high"` });
+      severity = 'high';
+    }
+    hazards.push({
+      category: HAZARD_CATEGORIES.indexOf(category) !== -1 ? category : inferred[0].category,
+      severity,
+      description: description || `${category} hazard`,
+      ppe: toStringList(entry.ppe),
+      preconditions: toStringList(entry.preconditions),
+    });
+  });
+  return hazards.length ? hazards : undefined;
+};
+
+const toStepTarget = (value: unknown): number | undefined => {
+  const target = toNumber(value);
+  return target !== null && Math.round(target) === target && target >= 0 ? target : undefined;
+};
+
+// Targets are checked against the final step list in resolveBranches
+const normalizeDecision = (raw: unknown, path: string, warnings: ValidationIssue[]): StepDecision | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const question = isRecord(raw) ? cleanString(raw.question) : undefined;
+  if (!isRecord(raw) || !question || !Array.isArray(raw.options)) {
+    warnings.push({ path, message: 'decision needs a question and options, ignored' });
+    return undefined;
+  }
+  const options = raw.options
+    .map(option => isRecord(option)
+      ? { label: cleanString(option.label), nextStepId: toStepTarget(option.next_step ?? option.nextStepId) }
+      : { label: undefined, nextStepId: undefined })
+    .filter((option): option is StepDecision['options'][number] => !!option.label && option.nextStepId !== undefined);
+  if (options.length < raw.options.length) {
+    warnings.push({ path: `${path}.options`, message: `${raw.options.length - options.length} options without a label or target dropped` });
+  }
+  return { question, options };
+};
+
+const normalizeStep = (raw: unknown, index: number, warnings: ValidationIssue[], errors: ValidationIssue[]): RepairStep | null => {
+  const path = `steps[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'step is not an object' });
+    return null;
+  }
+
+  const title = cleanString(raw.title);
+  let instruction = cleanString(raw.instruction);
+  if (!instruction) {
+    if (!title) {
+      errors.push({ path, message: 'step has neither a title nor an instruction' });
+      return null;
+    }
+    warnings.push({ path: `${path}.instruction`, message: 'missing, using the step title' });
+    instruction = title;
+  }
+  if (!title) {
+    warnings.push({ path: `${path}.title`, message: 'missing, using a default title' });
+  }
+  const cues = normalizeStepCues(raw, path, warnings);
+  const safetyWarning = cleanString(raw.safety_warning ?? raw.safetyWarning);
+
+  return {
+    id: index + 1,
+    title: title || `Step ${index + 1}`,
+    instruction,
+    visualCue: cues[0],
+    visualCues: cues,
+    toolNeeded: cleanString(raw.tool_needed ?? raw.toolNeeded),
+    requirements: normalizeRequirements(raw.requirements, `${path}.requirements`, warnings),
+    safetyWarning,
+    hazards: normalizeHazards(raw.hazards, safetyWarning, `${path}.hazards`, warnings),
+    condition: cleanString(raw.condition),
+    decision: normalizeDecision(raw.decision, `${path}.decision`, warnings),
+    nextStepId: toStepTarget(raw.next_step ?? raw.nextStepId),
+  };
+};
+
+/**
+ * Step ids are renumbered once broken steps are dropped, so branch targets
+ * (written against the model's numbering) are mapped across here. Targets
+ * that point nowhere are removed, and a decision left with fewer than two
+ * ways to go is no decision at all.
+ */
+const resolveBranches = (steps: RepairStep[], warnings: ValidationIssue[]): RepairStep[] => {
+  const idMap: Record<number, number> = {};
+  steps.forEach((step, index) => { idMap[step.id] = index + 1; });
+  const mapTarget = (target: number) => target === END_OF_PLAN ? END_OF_PLAN : idMap[target];
+
+  return steps.map((step, index) => {
+    const path = `steps[${step.id - 1}]`;
+    const resolved: RepairStep = { ...step, id: index + 1 };
+    if (step.nextStepId !== undefined) {
+      resolved.nextStepId = mapTarget(step.nextStepId);
+      if (resolved.nextStepId === undefined || resolved.nextStepId === index + 1) {
+        warnings.push({ path: `${path}.next_step`, message: `step ${step.nextStepId} does not exist, ignored` });
+        resolved.nextStepId = undefined;
+      }
+    }
+    if (step.decision) {
+      const options = step.decision.options
+        .map(option => ({ ...option, nextStepId: mapTarget(option.nextStepId) }))
+        .filter(option => option.nextStepId !== undefined && option.nextStepId !== index + 1);
+      if (options.length < step.decision.options.length) {
+        warnings.push({ path: `${path}.decision`, message: 'options pointing at missing steps dropped' });
+      }
+      if (options.length < 2) {
+        warnings.push({ path: `${path}.decision`, message: 'fewer than two usable options, treated as a plain step' });
+        resolved.decision = undefined;
+      } else {
+        resolved.decision = { ...step.decision, options };
+      }
+    }
+    return resolved;
+  });
+};
+
+const normalizeEvidence = (raw: unknown, frameTimestamps: number[], warnings: ValidationIssue[]): FrameEvidence[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.push({ path: 'evidence_frames', message: 'not a list, ignored' });
+    return undefined;
+  }
+  const evidence: FrameEvidence[] = [];
+  raw.forEach((entry, index) => {
+    const path = `evidence_frames[${index}]`;
+    const frameIndex = isRecord(entry) ? toNumber(entry.frame_index) : null;
+    const observation = isRecord(entry) ? cleanString(entry.observation) : undefined;
+    if (frameIndex === null || Math.round(frameIndex) !== frameIndex || frameIndex < 0 || frameIndex >= frameTimestamps.length) {
+      warnings.push({ path, message: 'cites a frame that was not sent, ignored' });
+    } else if (!observation) {
+      warnings.push({ path, message: 'missing observation, ignored' });
+    } else {
+      evidence.push({ frameIndex, timestampMs: frameTimestamps[frameIndex], observation });
+    }
+  });
+  return evidence.length ? evidence : undefined;
+};
+
+// Unusable entries and repeats of the main diagnosis are dropped; most likely first
+const normalizeAlternatives = (raw: unknown, issueDiagnosis: string | undefined, warnings: ValidationIssue[]): AlternativeDiagnosis[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.push({ path: 'alternative_diagnoses', message: 'not a list, ignored' });
+    return undefined;
+  }
+  const alternatives: AlternativeDiagnosis[] = [];
+  raw.forEach((entry, index) => {
+    const diagnosis = isRecord(entry) ? cleanString(entry.diagnosis) : cleanString(entry);
+    if (!diagnosis || (issueDiagnosis && diagnosis.toLowerCase() === issueDiagnosis.toLowerCase())) {
+      warnings.push({ path: `alternative_diagnoses[${index}]`, message: 'empty or same as the main diagnosis, ignored' });
+      return;
+    }
+    const confidence = isRecord(entry) ? normalizeConfidence(entry.confidence) : undefined;
+    const check = isRecord(entry) ? cleanString(entry.check) : undefined;
+    alternatives.push({ diagnosis, ...(confidence !== undefined ? { confidence } : {}), ...(check ? { check } : {}) });
+  });
+  alternatives.sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
+  return alternatives.length ? alternatives : undefined;
+};
+
+/**
+ * Validates a raw GeminiRepairResponse (or its JSON text) and normalizes it
+ * into a RepairPlan. Recoverable problems are repaired and reported as
+ * warnings; anything that leaves the plan unusable throws
+ * RepairPlanValidationError.
+ */
+export const parseRepairResponse = (input: unknown, options: ParseOptions = {}): ParsedRepairPlan => {
+  let raw = input;
+  if (typeof raw === 'string') {
+    try {
+      // Strip markdown fences the model sometimes wraps JSON in
+      raw = JSON.parse(raw.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+      throw new RepairPlanValidationError([{ path: '$', message: 'response is not valid JSON' }]);
+    }
+  }
+  if (!isRecord(raw)) {
+    throw new RepairPlanValidationError([{ path: '$', message: 'response is not an object' }]);
+  }
+
+  const warnings: ValidationIssue[] = [];
+  const errors: ValidationIssue[] = [];
+
+  const objectName = cleanString(raw.object_name);
+  if (!objectName) warnings.push({ path: 'object_name', message: 'missing, object could not be named' });
+  const issueDiagnosis = cleanString(raw.issue_diagnosis);
+  if (!issueDiagnosis) warnings.push({ path: 'issue_diagnosis', message: 'missing' });
+
+  const rawSteps = Array.isArray(raw.steps) ? raw.steps : [];
+  if (!Array.isArray(raw.steps)) {
+    errors.push({ path: 'steps', message: 'missing or not a list' });
+  }
+
+  const steps = resolveBranches(rawSteps
+    .map((step, index) => normalizeStep(step, index, warnings, errors))
+    .filter((step): step is RepairStep => step !== null), warnings);
+
+  if (!steps.length) {
+    if (Array.isArray(raw.steps)) errors.push({ path: 'steps', message: 'no usable repair steps' });
+    throw new RepairPlanValidationError(errors);
+  }
+  // Individual broken steps are dropped rather than failing the whole plan
+  errors.forEach(error => warnings.push(error));
+
+  const diagnosisEvidence = options.frameTimestamps
+    ? normalizeEvidence(raw.evidence_frames, options.frameTimestamps, warnings)
+    : undefined;
+  const diagnosisConfidence = normalizeConfidence(raw.diagnosis_confidence);
+  if (raw.diagnosis_confidence !== undefined && diagnosisConfidence === undefined) {
+    warnings.push({ path: 'diagnosis_confidence', message: 'not a 0-1 value, ignored' });
+  }
+  const alternativeDiagnoses = normalizeAlternatives(raw.alternative_diagnoses, issueDiagnosis, warnings);
+
+  return {
+    plan: {
+      objectName: objectName || 'Unidentified object',
+      issueDiagnosis: issueDiagnosis || 'No diagnosis given',
+      steps,
+      ...(diagnosisEvidence ? { diagnosisEvidence } : {}),
+      ...(diagnosisConfidence !== undefined ? { diagnosisConfidence } : {}),
+      ...(alternativeDiagnoses ? { alternativeDiagnoses } : {}),
+    },
+    warnings,
+  };
+};
+
+// Re-checks an already-built plan, e.g. one coming from a provider that skipped raw parsing
+export const validateRepairPlan = (plan: RepairPlan): ParsedRepairPlan => parseRepairResponse({
+  object_name: plan.objectName,
+  issue_diagnosis: plan.issueDiagnosis,
+  diagnosis_confidence: plan.diagnosisConfidence,
+  alternative_diagnoses: plan.alternativeDiagnoses,
+  steps: plan.steps.map(step => ({
+    title: step.title,
+    instruction: step.instruction,
+    tool_needed: step.toolNeeded,
+    requirements: step.requirements,
+    safety_warning: step.safetyWarning,
+    hazards: step.hazards,
+    condition: step.condition,
+    decision: step.decision && {
+      question: step.decision.question,
+      options: step.decision.options.map(option => ({ label: option.label, next_step: option.nextStepId })),
+    },
+    next_step: step.nextStepId,
+    visual_cue: step.visualCue,
+    visual_cues: step.visualCues,
+  })),
+});
+
+// Human-readable explanation for the error screen
+export const describeAnalysisError = (err: unknown): string => {
+  if (err instanceof RepairPlanValidationError) {
+    const first = err.issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join(', ');
+    return `Gemini returned a plan we couldn't use (${first || 'invalid response'}). Please try scanning again.`;
+  }
+  if (err instanceof Error && err.message) {
+    return `Diagnosis failed: ${err.message}`;
+  }
+  return "Gemini could not identify the issue. Please try again with better lighting.";
+};
@@ -0,0 +1,65 @@
+import type { CameraResolution } from './camera';
+
+// User preferences, kept in localStorage so they survive reloads and work offline
+
+const STORAGE_KEY = 'omni-fix-preferences';
+
+// Languages offered in settings; speech, recognition and model replies all follow the choice
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português' },
+  { code: 'nl-NL', label: 'Nederlands' },
+  { code: 'pl-PL', label: 'Polski' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'zh-CN', label: '中文' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+];
+
+export interface Preferences {
+  handsFree: boolean; // Listen continuously instead of hold-to-talk
+  wakePhrase: string; // Required before each utterance when hands-free; '' for none
+  language: string; // BCP 47 tag from LANGUAGES
+  voiceURI: string; // '' for the browser's default voice for the language
+  speechRate: number; // 0.5-2, 1 is normal speed
+  speechVolume: number; // 0-1
+  autoReadSteps: boolean; // Read each step's instruction and safety warning aloud when it comes up
+  cameraDeviceId: string; // '' for the back camera
+  cameraResolution: CameraResolution;
+  accessibilityMode: boolean; // High-contrast large type, screen-reader announcements and spoken cue positions
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  handsFree: false,
+  wakePhrase: '',
+  language: 'en-US',
+  voiceURI: '',
+  speechRate: 1.1,
+  speechVolume: 1,
+  autoReadSteps: false,
+  cameraDeviceId: '',
+  cameraResolution: '720p',
+  accessibilityMode: false,
+};
+
+// Unknown or missing keys fall back to the defaults, so older saved preferences keep working
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_PREFERENCES, ...(stored && typeof stored === 'object' ? stored : {}) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    // Private mode or a full quota: the preferences still apply for this visit
+    console.warn('Could not save preferences', err);
+  }
+};
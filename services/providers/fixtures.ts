@@ -0,0 +1,170 @@
+import { GeminiRepairResponse, ComponentInfo } from '../../types';
+
+// Recorded Gemini payloads used by the offline mock provider.
+// Coordinates use the same 0-1000 normalized space the model returns.
+
+export const REPAIR_FIXTURES: GeminiRepairResponse[] = [
+  {
+    object_name: 'Desk Fan',
+    issue_diagnosis: 'Loose blade hub causing wobble and rattling',
+    diagnosis_confidence: 0.9,
+    steps: [
+      {
+        title: 'Unplug the fan',
+        instruction: 'Switch the fan off and pull the plug out of the wall socket.',
+        safety_warning: 'Moving blades and mains power. Never work on a running fan.',
+        hazards: [
+          {
+            category: 'electrical',
+            severity: 'high',
+            description: 'Mains power reaches the motor while the fan is plugged in.',
+            ppe: [],
+            preconditions: ['Fan switched off', 'Plug pulled from the wall socket'],
+          },
+        ],
+        visual_cue: { type: 'box', ymin: 780, xmin: 420, ymax: 960, xmax: 580, label: 'Power cord' },
+      },
+      {
+        title: 'Remove the front grille',
+        instruction: 'Release the four clips around the rim, top first, and lift the front grille away.',
+        visual_cue: { type: 'sequence', ymin: 70, xmin: 480, ymax: 110, xmax: 520, order: 1, label: 'Top clip' },
+        visual_cues: [
+          { type: 'sequence', ymin: 70, xmin: 480, ymax: 110, xmax: 520, order: 1, label: 'Top clip' },
+          { type: 'sequence', ymin: 380, xmin: 790, ymax: 420, xmax: 830, order: 2, label: 'Right clip' },
+          { type: 'sequence', ymin: 690, xmin: 480, ymax: 730, xmax: 520, order: 3, label: 'Bottom clip' },
+          { type: 'sequence', ymin: 380, xmin: 170, ymax: 420, xmax: 210, order: 4, label: 'Left clip' },
+        ],
+      },
+      {
+        title: 'Tighten the blade hub',
+        instruction: 'Turn the hub cap clockwise until the blade no longer moves on the shaft. Keep fingers off the blade edges.',
+        hazards: [
+          { category: 'sharp', severity: 'medium', description: 'Blade edges can cut.', ppe: ['Work gloves'], preconditions: [] },
+        ],
+        tool_needed: 'None (hand tight)',
+        visual_cue: { type: 'rotation', ymin: 360, xmin: 440, ymax: 440, xmax: 560, label: 'Hub cap', direction: 'clockwise' },
+        visual_cues: [
+          { type: 'rotation', ymin: 360, xmin: 440, ymax: 440, xmax: 560, label: 'Hub cap', direction: 'clockwise' },
+          {
+            type: 'polygon', ymin: 120, xmin: 520, ymax: 380, xmax: 760, label: 'Loose blade',
+            points: [{ x: 540, y: 380 }, { x: 620, y: 130 }, { x: 760, y: 160 }, { x: 580, y: 400 }],
+          },
+          { type: 'hazard', ymin: 420, xmin: 200, ymax: 680, xmax: 440, label: 'Blade edge' },
+        ],
+      },
+      {
+        title: 'Refit the grille',
+        instruction: 'Line up the grille and press the clips closed all the way around.',
+        visual_cue: { type: 'point', ymin: 390, xmin: 490, ymax: 410, xmax: 510 },
+      },
+    ],
+  },
+  {
+    object_name: 'Kitchen Faucet',
+    issue_diagnosis: 'Worn cartridge O-ring causing a slow drip from the spout',
+    // Low on purpose so the uncertain-diagnosis UI can be tried offline
+    diagnosis_confidence: 0.55,
+    alternative_diagnoses: [
+      { diagnosis: 'Cracked cartridge body', confidence: 0.3, check: 'Does it still drip with the handle fully closed and the O-ring replaced?' },
+      { diagnosis: 'Worn valve seat', confidence: 0.15, check: 'Look for pitting on the brass seat under the cartridge.' },
+    ],
+    steps: [
+      {
+        title: 'Shut off the water',
+        instruction: 'Close both isolation valves under the sink.',
+        hazards: [
+          {
+            category: 'pressure',
+            severity: 'high',
+            description: 'Mains water pressure will spray out if the cartridge is removed with the valves open.',
+            ppe: ['Safety glasses'],
+            preconditions: ['Both isolation valves closed', 'Tap opened to release remaining pressure'],
+          },
+        ],
+        visual_cue: { type: 'box', ymin: 700, xmin: 300, ymax: 900, xmax: 700, label: 'Isolation valves' },
+      },
+      {
+        title: 'Remove the handle',
+        instruction: 'Pry off the cap and unscrew the handle retaining screw.',
+        tool_needed: 'Phillips screwdriver',
+        requirements: [
+          { name: 'Phillips screwdriver', kind: 'tool', quantity: 1 },
+          { name: 'Flat-head screwdriver', kind: 'tool', quantity: 1 },
+        ],
+        visual_cue: { type: 'point', ymin: 180, xmin: 480, ymax: 220, xmax: 520, label: 'Retaining screw' },
+      },
+      {
+        title: 'Check the O-ring',
+        instruction: 'Pull out the cartridge and look at the O-ring around its base.',
+        decision: {
+          question: 'Is the O-ring cracked, flattened or missing?',
+          options: [
+            { label: 'Yes, it is worn', next_step: 4 },
+            { label: 'No, it looks fine', next_step: 5 },
+          ],
+        },
+        visual_cue: { type: 'box', ymin: 250, xmin: 420, ymax: 450, xmax: 580, label: 'Cartridge' },
+      },
+      {
+        title: 'Replace the O-ring',
+        instruction: 'Swap the worn O-ring for a new one of the same size.',
+        condition: 'Only if the O-ring is worn',
+        next_step: 6,
+        tool_needed: 'Replacement O-ring',
+        requirements: [
+          { name: 'Replacement O-ring', kind: 'part', quantity: 2 },
+          { name: 'Silicone plumber\'s grease', kind: 'consumable', quantity: 1 },
+          { name: 'Phillips screwdriver', kind: 'tool', quantity: 1 },
+        ],
+        visual_cue: { type: 'box', ymin: 250, xmin: 420, ymax: 450, xmax: 580, label: 'Cartridge' },
+      },
+      {
+        title: 'Replace the cartridge',
+        instruction: 'A sound O-ring means the cartridge itself is leaking. Fit a new cartridge of the same type.',
+        condition: 'Only if the O-ring looks fine',
+        requirements: [{ name: 'Replacement cartridge', kind: 'part', quantity: 1 }],
+        visual_cue: { type: 'box', ymin: 250, xmin: 420, ymax: 450, xmax: 580, label: 'Cartridge' },
+      },
+      {
+        title: 'Reassemble and test',
+        instruction: 'Refit the handle, open the isolation valves and check the spout no longer drips.',
+        visual_cue: { type: 'box', ymin: 100, xmin: 400, ymax: 300, xmax: 600, label: 'Spout' },
+      },
+    ],
+  },
+];
+
+export const COMPONENT_FIXTURES: ComponentInfo[] = [
+  {
+    name: 'Blade Hub',
+    function: 'Locks the fan blade onto the motor shaft.',
+    status: 'Damaged',
+    details: 'The hub cap is loose, letting the blade shift under load.',
+    confidence: 0.85,
+    box: { ymin: 420, xmin: 430, ymax: 560, xmax: 570 },
+    parent: 'Blade Assembly',
+  },
+  {
+    name: 'Front Grille',
+    function: 'Keeps fingers and objects away from the spinning blade.',
+    status: 'Good',
+    details: 'All clips are intact and the mesh is undamaged.',
+    box: { ymin: 150, xmin: 200, ymax: 850, xmax: 800 },
+  },
+  {
+    name: 'Motor Housing',
+    function: 'Encloses the motor and bearings.',
+    status: 'Unknown',
+    details: 'Not enough of the housing is visible to judge its condition.',
+    confidence: 0.4,
+    box: { ymin: 600, xmin: 380, ymax: 780, xmax: 620 },
+  },
+  {
+    name: 'Motor Bearing',
+    function: 'Lets the motor shaft spin smoothly.',
+    status: 'Worn',
+    details: 'Slight play in the shaft suggests the bearing is wearing.',
+    box: { ymin: 640, xmin: 470, ymax: 720, xmax: 530 },
+    parent: 'Motor Housing',
+  },
+];
@@ -0,0 +1,465 @@
+import { GoogleGenAI, Type, Part } from '@google/genai';
+import { parseRepairResponse } from '../planValidation';
+import { normalizeConfidence } from '../confidence';
+import type { VisionProvider, RequestOptions, ReplanContext, AssistantRequest, AssistantReply } from '../visionProvider';
+import type { SequenceFrame } from '../frameSequence';
+import { ComponentInfo, ComponentScan, ComponentStatus, Coordinates, VerificationResult, VoiceCommand } from '../../types';
+import { VOICE_COMMANDS, parseVoiceCommand } from '../voiceCommands';
+
+const MODEL = 'gemini-3-pro-preview';
+
+// Built on first use: the browser SDK throws without a key, which would take the keyless mock mode down on import
+let client: GoogleGenAI | null = null;
+const getClient = () => client || (client = new GoogleGenAI({ apiKey: process.env.API_KEY }));
+
+const VISUAL_CUE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING, enum: ['box', 'arrow', 'point', 'polygon', 'sequence', 'rotation', 'hazard', 'none'] },
+    ymin: { type: Type.NUMBER },
+    xmin: { type: Type.NUMBER },
+    ymax: { type: Type.NUMBER },
+    xmax: { type: Type.NUMBER },
+    label: { type: Type.STRING },
+    direction: { type: Type.STRING },
+    points: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+        required: ['x', 'y'],
+      },
+    },
+    order: { type: Type.INTEGER },
+    confidence: { type: Type.NUMBER },
+  },
+  required: ['type', 'ymin', 'xmin', 'ymax', 'xmax'],
+};
+
+const REPAIR_PLAN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    object_name: { type: Type.STRING },
+    issue_diagnosis: { type: Type.STRING },
+    diagnosis_confidence: { type: Type.NUMBER },
+    alternative_diagnoses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          diagnosis: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+          check: { type: Type.STRING },
+        },
+        required: ['diagnosis', 'confidence'],
+      },
+    },
+    evidence_frames: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          frame_index: { type: Type.INTEGER },
+          observation: { type: Type.STRING },
+        },
+        required: ['frame_index', 'observation'],
+      },
+    },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          instruction: { type: Type.STRING },
+          tool_needed: { type: Type.STRING },
+          requirements: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                kind: { type: Type.STRING, enum: ['tool', 'consumable', 'part'] },
+                quantity: { type: Type.INTEGER },
+              },
+              required: ['name', 'kind'],
+            },
+          },
+          safety_warning: { type: Type.STRING },
+          condition: { type: Type.STRING },
+          decision: {
+            type: Type.OBJECT,
+            properties: {
+              question: { type: Type.STRING },
+              options: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    label: { type: Type.STRING },
+                    next_step: { type: Type.INTEGER },
+                  },
+                  required: ['label', 'next_step'],
+                },
+              },
+            },
+            required: ['question', 'options'],
+          },
+          next_step: { type: Type.INTEGER },
+          hazards: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                category: { type: Type.STRING, enum: ['electrical', 'thermal', 'pressure', 'chemical', 'sharp', 'lifting'] },
+                severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+                description: { type: Type.STRING },
+                ppe: { type: Type.ARRAY, items: { type: Type.STRING } },
+                preconditions: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ['category', 'severity', 'description'],
+            },
+          },
+          visual_cue: VISUAL_CUE_SCHEMA,
+          visual_cues: { type: Type.ARRAY, items: VISUAL_CUE_SCHEMA },
+        },
+        required: ['title', 'instruction', 'visual_cue'],
+      },
+    },
+  },
+  required: ['object_name', 'issue_diagnosis', 'diagnosis_confidence', 'steps'],
+};
+
+const CONFIDENCE_PROMPT = `Confidence values run from 0 to 1. Be honest: use below 0.6 when the image is unclear,
+the part is partly hidden, or you are guessing.`;
+
+const ANALYSIS_PROMPT = `You are an expert repair technician. Identify the object in the image and diagnose what is broken.
+Return a step-by-step repair plan. For each step give a visual cue locating the relevant part, with
+coordinates normalized to 0-1000 (ymin, xmin, ymax, xmax). When a step involves several parts, list them all
+in visual_cues in the order the user should act on them (visual_cue repeats the first):
+- "sequence" with order 1, 2, 3... for things to do in turn (e.g. four screws)
+- "polygon" with points for irregular parts a box would describe badly
+- "rotation" with direction "clockwise" or "counterclockwise" for anything to turn
+- "hazard" for keep-out zones the user must not touch (blades, live terminals, hot surfaces)
+List everything a step needs in requirements: tools, consumables (tape, grease, sealant...) and replacement
+parts, each with a quantity. Use the same name for the same item across steps.
+Add a safety_warning whenever a step involves electricity, heat, pressure, chemicals, sharp edges or heavy lifting,
+and describe each danger in hazards with its category, severity, the PPE to wear and any preconditions that must
+hold before starting (e.g. "Unplug and wait 5 minutes for the capacitor to discharge"). Use severity "high" for
+anything that could cause serious injury.
+When the right fix depends on something the user has to check, add a step with a decision: a question and options,
+each with the 1-based next_step to continue from (0 finishes the repair). Give steps that only apply on one branch a
+condition (e.g. "Only if the fuse is blown") and, at the end of a branch, a next_step to rejoin the main path.
+${CONFIDENCE_PROMPT} Give diagnosis_confidence for the diagnosis and a confidence for each visual cue's placement.
+If other faults could explain what you see, list up to three in alternative_diagnoses with their confidence and a
+check the user can do to tell them apart.`;
+
+const HAZARD_PROMPT = `If the frame shows a dangerous condition the user should not handle themselves (smoke, sparks,
+scorching, melted insulation, exposed live wiring, a gas smell mentioned, a swollen battery, a leaking refrigerant line),
+describe it in hazard. Otherwise leave hazard out.`;
+
+const SEQUENCE_PROMPT = `These frames were taken in order from a short clip, so the fault may only show up as
+change between frames (wobble, vibration, dripping, slipping, flickering). In evidence_frames, cite the
+frame_index of every frame that shows the fault and say what it shows. Place visual cues relative to the LAST frame.`;
+
+const VERIFY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    completed: { type: Type.BOOLEAN },
+    feedback: { type: Type.STRING },
+    hazard: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+  },
+  required: ['completed', 'feedback', 'confidence'],
+};
+
+const ASSISTANT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    transcript: { type: Type.STRING },
+    answer: { type: Type.STRING },
+    command: { type: Type.STRING, enum: [...VOICE_COMMANDS, 'none'] },
+  },
+  required: ['transcript', 'answer', 'command'],
+};
+
+const COMPONENT_STATUSES: ComponentStatus[] = ['Good', 'Worn', 'Damaged', 'Missing', 'Unknown'];
+
+const COMPONENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    function: { type: Type.STRING },
+    status: { type: Type.STRING, enum: COMPONENT_STATUSES },
+    details: { type: Type.STRING },
+    hazard: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+    parent: { type: Type.STRING },
+    ymin: { type: Type.NUMBER },
+    xmin: { type: Type.NUMBER },
+    ymax: { type: Type.NUMBER },
+    xmax: { type: Type.NUMBER },
+  },
+  required: ['name', 'function', 'status', 'details', 'confidence'],
+};
+
+const COMPONENT_SCAN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    object_name: { type: Type.STRING },
+    components: { type: Type.ARRAY, items: { ...COMPONENT_SCHEMA, required: [...COMPONENT_SCHEMA.required, 'ymin', 'xmin', 'ymax', 'xmax'] } },
+  },
+  required: ['object_name', 'components'],
+};
+
+const COMPONENT_PROMPT = `Give its name, what it does, and its condition as status: Good, Worn (still works but nearing the end of
+its life), Damaged, Missing (should be there but isn't) or Unknown if you can't tell, with short details. In parent, name the
+assembly it belongs to if it is part of a larger component (e.g. "Motor" for a motor bearing). Give its bounding box
+normalized to 0-1000 (ymin, xmin, ymax, xmax), and your confidence in the identification and status.
+${CONFIDENCE_PROMPT}`;
+
+// Only the latest turns are sent back; older ones rarely matter and cost tokens
+const MAX_HISTORY_TURNS = 6;
+
+// Appended to every prompt; field names and enum values stay in English so parsing is unaffected
+const languagePrompt = ({ language }: RequestOptions) =>
+  language && !/^en\b/i.test(language)
+    ? `\nWrite all text meant for the user (names, instructions, feedback, answers, warnings) in the language with BCP 47 tag "${language}". Keep JSON keys and enum values in English.`
+    : '';
+
+// Interleaves a timestamp label before each frame so the model can refer to frames by index
+const sequenceParts = (frames: SequenceFrame[]): Part[] => {
+  const parts: Part[] = [];
+  frames.forEach((frame, index) => {
+    parts.push({ text: `Frame ${index} at ${(frame.timestampMs / 1000).toFixed(1)}s:` });
+    parts.push({ inlineData: { mimeType: 'image/jpeg', data: frame.base64 } });
+  });
+  return parts;
+};
+
+// Every call goes through here so the request pipeline can tally the tokens used
+const generate = async (params: Parameters<GoogleGenAI['models']['generateContent']>[0], options: RequestOptions) => {
+  const response = await getClient().models.generateContent(params);
+  const usage = response.usageMetadata;
+  if (usage && options.onUsage) {
+    const promptTokens = usage.promptTokenCount || 0;
+    // Thinking tokens are billed as output
+    const outputTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+    options.onUsage({ promptTokens, outputTokens, totalTokens: usage.totalTokenCount || promptTokens + outputTokens });
+  }
+  return response;
+};
+
+// Plan generation goes through parseRepairResponse so malformed output is caught here, not in the UI
+const requestPlan = async (parts: Part[], options: RequestOptions, frameTimestamps?: number[]) => {
+  const response = await generate({
+    model: MODEL,
+    contents: { parts },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: REPAIR_PLAN_SCHEMA,
+      abortSignal: options.signal,
+    },
+  }, options);
+
+  const { plan, warnings } = parseRepairResponse(response.text || '', { frameTimestamps });
+  if (warnings.length) {
+    console.warn('Repair plan normalized:', warnings);
+  }
+  return plan;
+};
+
+const analyzeImageAndCreatePlan = (base64Image: string, options: RequestOptions = {}) =>
+  requestPlan([
+    { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+    { text: ANALYSIS_PROMPT + languagePrompt(options) },
+  ], options);
+
+const analyzeFrameSequence = (frames: SequenceFrame[], options: RequestOptions = {}) =>
+  requestPlan([
+    ...sequenceParts(frames),
+    { text: `${ANALYSIS_PROMPT}\n${SEQUENCE_PROMPT}${languagePrompt(options)}` },
+  ], options, frames.map(frame => frame.timestampMs));
+
+const requestVerification = async (parts: Part[], options: RequestOptions): Promise<VerificationResult> => {
+  const response = await generate({
+    model: MODEL,
+    contents: { parts },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: VERIFY_SCHEMA,
+      abortSignal: options.signal,
+    },
+  }, options);
+
+  const parsed = JSON.parse(response.text || '{}');
+  return {
+    completed: parsed.completed === true,
+    feedback: typeof parsed.feedback === 'string' ? parsed.feedback : 'No feedback returned.',
+    hazard: typeof parsed.hazard === 'string' && parsed.hazard.trim() ? parsed.hazard.trim() : undefined,
+    confidence: normalizeConfidence(parsed.confidence),
+  };
+};
+
+const describeReplanContext = ({ plan, stepIndex, completedSteps, failures }: ReplanContext) => {
+  const done = completedSteps.map((step, index) => `${index + 1}. ${step.title}: ${step.instruction}`).join('\n') || 'None yet.';
+  const failed = failures.map(feedback => `- ${feedback}`).join('\n') || '- The user asked for a new approach.';
+  return `The user is repairing a ${plan.objectName} (diagnosis: ${plan.issueDiagnosis}).
+Steps already done:
+${done}
+They are stuck on: "${plan.steps[stepIndex].instruction}". Checks on that step said:
+${failed}
+Look at the current frame and return a new plan for the rest of the repair, starting from where the user is now.
+Do not repeat the steps already done. Revise the diagnosis if the frame shows it was wrong. Step numbers in
+next_step refer to the new steps only.`;
+};
+
+const replanFromStep = (base64Image: string, context: ReplanContext, options: RequestOptions = {}) =>
+  requestPlan([
+    { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+    { text: `${ANALYSIS_PROMPT}\n${describeReplanContext(context)}${languagePrompt(options)}` },
+  ], options);
+
+const describeHistory = (history: AssistantRequest['history']) =>
+  history.slice(-MAX_HISTORY_TURNS)
+    .map(turn => `Step ${turn.stepIndex + 1}. User: ${turn.question}\nAssistant: ${turn.answer || `(ran command "${turn.command}")`}`)
+    .join('\n');
+
+const askRepairAssistant = async (request: AssistantRequest, options: RequestOptions = {}): Promise<AssistantReply> => {
+  const history = describeHistory(request.history);
+  const response = await generate({
+    model: MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: request.image } },
+        { inlineData: { mimeType: request.audioMimeType || 'audio/webm', data: request.audio } },
+        { text: `You are a hands-on repair assistant talking the user through a repair. The current step is: "${request.instruction}".
+${history ? `Conversation so far:\n${history}\n` : ''}Transcribe what the user just said into transcript. If it is only a command to control the guide
+(next step, repeat, go back, inspect this part, verify/check the step), set command and leave answer empty.
+Otherwise set command to "none" and answer briefly and practically, using the image and the conversation so far.${languagePrompt(options)}` },
+      ],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: ASSISTANT_SCHEMA,
+      abortSignal: options.signal,
+    },
+  }, options);
+
+  const parsed = JSON.parse(response.text || '{}');
+  const transcript = typeof parsed.transcript === 'string' ? parsed.transcript.trim() : '';
+  const command = VOICE_COMMANDS.indexOf(parsed.command) !== -1 ? parsed.command as VoiceCommand : parseVoiceCommand(transcript);
+  return {
+    transcript,
+    answer: typeof parsed.answer === 'string' ? parsed.answer.trim() : '',
+    command: command || undefined,
+  };
+};
+
+const verifyRepairStep = (base64Image: string, stepInstruction: string, options: RequestOptions = {}) =>
+  requestVerification([
+    { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+    { text: `The user was asked to: "${stepInstruction}". Decide whether the step has been completed.
+Give short, practical feedback and your confidence in the verdict.
+${CONFIDENCE_PROMPT}
+${HAZARD_PROMPT}${languagePrompt(options)}` },
+  ], options);
+
+const verifyFrameSequence = (frames: SequenceFrame[], stepInstruction: string, options: RequestOptions = {}) =>
+  requestVerification([
+    ...sequenceParts(frames),
+    { text: `The user was asked to: "${stepInstruction}". These frames are in order from a short clip.
+Decide whether the step has been completed, judging the motion across frames as well as the final state
+(e.g. the wobble has stopped, the drip is gone). Give short, practical feedback and your confidence in the verdict.
+${CONFIDENCE_PROMPT}
+${HAZARD_PROMPT}${languagePrompt(options)}` },
+  ], options);
+
+const describeObject = (objectName: string) =>
+  objectName ? `This is a ${objectName}.` : 'The device has not been identified yet; work out what it is from the image.';
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const toCoordinate = (value: unknown) => Math.min(1000, Math.max(0, Number(value) || 0));
+
+// Boxes are optional; a missing or empty one is dropped rather than guessed
+const toBox = (parsed: Record<string, unknown>): Coordinates | undefined => {
+  if (['ymin', 'xmin', 'ymax', 'xmax'].some(key => typeof parsed[key] !== 'number')) return undefined;
+  const box = { ymin: toCoordinate(parsed.ymin), xmin: toCoordinate(parsed.xmin), ymax: toCoordinate(parsed.ymax), xmax: toCoordinate(parsed.xmax) };
+  return box.ymax > box.ymin && box.xmax > box.xmin ? box : undefined;
+};
+
+const toComponentInfo = (parsed: Record<string, unknown>): ComponentInfo => ({
+  name: text(parsed.name) || 'Unknown component',
+  function: text(parsed.function),
+  status: COMPONENT_STATUSES.indexOf(parsed.status as ComponentStatus) !== -1 ? parsed.status as ComponentStatus : 'Unknown',
+  details: text(parsed.details),
+  hazard: text(parsed.hazard) || undefined,
+  confidence: normalizeConfidence(parsed.confidence),
+  box: toBox(parsed),
+  parent: text(parsed.parent) || undefined,
+});
+
+const requestComponent = async (base64Image: string, prompt: string, options: RequestOptions): Promise<ComponentInfo> => {
+  const response = await generate({
+    model: MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: `${prompt}\n${COMPONENT_PROMPT}\n${HAZARD_PROMPT}${languagePrompt(options)}` },
+      ],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: COMPONENT_SCHEMA,
+      abortSignal: options.signal,
+    },
+  }, options);
+  return toComponentInfo(JSON.parse(response.text || '{}'));
+};
+
+const identifyComponentAtPoint = (base64Image: string, xPct: number, yPct: number, objectName: string, options: RequestOptions = {}) =>
+  requestComponent(base64Image, `${describeObject(objectName)} Identify the component at ${Math.round(xPct)}% from the left and ${Math.round(yPct)}% from the top of the image.`, options);
+
+const identifyComponentInRegion = (base64Image: string, region: Coordinates, objectName: string, options: RequestOptions = {}) =>
+  requestComponent(base64Image, `${describeObject(objectName)} Identify the main component inside the region ymin ${Math.round(region.ymin)}, xmin ${Math.round(region.xmin)}, ymax ${Math.round(region.ymax)}, xmax ${Math.round(region.xmax)} (normalized to 0-1000).`, options);
+
+const identifyAllComponents = async (base64Image: string, objectName: string, options: RequestOptions = {}): Promise<ComponentScan> => {
+  const response = await generate({
+    model: MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: `${describeObject(objectName)} Name the device in object_name and list every distinct component you can see.
+For each one: ${COMPONENT_PROMPT}
+Give hazard only on the component that shows it. ${HAZARD_PROMPT}${languagePrompt(options)}` },
+      ],
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: COMPONENT_SCAN_SCHEMA,
+      abortSignal: options.signal,
+    },
+  }, options);
+
+  const parsed = JSON.parse(response.text || '{}');
+  return {
+    objectName: objectName || text(parsed.object_name) || 'Unknown device',
+    components: Array.isArray(parsed.components)
+      ? parsed.components.filter((item: unknown) => item && typeof item === 'object').map(toComponentInfo)
+      : [],
+  };
+};
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  analyzeImageAndCreatePlan,
+  analyzeFrameSequence,
+  verifyRepairStep,
+  verifyFrameSequence,
+  replanFromStep,
+  askRepairAssistant,
+  identifyComponentAtPoint,
+  identifyComponentInRegion,
+  identifyAllComponents,
+};
@@ -0,0 +1,119 @@
+import { ComponentInfo, GeminiRepairResponse, VerificationResult } from '../../types';
+import { parseRepairResponse } from '../planValidation';
+import { parseVoiceCommand } from '../voiceCommands';
+import { delay } from '../abort';
+import type { VisionProvider } from '../visionProvider';
+import { REPAIR_FIXTURES, COMPONENT_FIXTURES } from './fixtures';
+
+export interface MockProviderOptions {
+  plans?: GeminiRepairResponse[];
+  components?: ComponentInfo[];
+  // Results handed out in order by verifyRepairStep; once exhausted every step passes
+  verifications?: VerificationResult[];
+  assistantReply?: string;
+  assistantTranscript?: string; // What askRepairAssistant pretends to hear; a command like "next step" drives the guide
+  latencyMs?: number;
+}
+
+// Cheap stable hash so the same frame always maps to the same fixture
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 97) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Deterministic, network-free stand-in for Gemini. Returns recorded payloads
+ * (or the built-in fixtures) so the UI can be developed and tested without
+ * an API key.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): VisionProvider => {
+  const plans = options.plans && options.plans.length ? options.plans : REPAIR_FIXTURES;
+  const components = options.components && options.components.length ? options.components : COMPONENT_FIXTURES;
+  const verifications = options.verifications ? options.verifications.slice() : [];
+  const latencyMs = options.latencyMs ?? 600;
+
+  // Split the frame into a coarse grid so different taps land on different parts
+  const componentAt = (xPct: number, yPct: number) =>
+    components[(Math.floor(xPct / 34) + Math.floor(yPct / 34) * 3) % components.length];
+
+  return {
+    id: 'mock',
+
+    async analyzeImageAndCreatePlan(base64Image, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      // Fixtures go through the same validation as live responses
+      return parseRepairResponse(plans[hashString(base64Image) % plans.length]).plan;
+    },
+
+    async analyzeFrameSequence(frames, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      const raw = plans[hashString(frames.length ? frames[0].base64 : '') % plans.length];
+      // Cite the frame with the most motion, which is what a real model would flag
+      const busiest = frames.reduce((best, frame, index) => frame.motionScore > frames[best].motionScore ? index : best, 0);
+      return parseRepairResponse({
+        ...raw,
+        evidence_frames: frames.length ? [{ frame_index: busiest, observation: raw.issue_diagnosis }] : undefined,
+      }, { frameTimestamps: frames.map(frame => frame.timestampMs) }).plan;
+    },
+
+    async verifyRepairStep(_base64Image, stepInstruction, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      return verifications.shift() || { completed: true, feedback: `Looks good: "${stepInstruction}" is done.` };
+    },
+
+    async verifyFrameSequence(_frames, stepInstruction, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      return verifications.shift() || { completed: true, feedback: `Looks good: "${stepInstruction}" is done.` };
+    },
+
+    // Retries the stuck step with a closer look first, using the last check's feedback
+    async replanFromStep(_base64Image, { plan, stepIndex, failures }, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      const step = plan.steps[stepIndex];
+      const cue = { ...step.visualCue.coordinates, type: step.visualCue.type, label: step.visualCue.label };
+      return parseRepairResponse({
+        object_name: plan.objectName,
+        issue_diagnosis: plan.issueDiagnosis,
+        steps: [
+          {
+            title: `Take a closer look: ${step.title}`,
+            instruction: failures.length
+              ? `The last check said: ${failures[failures.length - 1]} Move closer and check the part before trying again.`
+              : 'Move closer and check the part before trying again.',
+            visual_cue: cue,
+          },
+          { title: step.title, instruction: step.instruction, tool_needed: step.toolNeeded, visual_cue: cue },
+        ],
+      }).plan;
+    },
+
+    // Audio can't be transcribed offline, so the mock "hears" the configured transcript
+    async askRepairAssistant({ instruction, history }, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      const transcript = options.assistantTranscript || 'How do I do this step?';
+      const command = parseVoiceCommand(transcript);
+      if (command) return { transcript, answer: '', command };
+      const followUp = history.length ? ' As I said before, go gently.' : '';
+      return { transcript, answer: (options.assistantReply || `Take it slowly. For this step: ${instruction}`) + followUp };
+    },
+
+    async identifyComponentAtPoint(_base64Image, xPct, yPct, _objectName, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      return componentAt(xPct, yPct);
+    },
+
+    // A region is looked up by its centre, like a tap
+    async identifyComponentInRegion(_base64Image, region, _objectName, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      return componentAt((region.xmin + region.xmax) / 20, (region.ymin + region.ymax) / 20);
+    },
+
+    async identifyAllComponents(_base64Image, objectName, requestOptions = {}) {
+      await delay(latencyMs, requestOptions.signal);
+      return { objectName: objectName || plans[0].object_name, components };
+    },
+  };
+};
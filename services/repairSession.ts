@@ -0,0 +1,296 @@
+import { RepairPlan, RepairSession, KeyFrame, VerificationResult, VerificationRecord, SafetyStop, AssistantExchange, StepEvidence, UsageTally, PlanTemplate, DiagnosisFrame } from '../types';
+import { buildChecklist, toReplacedParts } from './checklist';
+import { getNextStepIndex, getSessionPath, isDecisionStep, mergeReplannedSteps } from './planNavigation';
+import { planFromTemplate } from './planTemplates';
+import { SequenceFrame } from './frameSequence';
+
+// Frames are large; keep only the most recent ones per session
+const MAX_KEY_FRAMES = 12;
+const MAX_CONVERSATION_FRAMES = 8;
+
+const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const touch = (session: RepairSession, changes: Partial<RepairSession>): RepairSession => ({
+  ...session,
+  ...changes,
+  updatedAt: Date.now(),
+});
+
+export const createSession = (plan: RepairPlan, scanFrame?: string): RepairSession => {
+  const now = Date.now();
+  return {
+    id: createSessionId(),
+    createdAt: now,
+    updatedAt: now,
+    status: 'active',
+    plan,
+    currentStepIndex: 0,
+    stepTimings: [{ stepIndex: 0, startedAt: now }],
+    verifications: [],
+    assistantExchanges: [],
+    keyFrames: scanFrame ? [{ stepIndex: 0, timestamp: now, kind: 'scan', image: scanFrame }] : [],
+    checklist: buildChecklist(plan),
+    path: [0],
+  };
+};
+
+/**
+ * Starts a session on a saved fix. Given the session a scan just created,
+ * swaps its plan for the template's before any step has begun, keeping its
+ * id and usage so the scan isn't left behind as a second, unfinished repair.
+ */
+export const createSessionFromTemplate = (template: PlanTemplate, scanFrame?: string, replacing?: RepairSession): RepairSession => {
+  // The template's cue coordinates were drawn on its own reference frame
+  const fresh = createSession(planFromTemplate(template), template.referenceFrame || scanFrame);
+  return {
+    ...fresh,
+    ...(replacing ? { id: replacing.id, createdAt: replacing.createdAt, usage: replacing.usage } : {}),
+    template: { id: template.id, name: template.name, revision: template.revision },
+  };
+};
+
+// Keeps the clip frames the diagnosis cites so a resumed session and its report can still show them
+export const recordDiagnosisFrames = (session: RepairSession, frames: SequenceFrame[]): RepairSession => {
+  const cited = (session.plan.diagnosisEvidence || []).map(evidence => evidence.frameIndex);
+  const diagnosisFrames = frames
+    .map((frame, frameIndex) => ({ frameIndex, timestampMs: frame.timestampMs, image: `data:image/jpeg;base64,${frame.base64}` }))
+    .filter(frame => cited.indexOf(frame.frameIndex) !== -1);
+  return diagnosisFrames.length ? touch(session, { diagnosisFrames }) : session;
+};
+
+export const getDiagnosisFrame = (session: RepairSession, frameIndex: number): DiagnosisFrame | undefined =>
+  (session.diagnosisFrames || []).find(frame => frame.frameIndex === frameIndex);
+
+// Sessions saved before the checklist existed get one built on load
+export const withChecklist = (session: RepairSession): RepairSession =>
+  session.checklist ? session : { ...session, checklist: buildChecklist(session.plan) };
+
+export const setChecklistItemChecked = (session: RepairSession, itemId: string, checked: boolean): RepairSession =>
+  touch(session, {
+    checklist: session.checklist.map(item => item.id === itemId ? { ...item, checked } : item),
+  });
+
+// Keeps plan.replacedParts in step with the checklist so reports list them
+export const setPartReplaced = (session: RepairSession, itemId: string, replaced: boolean): RepairSession => {
+  const checklist = session.checklist.map(item => item.id === itemId && item.kind === 'part' ? { ...item, replaced } : item);
+  return touch(session, {
+    checklist,
+    plan: { ...session.plan, replacedParts: toReplacedParts(checklist) },
+  });
+};
+
+export const addKeyFrame = (session: RepairSession, kind: KeyFrame['kind'], image: string): RepairSession => {
+  const keyFrames = [...session.keyFrames, { stepIndex: session.currentStepIndex, timestamp: Date.now(), kind, image }];
+  if (keyFrames.length > MAX_KEY_FRAMES) {
+    // Drop the oldest earlier frame but never a scan or re-plan frame: cue coordinates refer to them.
+    // When those are all there is, go over the cap rather than lose one or the frame just added.
+    const oldest = keyFrames.findIndex((frame, index) => index < keyFrames.length - 1 && frame.kind !== 'scan' && frame.kind !== 'replan');
+    if (oldest !== -1) keyFrames.splice(oldest, 1);
+  }
+  return touch(session, { keyFrames });
+};
+
+// stepIndex defaults to the current step; queued offline requests pass the step they were made on
+export const recordVerification = (session: RepairSession, result: VerificationResult, stepIndex = session.currentStepIndex): RepairSession =>
+  touch(session, {
+    verifications: [...session.verifications, {
+      stepIndex,
+      timestamp: Date.now(),
+      completed: result.completed,
+      feedback: result.feedback,
+      ...(result.confidence !== undefined ? { confidence: result.confidence } : {}),
+    }],
+  });
+
+// The user's answer to a check the model wasn't sure about, kept on that check's record
+export const confirmVerification = (session: RepairSession, confirmed: boolean, stepIndex = session.currentStepIndex): RepairSession => {
+  const index = session.verifications.map(record => record.stepIndex).lastIndexOf(stepIndex);
+  if (index === -1) return session;
+  return touch(session, {
+    verifications: session.verifications.map((record, i) => i === index ? { ...record, confirmedByUser: confirmed } : record),
+  });
+};
+
+export const recordAssistantExchange = (
+  session: RepairSession,
+  question: string,
+  answer: string,
+  stepIndex = session.currentStepIndex,
+  details: Pick<AssistantExchange, 'frame' | 'command'> = {}
+): RepairSession => {
+  const exchanges = [...session.assistantExchanges, { stepIndex, timestamp: Date.now(), question, answer, ...details }];
+  // Text is kept for every turn, frames only for the latest ones
+  const keepFramesFrom = exchanges.length - MAX_CONVERSATION_FRAMES;
+  return touch(session, {
+    assistantExchanges: exchanges.map((exchange, index) =>
+      index < keepFramesFrom && exchange.frame ? { ...exchange, frame: undefined } : exchange
+    ),
+  });
+};
+
+const closeCurrentTiming = (session: RepairSession, now: number) =>
+  session.stepTimings.map(timing =>
+    timing.stepIndex === session.currentStepIndex && !timing.completedAt ? { ...timing, completedAt: now } : timing
+  );
+
+/**
+ * Closes the timing of the current step and moves to `nextIndex` (by default
+ * wherever the plan leads), or completes the session when there is nowhere to go.
+ */
+export const advanceSession = (session: RepairSession, nextIndex = getNextStepIndex(session.plan, session.currentStepIndex)): RepairSession => {
+  const now = Date.now();
+  const stepTimings = closeCurrentTiming(session, now);
+  if (nextIndex === null) {
+    return touch(session, { stepTimings, status: 'completed' });
+  }
+  return touch(session, {
+    stepTimings: [...stepTimings, { stepIndex: nextIndex, startedAt: now }],
+    currentStepIndex: nextIndex,
+    path: [...getSessionPath(session), nextIndex],
+  });
+};
+
+// Answers the current decision step and follows the chosen branch
+export const recordDecision = (session: RepairSession, optionIndex: number): RepairSession => {
+  const step = session.plan.steps[session.currentStepIndex];
+  if (!isDecisionStep(step) || !step.decision.options[optionIndex]) return session;
+  const answered = touch(session, {
+    decisions: [...(session.decisions || []), {
+      stepIndex: session.currentStepIndex,
+      timestamp: Date.now(),
+      question: step.decision.question,
+      answer: step.decision.options[optionIndex].label,
+    }],
+  });
+  return advanceSession(answered, getNextStepIndex(session.plan, session.currentStepIndex, optionIndex));
+};
+
+// Steps back along the visited path; the revisited step gets a fresh timing entry
+export const goBackSession = (session: RepairSession): RepairSession => {
+  const path = getSessionPath(session);
+  if (path.length < 2) return session;
+  const previousIndex = path[path.length - 2];
+  return touch(session, {
+    stepTimings: [...session.stepTimings, { stepIndex: previousIndex, startedAt: Date.now() }],
+    currentStepIndex: previousIndex,
+    path: path.slice(0, -1),
+  });
+};
+
+/**
+ * Replaces the current step and everything not yet done with `replan`'s
+ * steps. `frame` is what the new cue coordinates were produced from.
+ */
+export const replanSession = (session: RepairSession, replan: RepairPlan, reason: string, frame: string): RepairSession => {
+  const now = Date.now();
+  const completedPath = getSessionPath(session).slice(0, -1);
+  const plan = mergeReplannedSteps(session.plan, completedPath, session.currentStepIndex, replan.steps);
+  const firstNewStepIndex = session.plan.steps.length;
+  // Keep ticks for items that are still needed
+  const checklist = buildChecklist(plan).map(item => {
+    const previous = session.checklist.find(entry => entry.id === item.id);
+    return previous ? { ...item, checked: previous.checked, replaced: previous.replaced } : item;
+  });
+  return touch(session, {
+    plan: { ...plan, replacedParts: toReplacedParts(checklist) },
+    checklist,
+    stepTimings: [...session.stepTimings, { stepIndex: firstNewStepIndex, startedAt: now }],
+    currentStepIndex: firstNewStepIndex,
+    path: [...completedPath, firstNewStepIndex],
+    replans: [...(session.replans || []), { fromStepIndex: session.currentStepIndex, firstNewStepIndex, timestamp: now, reason }],
+    keyFrames: [...session.keyFrames, { stepIndex: firstNewStepIndex, timestamp: now, kind: 'replan', image: frame }],
+  });
+};
+
+// The frame a step's cue coordinates were produced from: the latest re-plan at or before it, else the scan
+export const getReferenceFrame = (session: RepairSession, stepIndex: number): string | null => {
+  const replans = session.keyFrames.filter(frame => frame.kind === 'replan' && frame.stepIndex <= stepIndex);
+  const frame = replans.length
+    ? replans.reduce((latest, candidate) => candidate.stepIndex > latest.stepIndex ? candidate : latest)
+    : session.keyFrames.find(candidate => candidate.kind === 'scan');
+  return frame ? frame.image : null;
+};
+
+export const getStepEvidence = (session: RepairSession, stepIndex: number): StepEvidence | undefined =>
+  (session.evidence || []).find(entry => entry.stepIndex === stepIndex);
+
+const updateEvidence = (session: RepairSession, stepIndex: number, changes: Partial<StepEvidence>): RepairSession => {
+  const evidence = session.evidence || [];
+  const exists = !!getStepEvidence(session, stepIndex);
+  return touch(session, {
+    evidence: exists
+      ? evidence.map(entry => entry.stepIndex === stepIndex ? { ...entry, ...changes } : entry)
+      : [...evidence, { stepIndex, ...changes }],
+  });
+};
+
+// Only the first look counts as "before"; coming back to a step keeps it
+export const recordBeforeFrame = (session: RepairSession, image: string, stepIndex = session.currentStepIndex): RepairSession => {
+  const existing = getStepEvidence(session, stepIndex);
+  if (existing && existing.before) return session;
+  return updateEvidence(session, stepIndex, { before: { image, timestamp: Date.now() } });
+};
+
+// The frame a check passed on; a later pass on the same step replaces it
+export const recordAfterFrame = (
+  session: RepairSession,
+  image: string,
+  check: Pick<VerificationRecord, 'feedback' | 'confidence' | 'confirmedByUser'>,
+  stepIndex = session.currentStepIndex
+): RepairSession =>
+  updateEvidence(session, stepIndex, {
+    after: {
+      image,
+      timestamp: Date.now(),
+      feedback: check.feedback,
+      ...(check.confidence !== undefined ? { confidence: check.confidence } : {}),
+      ...(check.confirmedByUser !== undefined ? { confirmedByUser: check.confirmedByUser } : {}),
+    },
+  });
+
+// Steps with at least one photo, in the order they were first photographed
+export const listStepEvidence = (session: RepairSession): StepEvidence[] => {
+  const firstTaken = (entry: StepEvidence) => Math.min(
+    entry.before ? entry.before.timestamp : Infinity,
+    entry.after ? entry.after.timestamp : Infinity
+  );
+  return (session.evidence || [])
+    .filter(entry => entry.before || entry.after)
+    .sort((a, b) => firstTaken(a) - firstTaken(b));
+};
+
+// Where the user answered an uncertain check, their answer counts rather than the model's
+export const isCheckPassed = (record: VerificationRecord) => record.confirmedByUser ?? record.completed;
+
+// Failed checks on the current visit to the current step; repeated failures suggest a re-plan
+export const countFailedChecks = (session: RepairSession): number => {
+  const visits = session.stepTimings.filter(timing => timing.stepIndex === session.currentStepIndex);
+  const since = visits.length ? visits[visits.length - 1].startedAt : 0;
+  return session.verifications.filter(record =>
+    record.stepIndex === session.currentStepIndex
+      && record.timestamp >= since
+      && !isCheckPassed(record)
+  ).length;
+};
+
+export const isStepAcknowledged = (session: RepairSession, stepIndex: number) =>
+  !!session.acknowledgedSteps && session.acknowledgedSteps.indexOf(stepIndex) !== -1;
+
+export const acknowledgeHazards = (session: RepairSession, stepIndex = session.currentStepIndex): RepairSession =>
+  isStepAcknowledged(session, stepIndex)
+    ? session
+    : touch(session, { acknowledgedSteps: [...(session.acknowledgedSteps || []), stepIndex] });
+
+// A stopped session can't be resumed; the report records why
+export const stopSession = (session: RepairSession, source: SafetyStop['source'], reason: string, stepIndex = session.currentStepIndex): RepairSession =>
+  touch(session, {
+    status: 'stopped',
+    safetyStop: { stepIndex, timestamp: Date.now(), source, reason },
+  });
+
+// The pipeline keeps the running tally; the session keeps a copy so it is saved and reported
+export const recordUsage = (session: RepairSession, usage: UsageTally): RepairSession =>
+  touch(session, { usage });
+
+export const abandonSession = (session: RepairSession): RepairSession =>
+  session.status === 'active' ? touch(session, { status: 'abandoned' }) : session;
@@ -0,0 +1,306 @@
+import { RequestUsage, UsageTally } from '../types';
+import type { VisionProvider, RequestOptions, TokenUsage } from './visionProvider';
+import { abortable, createAbortError, delay, isAbortError } from './abort';
+import { RepairPlanValidationError, describeAnalysisError } from './planValidation';
+
+export type Operation = Exclude<keyof VisionProvider, 'id'>;
+
+// How long one attempt may take before it is abandoned; planning and multi-frame calls do the most work
+const TIMEOUT_MS: Record<Operation, number> = {
+  analyzeImageAndCreatePlan: 60000,
+  analyzeFrameSequence: 90000,
+  replanFromStep: 60000,
+  verifyRepairStep: 30000,
+  verifyFrameSequence: 45000,
+  askRepairAssistant: 30000,
+  identifyComponentAtPoint: 25000,
+  identifyComponentInRegion: 25000,
+  identifyAllComponents: 45000,
+};
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 10000;
+// Enough for one user; more in flight only trips the per-minute rate limit sooner
+const MAX_CONCURRENT = 2;
+
+export type RequestErrorKind = 'timeout' | 'rate-limit' | 'network' | 'offline' | 'server' | 'invalid-response' | 'rejected';
+
+const RETRYABLE: RequestErrorKind[] = ['timeout', 'rate-limit', 'network', 'server', 'invalid-response'];
+
+/**
+ * A model call that failed for good, after any retries. `kind` says what
+ * went wrong in terms the UI can explain; `cause` is the last underlying error.
+ */
+export class RequestError extends Error {
+  kind: RequestErrorKind;
+  operation: Operation;
+  attempts: number;
+  cause: unknown;
+
+  constructor(kind: RequestErrorKind, operation: Operation, attempts: number, cause: unknown) {
+    super(`${operation} failed (${kind}) after ${attempts} attempt${attempts === 1 ? '' : 's'}${cause instanceof Error && cause.message ? `: ${cause.message}` : ''}`);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.operation = operation;
+    this.attempts = attempts;
+    this.cause = cause;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, RequestError.prototype);
+  }
+}
+
+const classify = (err: unknown): RequestErrorKind => {
+  if (err instanceof RequestError) return err.kind;
+  if (err instanceof RepairPlanValidationError || err instanceof SyntaxError) return 'invalid-response';
+  const status = err && typeof err === 'object' ? (err as { status?: unknown }).status : undefined;
+  if (typeof status === 'number') {
+    if (status === 429) return 'rate-limit';
+    if (status >= 500) return 'server';
+    if (status === 408) return 'timeout';
+    return 'rejected';
+  }
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return 'offline';
+  // fetch reports a dropped connection as a TypeError
+  if (err instanceof TypeError) return 'network';
+  return 'rejected';
+};
+
+// Exponential with jitter so retries from several calls don't land together; rate limits wait longer
+const backoffMs = (attempt: number, kind: RequestErrorKind) => {
+  const base = BACKOFF_BASE_MS * Math.pow(2, attempt - 1) * (kind === 'rate-limit' ? 2 : 1);
+  return Math.min(BACKOFF_MAX_MS, base) * (0.75 + Math.random() * 0.5);
+};
+
+// Human-readable explanation for the error screen and the assistant bubble
+export const describeRequestError = (err: unknown): string => {
+  if (!(err instanceof RequestError)) return describeAnalysisError(err);
+  switch (err.kind) {
+    case 'timeout':
+      return 'The model took too long to answer. Check your connection and try again.';
+    case 'rate-limit':
+      return 'Too many requests right now. Wait a minute and try again.';
+    case 'network':
+      return "Couldn't reach the model. Check your connection and try again.";
+    case 'offline':
+      return "You're offline. Try again when you reconnect.";
+    case 'server':
+      return 'The model service is having trouble. Try again in a moment.';
+    case 'invalid-response':
+      return err.cause instanceof RepairPlanValidationError
+        ? describeAnalysisError(err.cause)
+        : "The model's answer couldn't be read. Please try again.";
+    default:
+      return err.operation === 'analyzeImageAndCreatePlan' || err.operation === 'analyzeFrameSequence'
+        ? describeAnalysisError(err.cause)
+        : 'The model refused the request. Please try again.';
+  }
+};
+
+const emptyUsage = (): RequestUsage => ({ calls: 0, failures: 0, retries: 0, bytesSent: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 });
+
+export const createUsageTally = (): UsageTally => ({ ...emptyUsage(), byOperation: {} });
+
+const addUsage = (usage: RequestUsage, delta: Partial<RequestUsage>): RequestUsage => ({
+  calls: usage.calls + (delta.calls || 0),
+  failures: usage.failures + (delta.failures || 0),
+  retries: usage.retries + (delta.retries || 0),
+  bytesSent: usage.bytesSent + (delta.bytesSent || 0),
+  promptTokens: usage.promptTokens + (delta.promptTokens || 0),
+  outputTokens: usage.outputTokens + (delta.outputTokens || 0),
+  totalTokens: usage.totalTokens + (delta.totalTokens || 0),
+});
+
+export const addToTally = (tally: UsageTally, operation: Operation, delta: Partial<RequestUsage>): UsageTally => ({
+  ...addUsage(tally, delta),
+  byOperation: { ...tally.byOperation, [operation]: addUsage(tally.byOperation[operation] || emptyUsage(), delta) },
+});
+
+let tally = createUsageTally();
+const usageListeners: ((tally: UsageTally) => void)[] = [];
+
+const record = (operation: Operation, delta: Partial<RequestUsage>) => {
+  tally = addToTally(tally, operation, delta);
+  usageListeners.forEach(listener => listener(tally));
+};
+
+export const getUsageTally = () => tally;
+
+// A new session starts from zero; a resumed one carries on from what it saved
+export const resetUsageTally = (from?: UsageTally) => {
+  tally = from || createUsageTally();
+  usageListeners.forEach(listener => listener(tally));
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+export const formatUsage = (usage: RequestUsage) =>
+  `${usage.calls} call${usage.calls === 1 ? '' : 's'} · ${formatBytes(usage.bytesSent)} sent · ${usage.totalTokens.toLocaleString()} tokens`
+  + (usage.retries ? ` · ${usage.retries} retr${usage.retries === 1 ? 'y' : 'ies'}` : '')
+  + (usage.failures ? ` · ${usage.failures} failed` : '');
+
+export const subscribeToUsage = (listener: (tally: UsageTally) => void) => {
+  usageListeners.push(listener);
+  return () => {
+    const index = usageListeners.indexOf(listener);
+    if (index !== -1) usageListeners.splice(index, 1);
+  };
+};
+
+// Strings are sent as-is in the JSON body, base64 images and audio included
+const payloadBytes = (value: unknown): number => {
+  if (typeof value === 'string') return value.length;
+  if (Array.isArray(value)) return value.reduce((total: number, item) => total + payloadBytes(item), 0);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).reduce((total, key) => total + payloadBytes((value as Record<string, unknown>)[key]), 0);
+  }
+  return 0;
+};
+
+// Cheap identity for the arguments of a call; long strings (images) are sampled rather than compared in full
+const fingerprint = (value: unknown): string => {
+  if (typeof value === 'string') {
+    if (value.length < 256) return JSON.stringify(value);
+    let hash = 5381;
+    for (let i = 0; i < value.length; i += 16) hash = ((hash * 33) ^ value.charCodeAt(i)) | 0;
+    return `#${value.length}:${hash}`;
+  }
+  if (Array.isArray(value)) return `[${value.map(fingerprint).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${key}:${fingerprint((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return String(value);
+};
+
+let active = 0;
+const waiting: (() => void)[] = [];
+
+const acquireSlot = (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (active < MAX_CONCURRENT) {
+    active++;
+    resolve();
+    return;
+  }
+  const take = () => {
+    signal.removeEventListener('abort', giveUp);
+    active++;
+    resolve();
+  };
+  // A caller that stops waiting must leave the queue, or the slot it would have taken is lost
+  const giveUp = () => {
+    const index = waiting.indexOf(take);
+    if (index !== -1) waiting.splice(index, 1);
+    reject(createAbortError());
+  };
+  waiting.push(take);
+  signal.addEventListener('abort', giveUp, { once: true });
+});
+
+const releaseSlot = () => {
+  active--;
+  const next = waiting.shift();
+  if (next) next();
+};
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+
+// The same call made again while the first is still running (a double tap) shares its result
+const inFlight: Record<string, InFlight> = {};
+
+const runWithRetries = async <T>(operation: Operation, run: (options: RequestOptions) => Promise<T>, options: RequestOptions, signal: AbortSignal, bytes: number): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, TIMEOUT_MS[operation]);
+    let usage = null as TokenUsage | null;
+    try {
+      await acquireSlot(controller.signal);
+      try {
+        // Cancelled while queued: don't start a call nobody will wait for
+        if (controller.signal.aborted) throw createAbortError();
+        record(operation, { calls: 1, bytesSent: bytes });
+        // abortable: a backend that ignores the signal still can't hold the caller past the timeout
+        const result = await abortable(run({ ...options, signal: controller.signal, onUsage: reported => { usage = reported; } }), controller.signal);
+        return result;
+      } finally {
+        releaseSlot();
+        if (usage) record(operation, usage);
+      }
+    } catch (err) {
+      if (signal.aborted) throw createAbortError();
+      if (isAbortError(err) && !timedOut) throw err;
+      const kind = timedOut ? 'timeout' : classify(err);
+      if (RETRYABLE.indexOf(kind) === -1 || attempt >= MAX_ATTEMPTS) {
+        record(operation, { failures: 1 });
+        throw new RequestError(kind, operation, attempt, err);
+      }
+      record(operation, { retries: 1 });
+      await delay(backoffMs(attempt, kind), signal);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', abort);
+    }
+  }
+};
+
+const request = <T>(operation: Operation, args: unknown[], run: (options: RequestOptions) => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+  const key = `${operation}|${fingerprint(args)}|${options.language || ''}`;
+  let entry = inFlight[key];
+  if (!entry) {
+    const controller = new AbortController();
+    const promise = runWithRetries(operation, run, options, controller.signal, payloadBytes(args));
+    entry = { promise, controller, callers: 0 };
+    inFlight[key] = entry;
+    const settled = () => { if (inFlight[key] === entry) delete inFlight[key]; };
+    promise.then(settled, settled);
+  }
+
+  // The shared call is only cancelled once everyone waiting on it has given up
+  const shared = entry;
+  shared.callers++;
+  const { signal } = options;
+  if (signal) {
+    const leave = () => {
+      shared.callers--;
+      if (shared.callers === 0) shared.controller.abort();
+    };
+    if (signal.aborted) leave();
+    else signal.addEventListener('abort', leave, { once: true });
+  }
+  return abortable(shared.promise as Promise<T>, signal);
+};
+
+/**
+ * Wraps a provider so every call gets a timeout, retries with backoff on
+ * transient failures, cancellation, de-duplication of repeated calls, a cap
+ * on concurrent calls and a place in the usage tally. Failures that are
+ * given up on surface as RequestError.
+ */
+export const withRequestPipeline = (provider: VisionProvider): VisionProvider => ({
+  id: provider.id,
+  analyzeImageAndCreatePlan: (base64Image, options) =>
+    request('analyzeImageAndCreatePlan', [base64Image], opts => provider.analyzeImageAndCreatePlan(base64Image, opts), options),
+  verifyRepairStep: (base64Image, stepInstruction, options) =>
+    request('verifyRepairStep', [base64Image, stepInstruction], opts => provider.verifyRepairStep(base64Image, stepInstruction, opts), options),
+  askRepairAssistant: (assistantRequest, options) =>
+    request('askRepairAssistant', [assistantRequest], opts => provider.askRepairAssistant(assistantRequest, opts), options),
+  identifyComponentAtPoint: (base64Image, xPct, yPct, objectName, options) =>
+    request('identifyComponentAtPoint', [base64Image, xPct, yPct, objectName], opts => provider.identifyComponentAtPoint(base64Image, xPct, yPct, objectName, opts), options),
+  identifyComponentInRegion: (base64Image, region, objectName, options) =>
+    request('identifyComponentInRegion', [base64Image, region, objectName], opts => provider.identifyComponentInRegion(base64Image, region, objectName, opts), options),
+  identifyAllComponents: (base64Image, objectName, options) =>
+    request('identifyAllComponents', [base64Image, objectName], opts => provider.identifyAllComponents(base64Image, objectName, opts), options),
+  analyzeFrameSequence: (frames, options) =>
+    request('analyzeFrameSequence', [frames], opts => provider.analyzeFrameSequence(frames, opts), options),
+  verifyFrameSequence: (frames, stepInstruction, options) =>
+    request('verifyFrameSequence', [frames, stepInstruction], opts => provider.verifyFrameSequence(frames, stepInstruction, opts), options),
+  replanFromStep: (base64Image, context, options) =>
+    request('replanFromStep', [base64Image, context], opts => provider.replanFromStep(base64Image, context, opts), options),
+});
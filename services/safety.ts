@@ -0,0 +1,107 @@
+import { RepairStep, StepHazard, HazardCategory, HazardSeverity, VerificationResult, ComponentInfo } from '../types';
+
+export const HAZARD_CATEGORIES: HazardCategory[] = ['electrical', 'thermal', 'pressure', 'chemical', 'sharp', 'lifting'];
+export const HAZARD_SEVERITIES: HazardSeverity[] = ['low', 'medium', 'high'];
+
+export const HAZARD_LABELS: Record<HazardCategory, string> = {
+  electrical: 'Electrical',
+  thermal: 'Heat',
+  pressure: 'Pressure',
+  chemical: 'Chemical',
+  sharp: 'Sharp Edges',
+  lifting: 'Heavy Lifting',
+};
+
+const CATEGORY_PATTERNS: [HazardCategory, RegExp][] = [
+  ['electrical', /electric|mains|voltage|live|power|shock|capacitor|wire|plug/i],
+  ['thermal', /heat|hot|burn|scald|temperature|steam/i],
+  ['pressure', /pressur|spring|compressed|gas|water supply|valve/i],
+  ['chemical', /chemical|acid|fume|solvent|refrigerant|battery acid|toxic/i],
+  ['sharp', /sharp|blade|edge|glass|cut/i],
+  ['lifting', /heavy|lift|weight|tip over|crush/i],
+];
+
+// Warnings that mean a mistake can kill or maim rather than just hurt
+const HIGH_SEVERITY_PATTERN = /mains|high voltage|capacitor|gas|never|fatal|severe|death/i;
+
+// Things that burn, melt or carry current, so "smoke detector" and "melted ice" don't read as danger
+const DAMAGED_PART = '(?:wires?|wiring|insulation|cables?|cords?|plugs?|sockets?|outlets?|terminals?|plastic|casing|housing|board|motor)';
+
+// Phrases that describe a dangerous condition in the frame, not single words: "smoke coming from", "wire has melted"
+const STOP_PATTERN = new RegExp([
+  'smoke (?:is |was )?(?:coming|rising|pouring|escaping) (?:from|out)',
+  '(?:is|are) smoking',
+  `smoking ${DAMAGED_PART}`,
+  'burning smell|smell of burning',
+  'sparks? (?:are |is )?(?:coming|flying|shooting) (?:from|out)',
+  '(?:is|are) (?:sparking|arcing)',
+  `(?:sparking|arcing) ${DAMAGED_PART}`,
+  'scorch(?:ed|ing| marks?)',
+  `${DAMAGED_PART} (?:has |have |is |are )?(?:melted|melting)`,
+  `melted ${DAMAGED_PART}`,
+  'exposed (?:live )?(?:wire|conductor)',
+  'gas (?:leak|smell)|smell of gas',
+  'swollen battery|bulging (?:battery|capacitor)',
+  'refrigerant leak',
+].join('|'), 'i');
+
+// Hazards named on their own in a list after a negation: "no smoke, sparks or ..."
+const NEGATED_NOUN = '(?:smoke|sparks?|sparking|arcing|scorching|scorch marks?|burning smell|melting|fumes)';
+// A negation right before a stop term, allowing only words that don't change what is negated: "no visible scorch marks", "isn't sparking"
+const NEGATED_BEFORE = new RegExp(
+  `(?:\\b(?:no|not|without|never|nor)|n't)\\s+(?:(?:any|visible|obvious|further|more|signs? of|evidence of|traces? of)\\s+)*(?:${NEGATED_NOUN}\\s*(?:,|,?\\s*(?:or|and|nor))\\s*)*$`,
+  'i',
+);
+// Between terms of a negated list: "no sparks, smoke or burning smell"
+const LIST_JOINER = /^\s*(?:,|,?\s*(?:or|and|nor))\s*$/i;
+
+// Negation elsewhere in the sentence doesn't count: "Sparks are coming from the terminal, do not touch it" still stops
+const isAlarming = (sentence: string) => {
+  const pattern = new RegExp(STOP_PATTERN.source, 'gi');
+  let negatedEnd: number | null = null; // End of the last term, which was negated if we got this far
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sentence))) {
+    const negated = NEGATED_BEFORE.test(sentence.slice(0, match.index))
+      || (negatedEnd !== null && LIST_JOINER.test(sentence.slice(negatedEnd, match.index)));
+    if (!negated) return true;
+    negatedEnd = match.index + match[0].length;
+  }
+  return false;
+};
+
+/**
+ * Builds hazards from the free-text safetyWarning of plans made before the
+ * structured model existed. Anything unrecognised is treated as electrical,
+ * the most common case for the objects people scan.
+ */
+export const inferHazards = (safetyWarning?: string): StepHazard[] => {
+  if (!safetyWarning) return [];
+  const categories = CATEGORY_PATTERNS.filter(([, pattern]) => pattern.test(safetyWarning)).map(([category]) => category);
+  return (categories.length ? categories : ['electrical' as HazardCategory]).map(category => ({
+    category,
+    severity: HIGH_SEVERITY_PATTERN.test(safetyWarning) ? 'high' : 'medium',
+    description: safetyWarning,
+    ppe: [],
+    preconditions: [],
+  }));
+};
+
+export const getStepHazards = (step: RepairStep): StepHazard[] =>
+  step.hazards && step.hazards.length ? step.hazards : inferHazards(step.safetyWarning);
+
+export const requiresAcknowledgement = (step: RepairStep) =>
+  getStepHazards(step).some(hazard => hazard.severity === 'high');
+
+/**
+ * Reason to stop the guide, or null. The model's explicit hazard decides;
+ * the feedback of a failed check is scanned as a fallback for models that
+ * leave the field empty. A passed check and an inspector's description of a
+ * part are never scanned: "the smoke detector cover is closed" is not a fire.
+ */
+export const findStopCondition = (result: VerificationResult | ComponentInfo): string | null => {
+  if (result.hazard) return result.hazard;
+  if (!('feedback' in result) || result.completed) return null;
+  // "No sparks or smoke" is reassurance, not a stop
+  const alarming = result.feedback.split(/[.!?]\s/).some(isAlarming);
+  return alarming ? result.feedback : null;
+};
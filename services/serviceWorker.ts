@@ -0,0 +1,9 @@
+// Registers public/sw.js, which caches the app shell and the built bundle for offline use
+export const registerServiceWorker = () => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.warn('Service worker registration failed', err);
+    });
+  });
+};
@@ -0,0 +1,296 @@
+import { EvidenceFrame, FrameEvidence, RepairSession, VisualCue } from '../types';
+import { getDiagnosisFrame, getStepEvidence, isStepAcknowledged, listStepEvidence } from './repairSession';
+import { formatConfidence } from './confidence';
+import { getCueLabel, getStepCues, isUnsureCue } from './cueLayout';
+import { COORDINATE_MAX } from './planValidation';
+import { formatUsage } from './requestPipeline';
+
+// 'pdf' is the HTML report sent through the browser's print dialog, which always offers "Save as PDF"
+export type ReportFormat = 'json' | 'md' | 'html' | 'pdf';
+
+const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString() : '—';
+
+const formatDuration = (start: number, end?: number) => {
+  if (!end) return 'in progress';
+  const seconds = Math.round((end - start) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const withoutImage = ({ image, ...frame }: EvidenceFrame) => frame;
+
+const formatClipTime = (evidence: FrameEvidence) => `${((evidence.timestampMs || 0) / 1000).toFixed(1)}s`;
+
+// Frames are left out of the JSON report by default to keep service logs small
+export const sessionToJson = (session: RepairSession, includeFrames = false): string =>
+  JSON.stringify(includeFrames ? session : {
+    ...session,
+    keyFrames: session.keyFrames.map(({ image, ...frame }) => frame),
+    assistantExchanges: session.assistantExchanges.map(({ frame, ...exchange }) => exchange),
+    evidence: (session.evidence || []).map(entry => ({
+      stepIndex: entry.stepIndex,
+      before: entry.before && withoutImage(entry.before),
+      after: entry.after && withoutImage(entry.after),
+    })),
+    diagnosisFrames: (session.diagnosisFrames || []).map(({ image, ...frame }) => frame),
+  }, null, 2);
+
+export const sessionToMarkdown = (session: RepairSession): string => {
+  const { plan } = session;
+  const lines: string[] = [
+    `# Repair Report: ${plan.objectName}`,
+    '',
+    `- **Session:** ${session.id}`,
+    `- **Status:** ${session.status}`,
+    `- **Started:** ${formatTime(session.createdAt)}`,
+    `- **Last update:** ${formatTime(session.updatedAt)}`,
+    `- **Diagnosis:** ${plan.issueDiagnosis}${plan.diagnosisConfidence !== undefined ? ` (${formatConfidence(plan.diagnosisConfidence)} confidence)` : ''}`,
+    ...(session.template ? [`- **Plan:** saved fix "${session.template.name}" (rev ${session.template.revision})`] : []),
+    '',
+  ];
+
+  if (plan.alternativeDiagnoses && plan.alternativeDiagnoses.length) {
+    lines.push('## Other Possible Causes', '');
+    plan.alternativeDiagnoses.forEach(alternative => {
+      const confidence = alternative.confidence !== undefined ? ` (${formatConfidence(alternative.confidence)})` : '';
+      lines.push(`- ${alternative.diagnosis}${confidence}${alternative.check ? ` — ${alternative.check}` : ''}`);
+    });
+    lines.push('');
+  }
+
+  if (plan.diagnosisEvidence && plan.diagnosisEvidence.length) {
+    lines.push('## Diagnosis Evidence', '');
+    plan.diagnosisEvidence.forEach(evidence => lines.push(`- Clip frame at ${formatClipTime(evidence)}: ${evidence.observation}`));
+    lines.push('');
+  }
+
+  if (session.checklist && session.checklist.length) {
+    lines.push('## Parts & Tools', '');
+    session.checklist.forEach(item => {
+      const steps = item.stepIndexes.map(index => index + 1).join(', ');
+      lines.push(`- [${item.checked ? 'x' : ' '}] ${item.quantity} × ${item.name} (${item.kind}, step ${steps})`);
+    });
+    lines.push('');
+  }
+
+  if (session.safetyStop) {
+    const stop = session.safetyStop;
+    lines.push(
+      '## ⚠️ Stopped for Safety',
+      '',
+      `Stopped at step ${stop.stepIndex + 1} (${formatTime(stop.timestamp)}) after the ${stop.source} found: ${stop.reason}`,
+      '',
+      'Do not continue this repair yourself; call a professional.',
+      '',
+    );
+  }
+
+  lines.push('## Replaced Parts', '');
+  if (plan.replacedParts && plan.replacedParts.length) {
+    plan.replacedParts.forEach(part => lines.push(`- ${part.quantity} × ${part.name}`));
+  } else {
+    lines.push('- None recorded');
+  }
+  const { usage } = session;
+  if (usage) {
+    lines.push('', '## Model Usage', '', `- Total: ${formatUsage(usage)}`);
+    Object.keys(usage.byOperation).forEach(operation => lines.push(`- ${operation}: ${formatUsage(usage.byOperation[operation])}`));
+  }
+
+  lines.push('', '## Steps', '');
+
+  plan.steps.forEach((step, index) => {
+    const timing = session.stepTimings.find(entry => entry.stepIndex === index);
+    lines.push(`### ${index + 1}. ${step.title}${step.superseded ? ' (replaced by a re-plan)' : ''}`);
+    lines.push('');
+    lines.push(step.instruction);
+    lines.push('');
+    if (step.condition) lines.push(`- Applies: ${step.condition}`);
+    if (step.toolNeeded) lines.push(`- Tool: ${step.toolNeeded}`);
+    if (step.safetyWarning) lines.push(`- Safety: ${step.safetyWarning}`);
+    (step.hazards || []).forEach(hazard => {
+      const extras = [
+        hazard.ppe.length ? `PPE: ${hazard.ppe.join(', ')}` : '',
+        hazard.preconditions.length ? `before starting: ${hazard.preconditions.join('; ')}` : '',
+      ].filter(Boolean).join(', ');
+      lines.push(`- Hazard (${hazard.category}, ${hazard.severity}): ${hazard.description}${extras ? ` — ${extras}` : ''}`);
+    });
+    if (isStepAcknowledged(session, index)) lines.push('- Hazards acknowledged by the user');
+    lines.push(timing
+      ? `- Started ${formatTime(timing.startedAt)}, ${timing.completedAt ? `done in ${formatDuration(timing.startedAt, timing.completedAt)}` : 'not completed'}`
+      : '- Not started');
+
+    session.verifications
+      .filter(record => record.stepIndex === index)
+      .forEach(record => {
+        const confidence = record.confidence !== undefined ? ` (${formatConfidence(record.confidence)} confidence)` : '';
+        const confirmed = record.confirmedByUser === undefined ? '' : `, user confirmed ${record.confirmedByUser ? 'done' : 'not done'}`;
+        lines.push(`- Verification (${formatTime(record.timestamp)}): ${record.completed ? 'PASSED' : 'FAILED'}${confidence}${confirmed} — ${record.feedback}`);
+      });
+
+    const evidence = getStepEvidence(session, index);
+    if (evidence && evidence.before) lines.push(`- Before photo (${formatTime(evidence.before.timestamp)})`);
+    if (evidence && evidence.after) lines.push(`- After photo (${formatTime(evidence.after.timestamp)}): ${evidence.after.feedback || ''}`);
+
+    (session.decisions || [])
+      .filter(decision => decision.stepIndex === index)
+      .forEach(decision => lines.push(`- Decision (${formatTime(decision.timestamp)}): ${decision.question} → ${decision.answer}`));
+
+    (session.replans || [])
+      .filter(replan => replan.fromStepIndex === index)
+      .forEach(replan => lines.push(`- Re-planned (${formatTime(replan.timestamp)}) from here, continuing at step ${replan.firstNewStepIndex + 1}: ${replan.reason}`));
+
+    session.assistantExchanges
+      .filter(exchange => exchange.stepIndex === index)
+      .forEach(exchange => lines.push(`- Assistant (${formatTime(exchange.timestamp)}): ${exchange.question} → ${exchange.command ? `[${exchange.command}]` : exchange.answer}`));
+
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toPct = (value: number) => `${(value / COORDINATE_MAX) * 100}%`;
+
+// Drawn in the 0-1000 cue space, stretched over the photo like the live overlay
+const cueToSvg = (cue: VisualCue): string => {
+  const { xmin, ymin, xmax, ymax } = cue.coordinates;
+  const color = cue.type === 'hazard' ? '#ef4444' : '#0891b2';
+  const dash = cue.type === 'hazard' ? ' stroke-dasharray="10 6"' : isUnsureCue(cue) ? ' stroke-dasharray="6 6"' : '';
+  const stroke = `stroke="${color}" stroke-width="3" vector-effect="non-scaling-stroke"${dash}`;
+  if (cue.type === 'polygon' && cue.points && cue.points.length > 2) {
+    return `<polygon points="${cue.points.map(point => `${point.x},${point.y}`).join(' ')}" fill="none" ${stroke} />`;
+  }
+  if (cue.type === 'point') {
+    return `<circle cx="${(xmin + xmax) / 2}" cy="${(ymin + ymax) / 2}" r="10" fill="${color}" />`;
+  }
+  const fill = cue.type === 'hazard' ? `fill="${color}" fill-opacity="0.18"` : 'fill="none"';
+  return `<rect x="${xmin}" y="${ymin}" width="${xmax - xmin}" height="${ymax - ymin}" ${fill} ${stroke} />`;
+};
+
+const frameFigure = (caption: string, frame: EvidenceFrame, cues: VisualCue[]): string => {
+  const visible = cues.filter(cue => cue.type !== 'none');
+  const labels = visible
+    .filter(cue => getCueLabel(cue))
+    .map(cue => `<span class="cue-label${cue.type === 'hazard' ? ' hazard' : ''}" style="left:${toPct(cue.coordinates.xmin)};top:${toPct(cue.coordinates.ymin)}">${escapeHtml(getCueLabel(cue))}</span>`)
+    .join('');
+  const notes = [
+    frame.feedback ? `<p>${escapeHtml(frame.feedback)}</p>` : '',
+    frame.confidence !== undefined ? `<p class="muted">Check confidence: ${formatConfidence(frame.confidence)}</p>` : '',
+    frame.confirmedByUser ? '<p class="muted">Confirmed done by the user</p>' : '',
+  ].join('');
+  return `<figure>
+  <div class="frame">
+    <img src="${frame.image}" alt="${escapeHtml(caption)}" />
+    ${visible.length ? `<svg viewBox="0 0 ${COORDINATE_MAX} ${COORDINATE_MAX}" preserveAspectRatio="none">${visible.map(cueToSvg).join('')}</svg>${labels}` : ''}
+  </div>
+  <figcaption><strong>${escapeHtml(caption)}</strong> · ${escapeHtml(formatTime(frame.timestamp))}${notes}</figcaption>
+</figure>`;
+};
+
+// The clip frames the diagnosis rests on, each captioned with what the model saw in it
+const diagnosisFigures = (session: RepairSession): string =>
+  (session.plan.diagnosisEvidence || []).map(evidence => {
+    const frame = getDiagnosisFrame(session, evidence.frameIndex);
+    if (!frame) return '';
+    return `<figure>
+  <div class="frame"><img src="${frame.image}" alt="${escapeHtml(evidence.observation)}" /></div>
+  <figcaption><strong>${formatClipTime(evidence)}</strong> · ${escapeHtml(evidence.observation)}</figcaption>
+</figure>`;
+  }).join('\n');
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #111; max-width: 960px; margin: 0 auto; padding: 24px; }
+  h1 { margin-bottom: 4px; }
+  .muted { color: #666; font-size: 13px; margin: 2px 0; }
+  .stop { border: 2px solid #ef4444; padding: 8px 12px; border-radius: 8px; }
+  .step { border-top: 1px solid #ddd; padding-top: 12px; margin-top: 20px; break-inside: avoid; }
+  .pair { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .clip { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  figure { margin: 0; }
+  figcaption { font-size: 13px; margin-top: 4px; }
+  figcaption p { margin: 2px 0; }
+  .frame { position: relative; }
+  .frame img { display: block; width: 100%; border-radius: 6px; }
+  .frame svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+  .cue-label { position: absolute; transform: translateY(-100%); background: rgba(0,0,0,0.75); color: #22d3ee; font-size: 11px; padding: 1px 4px; border-radius: 3px; white-space: nowrap; }
+  .cue-label.hazard { color: #fca5a5; }
+  .missing { display: flex; align-items: center; justify-content: center; aspect-ratio: 4 / 3; background: #f3f3f3; color: #888; border-radius: 6px; font-size: 13px; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * Self-contained report for warranty and customer records: each
+ * photographed step with its before frame (cues drawn on) beside the frame
+ * it passed verification on. Images are embedded as data URLs.
+ */
+export const sessionToHtml = (session: RepairSession): string => {
+  const { plan } = session;
+  const steps = listStepEvidence(session).map(entry => {
+    const step = plan.steps[entry.stepIndex];
+    if (!step) return '';
+    const before = entry.before ? frameFigure('Before', entry.before, getStepCues(step)) : '<div class="missing">No before photo</div>';
+    const after = entry.after ? frameFigure('After', entry.after, []) : '<div class="missing">Not verified</div>';
+    return `<section class="step">
+  <h3>Step ${entry.stepIndex + 1}: ${escapeHtml(step.title)}</h3>
+  <p class="muted">${escapeHtml(step.instruction)}</p>
+  <div class="pair">${before}${after}</div>
+</section>`;
+  }).join('\n');
+  const diagnosis = diagnosisFigures(session);
+
+  const replaced = plan.replacedParts && plan.replacedParts.length
+    ? `<ul>${plan.replacedParts.map(part => `<li>${part.quantity} × ${escapeHtml(part.name)}</li>`).join('')}</ul>`
+    : '<p class="muted">None recorded</p>';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Repair Report: ${escapeHtml(plan.objectName)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>Repair Report: ${escapeHtml(plan.objectName)}</h1>
+<p class="muted">Session ${escapeHtml(session.id)} · ${escapeHtml(session.status)} · started ${escapeHtml(formatTime(session.createdAt))} · last update ${escapeHtml(formatTime(session.updatedAt))}</p>
+<p><strong>Diagnosis:</strong> ${escapeHtml(plan.issueDiagnosis)}${plan.diagnosisConfidence !== undefined ? ` (${formatConfidence(plan.diagnosisConfidence)} confidence)` : ''}</p>
+${diagnosis ? `<div class="clip">${diagnosis}</div>` : ''}
+${session.safetyStop ? `<p class="stop"><strong>Stopped for safety</strong> at step ${session.safetyStop.stepIndex + 1}: ${escapeHtml(session.safetyStop.reason)}</p>` : ''}
+<h2>Replaced Parts</h2>
+${replaced}
+<h2>Evidence</h2>
+${steps || '<p class="muted">No photos were taken in this session.</p>'}
+</body>
+</html>`;
+};
+
+// Falls back to downloading the HTML when the print window is blocked; it prints the same
+const printHtml = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(html.replace('</body>', '<script>window.addEventListener("load", function () { window.print(); });</script></body>'));
+  printWindow.document.close();
+  return true;
+};
+
+const REPORT_TYPES: Record<Exclude<ReportFormat, 'pdf'>, string> = {
+  json: 'application/json',
+  md: 'text/markdown',
+  html: 'text/html',
+};
+
+export const downloadSessionReport = (session: RepairSession, requested: ReportFormat) => {
+  if (requested === 'pdf' && printHtml(sessionToHtml(session))) return;
+  const format = requested === 'pdf' ? 'html' : requested;
+  const content = format === 'json' ? sessionToJson(session) : format === 'html' ? sessionToHtml(session) : sessionToMarkdown(session);
+  const blob = new Blob([content], { type: REPORT_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const slug = session.plan.objectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  link.href = url;
+  link.download = `repair-${slug || 'session'}-${session.id}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,26 @@
+import { RepairSession } from '../types';
+import { runRequest as runStoreRequest, SESSION_STORE } from './db';
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runStoreRequest(SESSION_STORE, mode, action);
+
+export const saveSession = (session: RepairSession) =>
+  runRequest('readwrite', store => store.put(session)).then(() => undefined);
+
+export const getSession = (id: string) =>
+  runRequest<RepairSession | undefined>('readonly', store => store.get(id));
+
+export const deleteSession = (id: string) =>
+  runRequest('readwrite', store => store.delete(id)).then(() => undefined);
+
+// Newest first
+export const listSessions = async (): Promise<RepairSession[]> => {
+  const sessions = await runRequest<RepairSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// The most recently touched session that was neither finished nor abandoned
+export const getResumableSession = async (): Promise<RepairSession | null> => {
+  const sessions = await listSessions();
+  return sessions.find(session => session.status === 'active') || null;
+};
@@ -0,0 +1,45 @@
+import { RepairStep } from '../types';
+import { Preferences } from './preferences';
+import { isDecisionStep } from './planNavigation';
+import { describeStepCues } from './cueDirections';
+
+export type SpeechSettings = Pick<Preferences, 'language' | 'voiceURI' | 'speechRate' | 'speechVolume'>;
+
+export const isSpeechSynthesisSupported = () => 'speechSynthesis' in window;
+
+// 'pt-BR' matches 'pt-PT' voices too; a Portuguese voice beats an English one reading Portuguese
+const sameLanguage = (a: string, b: string) => a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+
+// Voices for a language, best match first. The list is empty until the browser fires voiceschanged.
+export const listVoices = (language: string): SpeechSynthesisVoice[] => {
+  if (!isSpeechSynthesisSupported()) return [];
+  return window.speechSynthesis.getVoices()
+    .filter(voice => sameLanguage(voice.lang, language))
+    .sort((a, b) => Number(b.lang === language) - Number(a.lang === language));
+};
+
+/**
+ * Speaks text with the user's voice settings, cutting off anything still
+ * being read. A saved voice for another language is ignored so a language
+ * switch never reads Spanish with an English voice.
+ */
+export const speakText = (text: string, settings: SpeechSettings) => {
+  if (!isSpeechSynthesisSupported() || !text.trim()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = listVoices(settings.language).find(candidate => candidate.voiceURI === settings.voiceURI);
+  if (voice) utterance.voice = voice;
+  utterance.lang = settings.language;
+  utterance.rate = settings.speechRate;
+  utterance.volume = settings.speechVolume;
+  utterance.pitch = 1.0;
+  window.speechSynthesis.speak(utterance);
+};
+
+// What auto-read says when a step comes up: the instruction, its question, where to look, then the safety warning
+export const describeStepForReading = (step: RepairStep, withCueDirections = false) =>
+  [step.instruction, isDecisionStep(step) ? step.decision.question : '', withCueDirections ? describeStepCues(step) : '', step.safetyWarning || '']
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => /[.!?。]$/.test(part) ? part : `${part}.`)
+    .join(' ');
@@ -0,0 +1,130 @@
+import { createAbortError } from './abort';
+
+// The Web Speech API is not in TypeScript's DOM lib; this is the subset used here
+interface SpeechRecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+}
+
+interface BrowserSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  const scope = window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+  return scope.SpeechRecognition || scope.webkitSpeechRecognition || null;
+};
+
+export const isSpeechRecognitionSupported = () => getRecognitionConstructor() !== null;
+
+export interface RecognizeOptions {
+  lang?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Listens for one short utterance with the browser's recogniser and
+ * resolves with its transcript ('' if nothing was heard). Used for quick
+ * answers that don't need a model round-trip.
+ */
+export const recognizeSpeech = ({ lang = 'en-US', signal }: RecognizeOptions = {}): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) {
+      reject(new Error('Speech recognition is not supported in this browser'));
+      return;
+    }
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.interimResults = false;
+    recognition.maxAlternatives = 1;
+    let transcript = '';
+
+    const onAbort = () => recognition.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    recognition.onresult = event => {
+      const first = event.results[0];
+      transcript = first && first[0] ? first[0].transcript : '';
+    };
+    recognition.onerror = event => {
+      signal?.removeEventListener('abort', onAbort);
+      // 'no-speech' just means silence; 'aborted' is our own cancel
+      if (event.error === 'no-speech') resolve('');
+      else reject(event.error === 'aborted' ? createAbortError() : new Error(`Speech recognition failed: ${event.error}`));
+    };
+    recognition.onend = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(transcript);
+    };
+    recognition.start();
+  });
+
+export interface ContinuousRecognition {
+  // Final transcripts heard since `since` (epoch ms), joined; they are consumed
+  takeTranscript(since: number): string;
+  stop(): void;
+}
+
+/**
+ * Keeps the recogniser running in the background and buffers what it
+ * hears, restarting it whenever the browser ends the session. Acts as a
+ * local keyword spotter: commands are matched on these transcripts without
+ * any model call.
+ */
+export const startContinuousRecognition = (lang = 'en-US'): ContinuousRecognition | null => {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) return null;
+
+  let active = true;
+  let heard: { at: number; text: string }[] = [];
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = false;
+  recognition.maxAlternatives = 1;
+
+  recognition.onresult = event => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal && result[0]) heard.push({ at: Date.now(), text: result[0].transcript.trim() });
+    }
+    // Nobody asks for transcripts older than a few seconds
+    heard = heard.filter(entry => Date.now() - entry.at < 30000);
+  };
+  recognition.onerror = event => {
+    // Permission problems won't fix themselves; anything else restarts via onend
+    if (event.error === 'not-allowed' || event.error === 'service-not-allowed') active = false;
+  };
+  recognition.onend = () => {
+    if (active) recognition.start();
+  };
+  recognition.start();
+
+  return {
+    takeTranscript(since) {
+      const taken = heard.filter(entry => entry.at >= since);
+      heard = heard.filter(entry => entry.at < since);
+      return taken.map(entry => entry.text).join(' ').trim();
+    },
+    stop() {
+      active = false;
+      recognition.abort();
+    },
+  };
+};
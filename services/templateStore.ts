@@ -0,0 +1,17 @@
+import { PlanTemplate } from '../types';
+import { runRequest as runStoreRequest, TEMPLATE_STORE } from './db';
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runStoreRequest(TEMPLATE_STORE, mode, action);
+
+export const saveTemplate = (template: PlanTemplate) =>
+  runRequest('readwrite', store => store.put(template)).then(() => undefined);
+
+export const deleteTemplate = (id: string) =>
+  runRequest('readwrite', store => store.delete(id)).then(() => undefined);
+
+// Most recently edited first
+export const listTemplates = async (): Promise<PlanTemplate[]> => {
+  const templates = await runRequest<PlanTemplate[]>('readonly', store => store.getAll());
+  return templates.sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -0,0 +1,87 @@
+import { RepairPlan, RepairStep, ComponentInfo, ComponentScan, Coordinates, VerificationResult, AssistantExchange, VoiceCommand } from '../types';
+import type { SequenceFrame } from './frameSequence';
+import { geminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { withRequestPipeline } from './requestPipeline';
+
+export type VisionProviderId = 'gemini' | 'mock';
+
+export interface RequestOptions {
+  // Cancels the request; results arriving after abort must be ignored
+  signal?: AbortSignal;
+  // BCP 47 tag the user-facing text should come back in; English when left out
+  language?: string;
+  // Called once per model call with the tokens it used, when the backend reports them
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// What the model needs to re-plan from a step that keeps failing
+export interface ReplanContext {
+  plan: RepairPlan;
+  stepIndex: number; // The step being replaced
+  completedSteps: RepairStep[]; // In the order they were done
+  failures: string[]; // Verification feedback on the current step, oldest first
+}
+
+export interface AssistantRequest {
+  image: string; // base64 JPEG of what the user is looking at
+  audio: string; // base64 recording of the question
+  audioMimeType?: string; // Defaults to audio/webm, what MediaRecorder produces in most browsers
+  instruction: string; // The current step
+  history: AssistantExchange[]; // Earlier turns, oldest first; only the text is sent
+}
+
+export interface AssistantReply {
+  transcript: string; // What the user said
+  answer: string; // Empty when the turn was a command
+  command?: VoiceCommand;
+}
+
+/**
+ * The model operations the app depends on. Every backend (Gemini, the
+ * offline mock, anything added later) implements this contract so App.tsx
+ * never talks to a specific SDK directly.
+ */
+export interface VisionProvider {
+  readonly id: VisionProviderId;
+  analyzeImageAndCreatePlan(base64Image: string, options?: RequestOptions): Promise<RepairPlan>;
+  verifyRepairStep(base64Image: string, stepInstruction: string, options?: RequestOptions): Promise<VerificationResult>;
+  askRepairAssistant(request: AssistantRequest, options?: RequestOptions): Promise<AssistantReply>;
+  // The inspector; objectName is '' when inspecting before a plan exists
+  identifyComponentAtPoint(base64Image: string, xPct: number, yPct: number, objectName: string, options?: RequestOptions): Promise<ComponentInfo>;
+  identifyComponentInRegion(base64Image: string, region: Coordinates, objectName: string, options?: RequestOptions): Promise<ComponentInfo>;
+  identifyAllComponents(base64Image: string, objectName: string, options?: RequestOptions): Promise<ComponentScan>;
+  // Multi-frame variants for faults that only show up in motion (wobble, drip, slipping belt)
+  analyzeFrameSequence(frames: SequenceFrame[], options?: RequestOptions): Promise<RepairPlan>;
+  verifyFrameSequence(frames: SequenceFrame[], stepInstruction: string, options?: RequestOptions): Promise<VerificationResult>;
+  // Fresh steps to replace the current one and everything after it; the plan's objectName and diagnosis may be revised
+  replanFromStep(base64Image: string, context: ReplanContext, options?: RequestOptions): Promise<RepairPlan>;
+}
+
+const resolveProviderId = (): VisionProviderId => {
+  const configured = (process.env.VISION_PROVIDER || '').toLowerCase();
+  if (configured === 'mock' || configured === 'gemini') return configured;
+  // No explicit choice: fall back to the mock when there is no key to talk to Gemini with
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+let activeProvider: VisionProvider | null = null;
+
+// Timeouts, retries, de-duplication and the usage tally apply whichever backend is active
+export const getVisionProvider = (): VisionProvider => {
+  if (!activeProvider) {
+    activeProvider = withRequestPipeline(resolveProviderId() === 'gemini' ? geminiProvider : createMockProvider());
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime (tests, demo builds). Pass null to go back to config.
+export const setVisionProvider = (provider: VisionProvider | null) => {
+  activeProvider = provider && withRequestPipeline(provider);
+};
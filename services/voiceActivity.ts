@@ -0,0 +1,113 @@
+// Energy-based voice activity detection on the microphone track, fully local
+
+export const VAD_INTERVAL_MS = 50;
+
+export interface VadOptions {
+  startRatio: number; // Level above the noise floor, as a multiple, that counts as speech
+  minLevel: number; // Absolute floor so a silent room doesn't make every rustle "speech"
+  hangoverMs: number; // Silence needed before an utterance is over
+  minSpeechMs: number; // Shorter bursts (clicks, a dropped screw) are discarded
+  maxSpeechMs: number; // Cut off runaway recordings, e.g. a running motor next to the mic
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  startRatio: 3,
+  minLevel: 0.01,
+  hangoverMs: 700,
+  minSpeechMs: 300,
+  maxSpeechMs: 15000,
+};
+
+export interface VadState {
+  noiseFloor: number;
+  speaking: boolean;
+  speechStartedAt: number;
+  lastVoiceAt: number;
+}
+
+export type VadEvent = 'start' | 'end' | 'discard' | null;
+
+export const createVadState = (): VadState => ({ noiseFloor: 0.005, speaking: false, speechStartedAt: 0, lastVoiceAt: 0 });
+
+export const computeRms = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+/**
+ * Advances the detector by one level reading. The noise floor follows the
+ * room slowly while nobody is talking, so a fan or tap running in the
+ * background raises the bar rather than counting as speech.
+ */
+export const stepVad = (state: VadState, level: number, now: number, options: VadOptions = DEFAULT_VAD_OPTIONS): { state: VadState; event: VadEvent } => {
+  const threshold = Math.max(options.minLevel, state.noiseFloor * options.startRatio);
+  const voiced = level > threshold;
+
+  if (!state.speaking) {
+    if (voiced) {
+      return { state: { ...state, speaking: true, speechStartedAt: now, lastVoiceAt: now }, event: 'start' };
+    }
+    return { state: { ...state, noiseFloor: state.noiseFloor * 0.95 + level * 0.05 }, event: null };
+  }
+
+  const lastVoiceAt = voiced ? now : state.lastVoiceAt;
+  const tooLong = now - state.speechStartedAt >= options.maxSpeechMs;
+  if (now - lastVoiceAt < options.hangoverMs && !tooLong) {
+    return { state: { ...state, lastVoiceAt }, event: null };
+  }
+  const spoken = lastVoiceAt - state.speechStartedAt;
+  return {
+    state: { ...state, speaking: false, lastVoiceAt },
+    event: spoken >= options.minSpeechMs ? 'end' : 'discard',
+  };
+};
+
+export interface VoiceActivityCallbacks {
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+  onDiscard: () => void; // Speech started but turned out to be noise
+  isSuspended?: () => boolean; // e.g. while the app itself is talking
+}
+
+export interface VoiceActivityDetector {
+  stop(): void;
+}
+
+export const createVoiceActivityDetector = (
+  stream: MediaStream,
+  callbacks: VoiceActivityCallbacks,
+  options: VadOptions = DEFAULT_VAD_OPTIONS
+): VoiceActivityDetector => {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+  const source = context.createMediaStreamSource(new MediaStream(stream.getAudioTracks()));
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let state = createVadState();
+
+  const timer = setInterval(() => {
+    if (callbacks.isSuspended && callbacks.isSuspended()) {
+      // Drop anything in progress; it's most likely our own voice
+      if (state.speaking) callbacks.onDiscard();
+      state = { ...state, speaking: false };
+      return;
+    }
+    analyser.getFloatTimeDomainData(samples);
+    const result = stepVad(state, computeRms(samples), Date.now(), options);
+    state = result.state;
+    if (result.event === 'start') callbacks.onSpeechStart();
+    else if (result.event === 'end') callbacks.onSpeechEnd();
+    else if (result.event === 'discard') callbacks.onDiscard();
+  }, VAD_INTERVAL_MS);
+
+  return {
+    stop() {
+      clearInterval(timer);
+      source.disconnect();
+      context.close().catch(() => undefined);
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { VoiceCommand } from '../types';
+
+export const VOICE_COMMANDS: VoiceCommand[] = ['next', 'repeat', 'back', 'inspect', 'verify'];
+
+// Whole-utterance matches only, so "what's the next step for?" stays a question
+const COMMAND_PATTERNS: [VoiceCommand, RegExp][] = [
+  ['next', /^(next|next step|go on|continue|move on|done|i'?m done|finished)$/],
+  ['repeat', /^(repeat|repeat that|repeat the step|say (that|it) again|again|what was that)$/],
+  ['back', /^(back|go back|previous|previous step|last step|undo)$/],
+  ['inspect', /^(inspect|inspect (this|that)( part)?|what is (this|that)( part)?|what'?s (this|that)( part)?|identify (this|that))$/],
+  ['verify', /^(verify|check|check (it|this|that|my work)|verify (it|this|the step))$/],
+];
+
+const FILLER = /^(ok(ay)?|hey|please|so|um+|uh+)\s+|\s+(please|now|thanks|thank you)$/g;
+
+export const normalizeUtterance = (transcript: string) =>
+  transcript.toLowerCase().replace(/[^a-z' ]+/g, ' ').replace(/\s+/g, ' ').trim().replace(FILLER, '').trim();
+
+/**
+ * Returns what was said after the wake phrase, '' when the phrase was said
+ * on its own, or null when the utterance wasn't addressed to us. The phrase
+ * may come a word or two in ("uh, hey fix, next step").
+ */
+export const stripWakePhrase = (transcript: string, wakePhrase: string): string | null => {
+  const phrase = normalizeUtterance(wakePhrase);
+  const utterance = normalizeUtterance(transcript);
+  if (!phrase) return utterance;
+  // Padded so "fix" doesn't match inside "prefix"
+  const at = ` ${utterance} `.indexOf(` ${phrase} `);
+  if (at === -1 || utterance.slice(0, at).split(' ').filter(Boolean).length > 2) return null;
+  return utterance.slice(at + phrase.length).trim();
+};
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const utterance = normalizeUtterance(transcript);
+  const match = COMMAND_PATTERNS.find(([, pattern]) => pattern.test(utterance));
+  return match ? match[0] : null;
+};
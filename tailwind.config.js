@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+module.exports = {
+  // Class names are only ever written out in full, so scanning the sources finds all of them
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './hooks/**/*.ts', './services/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { screen, fireEvent } from '@testing-library/react';
+import { renderApp, startCamera, scanIntoGuide } from './renderApp';
+import { speech } from './fakes/speech';
+
+const enableAccessibilityMode = () =>
+  localStorage.setItem('omni-fix-preferences', JSON.stringify({ accessibilityMode: true }));
+
+describe('accessibility mode', () => {
+  it('announces each step with where its cue is', async () => {
+    enableAccessibilityMode();
+    renderApp();
+    await startCamera();
+    await scanIntoGuide();
+
+    expect(await screen.findByText(
+      'Step 1 of 2: Unplug the lamp. Pull the plug out of the wall socket. Plug: lower left, about a sixth of the way in.',
+    )).toBeTruthy();
+  });
+
+  it('drives the guide from the keyboard', async () => {
+    enableAccessibilityMode();
+    renderApp();
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(await screen.findByText(/^Step 2 of 2: Replace the bulb\./)).toBeTruthy();
+
+    fireEvent.keyDown(window, { key: 'r' });
+    expect(speech.spoken).toContain('Unscrew the old bulb and screw in the new one. Bulb: upper centre.');
+
+    fireEvent.keyDown(window, { key: 'ArrowLeft' });
+    expect(await screen.findByText(/^Step 1 of 2: Unplug the lamp\./)).toBeTruthy();
+  });
+
+  it('leaves the layout and announcements alone when off', async () => {
+    renderApp();
+    await startCamera();
+    await scanIntoGuide();
+
+    expect(screen.getByRole('region', { name: 'Current step' })).toBeTruthy();
+    expect(screen.queryByText(/^Step 1 of 2: Unplug the lamp\./)).toBeNull();
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+});
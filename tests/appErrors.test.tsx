@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { screen, fireEvent, within } from '@testing-library/react';
+import { renderApp, startCamera, scanIntoGuide, createTestProvider } from './renderApp';
+import { media } from './fakes/media';
+import { LAMP_PLAN, SCAN_FRAME } from './fixtures';
+import { createSession } from '../services/repairSession';
+import { saveSession } from '../services/sessionStore';
+import { parseRepairResponse } from '../services/planValidation';
+
+const currentStep = () => within(screen.getByRole('region', { name: 'Current step' }));
+
+// Shaped like an HTTP error from the SDK, which is all the request pipeline looks at
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const goOffline = () => {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => false });
+  window.dispatchEvent(new Event('offline'));
+};
+
+describe('error paths', () => {
+  afterEach(() => {
+    Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => true });
+  });
+
+  it('shows the error screen when camera permission is refused', async () => {
+    media.denyCamera();
+    renderApp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start Repair' }));
+    expect(await screen.findByText('System Error')).toBeTruthy();
+    expect(screen.getByText('Camera/Mic access denied. Please enable permissions.')).toBeTruthy();
+  });
+
+  it('reports a refused diagnosis without retrying and lets the user scan again', async () => {
+    const provider = createTestProvider();
+    const analyze = vi.fn(provider.analyzeImageAndCreatePlan).mockRejectedValueOnce(httpError(400, 'Image could not be processed'));
+    renderApp({ ...provider, analyzeImageAndCreatePlan: analyze });
+    await startCamera();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Scan' }));
+    expect(await screen.findByText('System Error')).toBeTruthy();
+    expect(screen.getByText('Diagnosis failed: Image could not be processed')).toBeTruthy();
+    expect(analyze).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Try Again' }));
+    await scanIntoGuide();
+    expect(currentStep().getByText('Unplug the lamp')).toBeTruthy();
+  });
+
+  it('retries a diagnosis the model service failed once', async () => {
+    const provider = createTestProvider();
+    const analyze = vi.fn(provider.analyzeImageAndCreatePlan).mockRejectedValueOnce(httpError(503, 'Service unavailable'));
+    renderApp({ ...provider, analyzeImageAndCreatePlan: analyze });
+    await startCamera();
+
+    await scanIntoGuide();
+    expect(analyze).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the current step when the verification request fails', async () => {
+    const verify = vi.fn().mockRejectedValue(httpError(403, 'Forbidden'));
+    renderApp({ ...createTestProvider(), verifyRepairStep: verify });
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.click(currentStep().getByRole('button', { name: 'Verify' }));
+    expect(await screen.findByText('Verification failed. The model refused the request. Please try again.')).toBeTruthy();
+    expect(currentStep().getByText('Unplug the lamp')).toBeTruthy();
+  });
+
+  it('returns to the guide when parts cannot be identified', async () => {
+    const identify = vi.fn().mockRejectedValue(httpError(400, 'Bad request'));
+    renderApp({ ...createTestProvider(), identifyAllComponents: identify });
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Identify all parts in view' }));
+    expect(await screen.findByText(/Couldn't identify that part\./)).toBeTruthy();
+    expect(currentStep().getByText('Unplug the lamp')).toBeTruthy();
+  });
+
+  it('queues a check made while offline instead of sending it', async () => {
+    const provider = createTestProvider();
+    const verify = vi.spyOn(provider, 'verifyRepairStep');
+    renderApp(provider);
+    await startCamera();
+    await scanIntoGuide();
+
+    goOffline();
+    expect(await screen.findByText(/^Offline: scanning and inspector unavailable/)).toBeTruthy();
+    fireEvent.click(currentStep().getByRole('button', { name: 'Verify' }));
+    expect(await screen.findByText(/This check is queued/)).toBeTruthy();
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  it('replays a saved repair offline on the camera that is already open', async () => {
+    await saveSession({ ...createSession(parseRepairResponse(LAMP_PLAN).plan, SCAN_FRAME), status: 'completed' });
+    renderApp();
+    await startCamera();
+    media.getUserMedia.mockClear();
+
+    goOffline();
+    fireEvent.click(await screen.findByRole('button', { name: /Replay a saved repair/ }));
+    fireEvent.click(await screen.findByRole('button', { name: /^Replay$/ }));
+    expect(await screen.findByText('Before You Start')).toBeTruthy();
+    expect(media.getUserMedia).not.toHaveBeenCalled();
+  });
+});
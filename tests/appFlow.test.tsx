@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { screen, fireEvent, within } from '@testing-library/react';
+import { renderApp, startCamera, scanIntoGuide, createTestProvider } from './renderApp';
+import { media } from './fakes/media';
+import { speech } from './fakes/speech';
+import { pointCameraAt } from './fakes/canvas';
+import { STEP_FRAME } from './fixtures';
+
+const currentStep = () => within(screen.getByRole('region', { name: 'Current step' }));
+
+describe('repair flow', () => {
+  it('opens the camera from the intro screen', async () => {
+    renderApp();
+    expect(screen.getByText('Omni-Fix')).toBeTruthy();
+    await startCamera();
+    expect(media.getUserMedia).toHaveBeenCalledWith(expect.objectContaining({ audio: true }));
+    expect(screen.getByRole('button', { name: 'Scan' })).toBeTruthy();
+  });
+
+  it('falls back to the offline backend when no API key is configured', async () => {
+    vi.stubEnv('VISION_PROVIDER', undefined);
+    vi.stubEnv('API_KEY', undefined);
+    renderApp(null);
+    await startCamera();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Scan' }));
+    expect(await screen.findByText('Before You Start')).toBeTruthy();
+  });
+
+  it('diagnoses, lists what is needed and walks every step to completion', async () => {
+    renderApp();
+    await startCamera();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Scan' }));
+    expect(await screen.findByText('DIAGNOSING & PLANNING...')).toBeTruthy();
+    expect(await screen.findByText('Before You Start')).toBeTruthy();
+    expect(screen.getByText('E27 bulb')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: /Start Repair/ }));
+    await screen.findByRole('region', { name: 'Current step' });
+    expect(currentStep().getByText('Unplug the lamp')).toBeTruthy();
+    expect(currentStep().getByText('Step 1 of 2')).toBeTruthy();
+
+    pointCameraAt(STEP_FRAME);
+    fireEvent.click(currentStep().getByRole('button', { name: 'Verify' }));
+    expect(await screen.findByText('VERIFYING REPAIR...')).toBeTruthy();
+    expect(await screen.findByText('Replace the bulb')).toBeTruthy();
+
+    fireEvent.click(currentStep().getByRole('button', { name: 'Verify' }));
+    expect(await screen.findByText('Repair Complete!')).toBeTruthy();
+    expect(screen.getByRole('button', { name: /Save as Fix/ })).toBeTruthy();
+  });
+
+  it('stays on a step that fails its check and reads out why', async () => {
+    renderApp(createTestProvider({ verifications: [{ completed: false, feedback: 'The plug is still in the socket.' }] }));
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.click(currentStep().getByRole('button', { name: 'Verify' }));
+    expect(await screen.findByText(/Verification Info: The plug is still in the socket\./)).toBeTruthy();
+    expect(currentStep().getByText('Unplug the lamp')).toBeTruthy();
+    expect(speech.spoken).toContain('The plug is still in the socket.');
+  });
+
+  it('asks the user to confirm a check the model is unsure about', async () => {
+    renderApp(createTestProvider({ verifications: [{ completed: true, feedback: 'The plug is hard to make out.', confidence: 0.4 }] }));
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.click(currentStep().getByRole('button', { name: 'Verify' }));
+    fireEvent.click(await screen.findByRole('button', { name: "Yes, it's done" }));
+    expect(await screen.findByText('Replace the bulb')).toBeTruthy();
+  });
+
+  it('inspects the parts in view and returns to the same step', async () => {
+    renderApp();
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Identify all parts in view' }));
+    fireEvent.click(await screen.findByText('Power cord'));
+    expect(await screen.findByText('Insulation is scuffed near the plug.')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Resume Repair' }));
+    expect(await screen.findByRole('region', { name: 'Current step' })).toBeTruthy();
+    expect(currentStep().getByText('Unplug the lamp')).toBeTruthy();
+  });
+
+  it('answers a spoken question about the current step', async () => {
+    renderApp(createTestProvider({ assistantReply: 'Grip the plug, not the cord.' }));
+    await startCamera();
+    await scanIntoGuide();
+
+    fireEvent.pointerDown(currentStep().getByRole('button', { name: 'Hold to ask' }));
+    fireEvent.pointerUp(currentStep().getByRole('button', { name: 'Release to send question' }));
+    expect(await screen.findByText('Grip the plug, not the cord.')).toBeTruthy();
+    expect(speech.spoken).toContain('Grip the plug, not the cord.');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAppStateMachine } from '../services/appStateMachine';
+import { AppState } from '../types';
+
+describe('createAppStateMachine', () => {
+  it('follows allowed transitions and tells subscribers', () => {
+    const machine = createAppStateMachine();
+    const listener = vi.fn();
+    machine.subscribe(listener);
+
+    expect(machine.transition(AppState.CAMERA_READY, 'camera start')).toBe(true);
+    expect(machine.transition(AppState.ANALYZING, 'scan')).toBe(true);
+    expect(machine.state).toBe(AppState.ANALYZING);
+    expect(listener.mock.calls).toEqual([[AppState.CAMERA_READY], [AppState.ANALYZING]]);
+  });
+
+  it('blocks transitions the table does not list', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const machine = createAppStateMachine(AppState.SAFETY_STOP);
+    const listener = vi.fn();
+    machine.subscribe(listener);
+
+    expect(machine.can(AppState.REPAIR_GUIDE)).toBe(false);
+    expect(machine.transition(AppState.REPAIR_GUIDE, 'late verification')).toBe(false);
+    expect(machine.state).toBe(AppState.SAFETY_STOP);
+    expect(listener).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('aborts the signal when the state changes, not when it is re-entered or refused', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const machine = createAppStateMachine(AppState.CAMERA_READY);
+    machine.transition(AppState.ANALYZING, 'scan');
+    const { signal } = machine;
+
+    expect(machine.transition(AppState.ANALYZING, 'scan again')).toBe(true);
+    expect(machine.transition(AppState.COMPLETED, 'skip ahead')).toBe(false);
+    expect(signal.aborted).toBe(false);
+
+    machine.transition(AppState.CAMERA_READY, 'cancel');
+    expect(signal.aborted).toBe(true);
+    expect(machine.signal).not.toBe(signal);
+    expect(machine.signal.aborted).toBe(false);
+    warn.mockRestore();
+  });
+
+  it('logs accepted and refused transitions but not re-entries', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const machine = createAppStateMachine();
+    machine.transition(AppState.CAMERA_READY, 'camera start');
+    machine.transition(AppState.CAMERA_READY);
+    machine.transition(AppState.COMPLETED, 'skip ahead');
+
+    expect(machine.log.map(({ from, to, accepted, reason }) => ({ from, to, accepted, reason }))).toEqual([
+      { from: AppState.INTRO, to: AppState.CAMERA_READY, accepted: true, reason: 'camera start' },
+      { from: AppState.CAMERA_READY, to: AppState.COMPLETED, accepted: false, reason: 'skip ahead' },
+    ]);
+    // Callers get a copy, so they cannot rewrite the history
+    machine.log.length = 0;
+    expect(machine.log).toHaveLength(2);
+    warn.mockRestore();
+  });
+
+  it('stops notifying a listener once it unsubscribes', () => {
+    const machine = createAppStateMachine();
+    const listener = vi.fn();
+    const unsubscribe = machine.subscribe(listener);
+    unsubscribe();
+    machine.transition(AppState.CAMERA_READY);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildChecklist } from '../services/checklist';
+import { RepairPlan, RepairStep } from '../types';
+
+const CUE = { type: 'none' as const, coordinates: { xmin: 0, ymin: 0, xmax: 0, ymax: 0 } };
+
+const step = (id: number, toolNeeded: string, extra: Partial<RepairStep> = {}): RepairStep =>
+  ({ id, title: `Step ${id}`, instruction: '', visualCue: CUE, toolNeeded, ...extra });
+
+const plan = (...steps: RepairStep[]): RepairPlan => ({ objectName: 'Fridge', issueDiagnosis: 'Warm', steps });
+
+const quantities = (repairPlan: RepairPlan) =>
+  buildChecklist(repairPlan).reduce<Record<string, number>>((all, item) => ({ ...all, [item.name]: item.quantity }), {});
+
+describe('buildChecklist', () => {
+  it('adds up parts used one after another', () => {
+    expect(quantities(plan(step(1, '2x replacement fuse'), step(2, 'replacement fuse')))).toEqual({ 'replacement fuse': 3 });
+  });
+
+  it('takes the larger need when parts sit on different branches of a decision', () => {
+    const branching = plan(
+      step(1, 'none', { decision: { question: 'Is the fuse blown?', options: [{ label: 'Yes', nextStepId: 2 }, { label: 'No', nextStepId: 3 }] } }),
+      step(2, '2x replacement fuse', { nextStepId: 4 }),
+      step(3, 'replacement fuse and electrical tape'),
+      step(4, 'electrical tape and replacement fuse'),
+    );
+    // Yes runs steps 2 and 4 (three fuses, one tape); No runs 3 and 4 (two of each)
+    expect(quantities(branching)).toEqual({ 'replacement fuse': 3, 'electrical tape': 2 });
+  });
+
+  it('keeps plan indexes and leaves out superseded steps', () => {
+    const replanned = plan(step(1, 'screwdriver'), step(2, 'new belt', { superseded: true }), step(3, 'new belt'));
+    const belt = buildChecklist(replanned).find(item => item.kind === 'part');
+    expect(belt && { quantity: belt.quantity, stepIndexes: belt.stepIndexes }).toEqual({ quantity: 1, stepIndexes: [2] });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createCueTracker, toGrayFrame, toLiveGrayFrame, TRACK_HEIGHT, TRACK_WIDTH } from '../services/cueTracker';
+import { correctExposure } from '../services/framePreprocessing';
+
+// The shared fake canvas holds no pixels; levelling and tracking only read and write image data
+const pixelContext = (shade: (x: number, y: number) => number): CanvasRenderingContext2D => {
+  const data = new Uint8ClampedArray(TRACK_WIDTH * TRACK_HEIGHT * 4);
+  for (let y = 0; y < TRACK_HEIGHT; y++) {
+    for (let x = 0; x < TRACK_WIDTH; x++) {
+      const i = (y * TRACK_WIDTH + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = shade(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return {
+    getImageData: () => ({ data: new Uint8ClampedArray(data), width: TRACK_WIDTH, height: TRACK_HEIGHT }),
+    putImageData: (image: ImageData) => data.set(image.data),
+  } as unknown as CanvasRenderingContext2D;
+};
+
+// A lit dial: bright in the middle, falling off smoothly into a dark panel
+const scene = (shiftX: number) => (x: number, y: number) => 40 + 200 * Math.exp(-Math.hypot(x - 60 - shiftX, y - 45) / 12);
+
+// The same view through a camera that has not settled its exposure: dark, with the mid-tones crushed
+const underexposed = (shade: (x: number, y: number) => number) => (x: number, y: number) =>
+  Math.round(255 * Math.pow(shade(x, y) / 255, 3) * 0.35);
+
+const DIAL = { xmin: 250, ymin: 300, xmax: 500, ymax: 700 };
+
+// The reference the cues were drawn on, levelled the way prepareFrame levels every frame it uploads
+const levelledReference = () => {
+  const reference = pixelContext(underexposed(scene(0)));
+  correctExposure(reference, TRACK_WIDTH, TRACK_HEIGHT);
+  return toGrayFrame(reference);
+};
+
+describe('createCueTracker', () => {
+  it('matches a dark live frame exactly once it gets the same levels correction as the reference', () => {
+    const raw = createCueTracker(levelledReference(), DIAL).update(toGrayFrame(pixelContext(underexposed(scene(10)))));
+
+    const levelled = createCueTracker(levelledReference(), DIAL).update(toLiveGrayFrame(pixelContext(underexposed(scene(10)))));
+
+    expect(levelled.dx).toBeCloseTo(10 / TRACK_WIDTH * 1000, 0);
+    expect(levelled.dy).toBe(0);
+    expect(levelled.confidence).toBeCloseTo(1, 3);
+    expect(raw.confidence).toBeLessThan(0.95);
+  });
+});
@@ -0,0 +1,60 @@
+import { SCAN_FRAME } from '../fixtures';
+
+/**
+ * jsdom has no 2D canvas. This one draws nothing: toDataURL returns the
+ * fixture frame the camera is "pointed at", and pixel reads return a
+ * checkerboard (sharp, well exposed) or flat grey (blurred), which is all
+ * the frame checks look at.
+ */
+const camera = {
+  frame: SCAN_FRAME,
+  sharp: true,
+};
+
+export const pointCameraAt = (frame: string, options: { sharp?: boolean } = {}) => {
+  camera.frame = frame;
+  camera.sharp = options.sharp ?? true;
+};
+
+const createImageData = (width: number, height: number) => {
+  const data = new Uint8ClampedArray(Math.max(1, width * height) * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = camera.sharp ? ((x + y) % 2 ? 230 : 20) : 128;
+      const i = (y * width + x) * 4;
+      data[i] = value;
+      data[i + 1] = value;
+      data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+const createContext = (canvas: HTMLCanvasElement) => {
+  const noop = () => undefined;
+  const context: Record<string, unknown> = {
+    canvas,
+    getImageData: (_x: number, _y: number, width: number, height: number) => createImageData(width, height),
+    createImageData: (width: number, height: number) => createImageData(width, height),
+    measureText: (text: string) => ({ width: text.length * 7 }),
+    getLineDash: () => [],
+  };
+  // Every other drawing call is accepted and ignored; style properties are just stored
+  return new Proxy(context, {
+    get: (target, property: string) => property in target ? target[property] : noop,
+  }) as unknown as CanvasRenderingContext2D;
+};
+
+export const installFakeCanvas = () => {
+  const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+  HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement) {
+    let context = contexts.get(this);
+    if (!context) {
+      context = createContext(this);
+      contexts.set(this, context);
+    }
+    return context;
+  } as unknown as HTMLCanvasElement['getContext'];
+  HTMLCanvasElement.prototype.toDataURL = () => `data:image/jpeg;base64,${camera.frame}`;
+};
@@ -0,0 +1,102 @@
+import { vi } from 'vitest';
+
+// Camera, microphone and recorder stand-ins: jsdom has no media devices at all
+
+class FakeMediaStreamTrack {
+  readonly kind: 'audio' | 'video';
+  readyState: MediaStreamTrackState = 'live';
+  enabled = true;
+
+  constructor(kind: 'audio' | 'video') {
+    this.kind = kind;
+  }
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  // No getCapabilities, like Firefox: torch, zoom and focus stay off
+  getSettings(): MediaTrackSettings {
+    return { width: 1280, height: 720 };
+  }
+
+  applyConstraints() {
+    return Promise.resolve();
+  }
+}
+
+class FakeMediaStream {
+  private readonly tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks?: FakeMediaStreamTrack[]) {
+    this.tracks = tracks ? tracks.slice() : [new FakeMediaStreamTrack('video'), new FakeMediaStreamTrack('audio')];
+  }
+
+  getTracks() {
+    return this.tracks.slice();
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+}
+
+// Hands over one chunk of "audio" when stopped, as a recorder started without a timeslice does
+class FakeMediaRecorder {
+  static isTypeSupported() {
+    return true;
+  }
+
+  state: RecordingState = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    if (this.state === 'inactive') return;
+    this.state = 'inactive';
+    if (this.ondataavailable) this.ondataavailable({ data: new Blob(['fake audio'], { type: this.mimeType }) });
+    if (this.onstop) this.onstop();
+  }
+}
+
+const CAMERAS = [{ kind: 'videoinput', deviceId: 'back-camera', groupId: 'back', label: 'Back Camera' }];
+
+export const media = {
+  getUserMedia: vi.fn(async (_constraints?: MediaStreamConstraints) => new FakeMediaStream() as unknown as MediaStream),
+  // The next getUserMedia call fails the way a browser does when permission is refused
+  denyCamera() {
+    media.getUserMedia.mockRejectedValueOnce(Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' }));
+  },
+};
+
+export const installFakeMedia = () => {
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia: (constraints: MediaStreamConstraints) => media.getUserMedia(constraints),
+      enumerateDevices: async () => CAMERAS,
+    },
+  });
+  vi.stubGlobal('MediaStream', FakeMediaStream);
+  vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+
+  // A 720p feed that is always playing
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoWidth', { configurable: true, get: () => 1280 });
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoHeight', { configurable: true, get: () => 720 });
+  Object.defineProperty(HTMLMediaElement.prototype, 'readyState', { configurable: true, get: () => 4 });
+  HTMLMediaElement.prototype.play = () => Promise.resolve();
+  HTMLMediaElement.prototype.pause = () => undefined;
+
+  Element.prototype.setPointerCapture = () => undefined;
+  Element.prototype.releasePointerCapture = () => undefined;
+  Element.prototype.hasPointerCapture = () => false;
+};
@@ -0,0 +1,45 @@
+import { vi } from 'vitest';
+
+// Speech synthesis that "reads" instantly and remembers what it was asked to say
+
+class FakeUtterance {
+  text: string;
+  lang = '';
+  voice: SpeechSynthesisVoice | null = null;
+  rate = 1;
+  pitch = 1;
+  volume = 1;
+  onend: (() => void) | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+export const speech = {
+  spoken: [] as string[],
+  reset() {
+    speech.spoken = [];
+  },
+};
+
+export const installFakeSpeech = () => {
+  vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+  Object.defineProperty(window, 'speechSynthesis', {
+    configurable: true,
+    value: {
+      speaking: false,
+      pending: false,
+      speak: (utterance: FakeUtterance) => {
+        speech.spoken.push(utterance.text);
+        if (utterance.onend) setTimeout(utterance.onend, 0);
+      },
+      cancel: () => undefined,
+      pause: () => undefined,
+      resume: () => undefined,
+      getVoices: () => [],
+      addEventListener: () => undefined,
+      removeEventListener: () => undefined,
+    },
+  });
+};
@@ -0,0 +1,45 @@
+import { ComponentInfo, GeminiRepairResponse } from '../types';
+
+// Stand-ins for camera frames. The fake canvas hands back whichever one the
+// test points the camera at; nothing ever decodes them.
+export const SCAN_FRAME = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAEBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAACf/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AKp//2Q==';
+export const STEP_FRAME = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAMCAgICAgMCAgIDAwMDBAYEBAQEBAgGBgUGCQgKCgkICQkKDA8MCgsOCwkJDRENDg8QEBEQCgwSExIQEw8QEBD/wAALCAABAAEBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAACP/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AVN//2Q==';
+
+// Two plain steps: no hazards to acknowledge and no decisions, so the guide runs straight through
+export const LAMP_PLAN: GeminiRepairResponse = {
+  object_name: 'Desk Lamp',
+  issue_diagnosis: 'The bulb has burnt out',
+  diagnosis_confidence: 0.92,
+  steps: [
+    {
+      title: 'Unplug the lamp',
+      instruction: 'Pull the plug out of the wall socket.',
+      visual_cue: { type: 'box', ymin: 600, xmin: 100, ymax: 800, xmax: 300, label: 'Plug' },
+    },
+    {
+      title: 'Replace the bulb',
+      instruction: 'Unscrew the old bulb and screw in the new one.',
+      requirements: [{ name: 'E27 bulb', kind: 'part', quantity: 1 }],
+      visual_cue: { type: 'box', ymin: 100, xmin: 400, ymax: 300, xmax: 600, label: 'Bulb' },
+    },
+  ],
+};
+
+export const LAMP_PARTS: ComponentInfo[] = [
+  {
+    name: 'Bulb socket',
+    function: 'Holds the bulb and carries power to it',
+    status: 'Good',
+    details: 'No scorch marks on the contacts.',
+    box: { ymin: 100, xmin: 400, ymax: 300, xmax: 600 },
+    confidence: 0.9,
+  },
+  {
+    name: 'Power cord',
+    function: 'Brings mains power to the lamp',
+    status: 'Worn',
+    details: 'Insulation is scuffed near the plug.',
+    box: { ymin: 600, xmin: 100, ymax: 800, xmax: 300 },
+    confidence: 0.8,
+  },
+];
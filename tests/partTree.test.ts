@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { partId, createPartTree, recordInspection } from '../services/partTree';
+import { createTemplate, findMatchingTemplates } from '../services/planTemplates';
+import { parseRepairResponse } from '../services/planValidation';
+import { LAMP_PLAN } from './fixtures';
+
+const context = { sessionId: null, stepIndex: null };
+
+describe('partId', () => {
+  it('keeps names in scripts other than Latin', () => {
+    expect(partId('ブレーカー')).toBe('ブレーカー');
+    expect(partId('冰箱')).toBe('冰箱');
+    expect(partId('पंखे की मोटर')).toBe('पंखे-की-मोटर');
+  });
+
+  it('drops Latin accents instead of the letters that carry them', () => {
+    expect(partId('Réfrigérateur')).toBe('refrigerateur');
+    expect(partId('Blade  Hub')).toBe('blade-hub');
+  });
+});
+
+describe('part tree', () => {
+  it('records inspections named in any language', () => {
+    const tree = recordInspection(createPartTree('冰箱'), { name: 'ブレーカー', function: '', status: 'Good', details: '' }, context);
+    expect(tree.parts.map(part => part.id)).toEqual(['ブレーカー']);
+  });
+
+  it('gives unrelated objects their own trees', () => {
+    expect(createPartTree('冰箱').id).not.toBe(createPartTree('洗衣机').id);
+  });
+});
+
+describe('findMatchingTemplates', () => {
+  it('offers a saved template for a localized object name', () => {
+    const template = { ...createTemplate(parseRepairResponse(LAMP_PLAN).plan), tags: ['台灯'] };
+    expect(findMatchingTemplates([template], '台灯')).toEqual([template]);
+    expect(findMatchingTemplates([template], '冰箱')).toEqual([]);
+  });
+});
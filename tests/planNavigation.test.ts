@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { matchDecisionOption } from '../services/planNavigation';
+import { StepDecision } from '../types';
+
+const decision = (...labels: string[]): StepDecision => ({
+  question: 'Is the fuse blown?',
+  options: labels.map((label, index) => ({ label, nextStepId: index + 2 })),
+});
+
+describe('matchDecisionOption', () => {
+  it('picks yes/no branches by the leading word of each label', () => {
+    const fuse = decision("No, it's intact", 'Yes, it is blown');
+    expect(matchDecisionOption(fuse, 'yes')).toBe(1);
+    expect(matchDecisionOption(fuse, "yeah it's blown")).toBe(1);
+    expect(matchDecisionOption(fuse, 'no')).toBe(0);
+  });
+
+  it('reads a loose spoken yes', () => {
+    expect(matchDecisionOption(decision('Yes', 'No'), "it's correct")).toBe(0);
+    expect(matchDecisionOption(decision('Yes', 'No'), "it's not")).toBe(-1);
+  });
+
+  it('falls back to numbers and shared words', () => {
+    const parts = decision('The belt is worn', 'The pulley is cracked');
+    expect(matchDecisionOption(parts, 'option 2')).toBe(1);
+    expect(matchDecisionOption(parts, 'the first one')).toBe(0);
+    expect(matchDecisionOption(parts, 'cracked pulley')).toBe(1);
+  });
+});
@@ -0,0 +1,29 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import App from '../App';
+import { setVisionProvider, VisionProvider } from '../services/visionProvider';
+import { createMockProvider, MockProviderOptions } from '../services/providers/mockProvider';
+import { LAMP_PARTS, LAMP_PLAN } from './fixtures';
+
+// The offline mock backend, answering with the lamp fixtures unless told otherwise
+export const createTestProvider = (options: MockProviderOptions = {}): VisionProvider =>
+  createMockProvider({ plans: [LAMP_PLAN], components: LAMP_PARTS, latencyMs: 20, ...options });
+
+// Pass null to use whichever backend the environment configures
+export const renderApp = (provider: VisionProvider | null = createTestProvider()) => {
+  setVisionProvider(provider);
+  return render(<App />);
+};
+
+export const startCamera = async () => {
+  fireEvent.click(screen.getByRole('button', { name: 'Start Repair' }));
+  await screen.findByText('Point at broken object');
+};
+
+// From the live camera through diagnosis and the checklist to the first step of the guide
+export const scanIntoGuide = async () => {
+  fireEvent.click(screen.getByRole('button', { name: 'Scan' }));
+  await screen.findByText('Before You Start');
+  fireEvent.click(screen.getByRole('button', { name: /Start Repair/ }));
+  await screen.findByRole('region', { name: 'Current step' });
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createSession, getDiagnosisFrame, recordDiagnosisFrames } from '../services/repairSession';
+import { sessionToHtml, sessionToJson } from '../services/sessionReport';
+import { parseRepairResponse } from '../services/planValidation';
+import { LAMP_PLAN, SCAN_FRAME, STEP_FRAME } from './fixtures';
+
+const clip = [
+  { base64: SCAN_FRAME, timestampMs: 0, motionScore: 0 },
+  { base64: STEP_FRAME, timestampMs: 1200, motionScore: 14 },
+];
+
+const clipSession = () => {
+  const { plan } = parseRepairResponse(LAMP_PLAN);
+  const cited = { ...plan, diagnosisEvidence: [{ frameIndex: 1, timestampMs: 1200, observation: 'The filament is broken' }] };
+  return recordDiagnosisFrames(createSession(cited), clip);
+};
+
+describe('recordDiagnosisFrames', () => {
+  it('keeps only the clip frames the diagnosis cites', () => {
+    const session = clipSession();
+    expect(session.diagnosisFrames).toEqual([{ frameIndex: 1, timestampMs: 1200, image: `data:image/jpeg;base64,${STEP_FRAME}` }]);
+    expect(getDiagnosisFrame(session, 0)).toBeUndefined();
+  });
+
+  it('leaves single-frame scans without diagnosis frames', () => {
+    const session = createSession(parseRepairResponse(LAMP_PLAN).plan);
+    expect(recordDiagnosisFrames(session, clip)).toBe(session);
+  });
+
+  it('puts the cited frames in the HTML report and leaves them out of the plain JSON', () => {
+    const session = clipSession();
+    const html = sessionToHtml(session);
+    expect(html).toContain(`data:image/jpeg;base64,${STEP_FRAME}`);
+    expect(html).toContain('The filament is broken');
+    expect(sessionToJson(session)).not.toContain(STEP_FRAME);
+    expect(sessionToJson(session, true)).toContain(STEP_FRAME);
+  });
+});
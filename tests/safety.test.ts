@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { findStopCondition } from '../services/safety';
+import { ComponentInfo } from '../types';
+
+const check = (feedback: string) => findStopCondition({ completed: false, feedback });
+
+describe('findStopCondition', () => {
+  it('stops on a hazard even when the sentence negates something else', () => {
+    expect(check('Sparks are coming from the terminal, do not touch it.')).not.toBeNull();
+    expect(check("Don't touch the smoking wire.")).not.toBeNull();
+    expect(check('It is not safe, smoke is coming out of the vent.')).not.toBeNull();
+  });
+
+  it('treats a negated hazard as reassurance', () => {
+    expect(check('No sparks or smoke, the socket looks fine.')).toBeNull();
+    expect(check("The motor isn't smoking any more.")).toBeNull();
+    expect(check('There are no visible signs of scorching on the board.')).toBeNull();
+    expect(check('No smoke, sparks or burning smell.')).toBeNull();
+  });
+
+  it('stops when only part of a sentence is reassurance', () => {
+    expect(check('No smoke, but the wire insulation has melted.')).not.toBeNull();
+  });
+
+  it('does not stop on words that only name a part or give advice', () => {
+    expect(check('The smoke detector cover is not clipped on yet.')).toBeNull();
+    expect(check('The ice in the freezer has melted, drain it first.')).toBeNull();
+    expect(check('The solder joint is melted but not yet onto the pad.')).toBeNull();
+    expect(check('Not done yet. If it keeps tripping, call a professional.')).toBeNull();
+  });
+
+  it('never scans a passed check or an inspected part', () => {
+    const passed = (feedback: string) => findStopCondition({ completed: true, feedback });
+    expect(passed('The smoke detector cover is closed and the new battery is in.')).toBeNull();
+    expect(passed('The ice in the freezer has melted, good.')).toBeNull();
+    expect(passed('The solder joint is melted nicely onto the pad.')).toBeNull();
+    expect(passed('Looks done. If it keeps tripping, call a professional.')).toBeNull();
+    expect(passed('Done, but smoke is coming from the vent.')).toBeNull();
+    const part: ComponentInfo = { name: 'Smoke detector', function: 'Sounds the alarm', status: 'Good', details: 'Smoke is coming from the test button vent in the demo.' };
+    expect(findStopCondition(part)).toBeNull();
+    expect(findStopCondition({ ...part, hazard: 'Melted wire behind the base.' })).toBe('Melted wire behind the base.');
+  });
+
+  it('prefers the hazard the model reported', () => {
+    expect(findStopCondition({ completed: false, feedback: 'Looks fine.', hazard: 'Gas smell reported.' })).toBe('Gas smell reported.');
+    expect(findStopCondition({ completed: true, feedback: 'Looks fine.', hazard: 'Gas smell reported.' })).toBe('Gas smell reported.');
+  });
+});
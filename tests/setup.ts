@@ -0,0 +1,29 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup, configure } from '@testing-library/react';
+import { installFakeMedia } from './fakes/media';
+import { installFakeCanvas, pointCameraAt } from './fakes/canvas';
+import { installFakeSpeech, speech } from './fakes/speech';
+import { setVisionProvider } from '../services/visionProvider';
+import { resetUsageTally } from '../services/requestPipeline';
+import { SCAN_FRAME } from './fixtures';
+
+// Verification holds the frame steady for 1.5s before it asks the model, longer than the 1s default wait
+configure({ asyncUtilTimeout: 5000 });
+
+installFakeMedia();
+installFakeCanvas();
+installFakeSpeech();
+
+beforeEach(() => {
+  localStorage.clear();
+  speech.reset();
+  pointCameraAt(SCAN_FRAME);
+});
+
+afterEach(() => {
+  cleanup();
+  setVisionProvider(null);
+  resetUsageTally();
+  vi.unstubAllEnvs();
+});
@@ -2,10 +2,13 @@ export enum AppState {
   INTRO = 'INTRO',
   CAMERA_READY = 'CAMERA_READY',
   ANALYZING = 'ANALYZING',
+  CHECKLIST = 'CHECKLIST', // Parts & tools check before the guide starts
   REPAIR_GUIDE = 'REPAIR_GUIDE',
   VERIFYING = 'VERIFYING',
+  REPLANNING = 'REPLANNING', // Asking the model for a new plan from the current step
   INSPECTING = 'INSPECTING', // New state for Component Inspector
   COMPLETED = 'COMPLETED',
+  SAFETY_STOP = 'SAFETY_STOP', // A dangerous condition was seen; the guide will not continue
   ERROR = 'ERROR'
 }
 
@@ -16,52 +19,364 @@ export interface Coordinates {
   xmax: number;
 }
 
+export interface CuePoint {
+  x: number;
+  y: number;
+}
+
+// polygon: outline of an irregular part; sequence: numbered marker ("1", "2"...);
+// rotation: arc showing which way to turn; hazard: keep-out zone
+export type VisualCueType = 'box' | 'arrow' | 'point' | 'none' | 'polygon' | 'sequence' | 'rotation' | 'hazard';
+
 export interface VisualCue {
-  type: 'box' | 'arrow' | 'point' | 'none';
-  coordinates: Coordinates;
+  type: VisualCueType;
+  coordinates: Coordinates; // Bounding box, also for polygons
   label?: string;
   direction?: string; // e.g., "clockwise", "up"
+  points?: CuePoint[]; // Polygon outline, same 0-1000 space as coordinates
+  order?: number; // Sequence marker number
+  confidence?: number; // 0-1, how sure the model is the cue is on the right part
+}
+
+export type RequirementKind = 'tool' | 'consumable' | 'part';
+
+export interface StepRequirement {
+  name: string;
+  kind: RequirementKind;
+  quantity: number;
+}
+
+export type HazardCategory = 'electrical' | 'thermal' | 'pressure' | 'chemical' | 'sharp' | 'lifting';
+
+// high: the step is blocked until the user acknowledges it
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+export interface StepHazard {
+  category: HazardCategory;
+  severity: HazardSeverity;
+  description: string;
+  ppe: string[]; // e.g. "insulated gloves", "safety glasses"
+  preconditions: string[]; // Must be true before starting, e.g. "Unplug and wait 5 minutes"
+}
+
+export interface DecisionOption {
+  label: string; // What the user says or taps, e.g. "Yes, it's blown"
+  nextStepId: number; // Step id to continue from; 0 finishes the repair
+}
+
+// A question the user answers before the plan continues, e.g. "Is the fuse blown?"
+export interface StepDecision {
+  question: string;
+  options: DecisionOption[];
 }
 
 export interface RepairStep {
-  id: number;
+  id: number; // 1-based; branch targets refer to steps by id
   title: string;
   instruction: string;
-  visualCue: VisualCue;
+  visualCue: VisualCue; // Primary cue, always the first of visualCues
+  visualCues?: VisualCue[]; // Every cue for the step, in the order the user should act on them
   toolNeeded?: string;
+  requirements?: StepRequirement[]; // Structured tools/consumables/parts; older plans only have toolNeeded
   safetyWarning?: string; // New field for safety alerts
+  hazards?: StepHazard[]; // Structured form of safetyWarning; older plans only have the string
+  condition?: string; // When this step applies, e.g. "Only if the fuse is blown"
+  decision?: StepDecision; // Branch point; the answer picks the next step
+  nextStepId?: number; // Jump after this step instead of going to the next id, e.g. to rejoin after a branch
+  superseded?: boolean; // Replaced by a re-plan; kept so session history still lines up
+}
+
+// A frame from a multi-frame capture that shows the fault
+export interface FrameEvidence {
+  frameIndex: number; // Index into the key frames sent with the request
+  timestampMs?: number;
+  observation: string;
 }
 
 export interface RepairPlan {
   objectName: string;
   issueDiagnosis: string;
   steps: RepairStep[];
+  diagnosisEvidence?: FrameEvidence[]; // Only present when diagnosed from a frame sequence
+  replacedParts?: ReplacedPart[]; // Filled in by the user as the repair goes
+  diagnosisConfidence?: number; // 0-1; older plans and the offline fixtures may not have one
+  alternativeDiagnoses?: AlternativeDiagnosis[]; // Most likely first
+}
+
+// A plan saved for reuse on the same kind of object, e.g. a fix the team has done before
+export interface PlanTemplate {
+  id: string;
+  name: string;
+  tags: string[]; // Object names and model numbers it applies to, e.g. "dishwasher", "Bosch SMS46"
+  plan: RepairPlan;
+  referenceFrame?: string; // Scan the cue coordinates were drawn on; anchors cue tracking when the template is used
+  revision: number; // Bumped on every edit; imports keep the higher revision
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A diagnosis the model considered but ranked lower
+export interface AlternativeDiagnosis {
+  diagnosis: string;
+  confidence?: number; // 0-1
+  check?: string; // How to tell it apart from the main diagnosis, e.g. "Does it still drip with the valve shut?"
 }
 
+export interface ReplacedPart {
+  name: string;
+  quantity: number;
+  stepIndexes: number[];
+}
+
+// One deduplicated line of the pre-repair checklist
+export interface ChecklistItem {
+  id: string;
+  name: string;
+  kind: RequirementKind;
+  quantity: number;
+  stepIndexes: number[];
+  checked: boolean;
+  replaced?: boolean; // Parts only
+}
+
+export type ComponentStatus = 'Good' | 'Worn' | 'Damaged' | 'Missing' | 'Unknown';
+
 export interface ComponentInfo {
   name: string;
   function: string;
-  status: 'Good' | 'Damaged' | 'Unknown';
+  status: ComponentStatus;
+  details: string;
+  hazard?: string; // Dangerous condition seen on the part, stops the guide
+  box?: Coordinates; // Where the part is in the frame (0-1000); set by region and identify-all results
+  confidence?: number; // 0-1, how sure the model is of the identification and status
+  parent?: string; // Assembly the part belongs to, e.g. "Motor" for "Motor Bearing"
+}
+
+// Every part the model could make out in one frame
+export interface ComponentScan {
+  objectName: string;
+  components: ComponentInfo[];
+}
+
+export interface PartObservation {
+  status: ComponentStatus;
   details: string;
+  timestamp: number;
+  sessionId: string | null; // null when inspected before a repair started
+  stepIndex: number | null;
+}
+
+export interface PartNode {
+  id: string; // Normalized name, so "Blade hub" and "blade  Hub" are one part
+  name: string;
+  function: string;
+  parentId: string | null;
+  history: PartObservation[]; // Oldest first
+}
+
+// What has been learnt about one kind of object's parts, kept across repairs
+export interface PartTree {
+  id: string; // Normalized objectName; '' until the object is known
+  objectName: string;
+  parts: PartNode[];
+  updatedAt: number;
+}
+
+// For raw API response parsing. Untrusted: run through parseRepairResponse (services/planValidation.ts)
+export interface GeminiVisualCue {
+  type: string;
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+  label?: string;
+  direction?: string;
+  points?: { x: number; y: number }[];
+  order?: number;
+  confidence?: number;
 }
 
-// For raw API response parsing
 export interface GeminiRepairResponse {
   object_name: string;
   issue_diagnosis: string;
+  diagnosis_confidence?: number;
+  alternative_diagnoses?: {
+    diagnosis: string;
+    confidence?: number;
+    check?: string;
+  }[];
+  evidence_frames?: {
+    frame_index: number;
+    observation: string;
+  }[];
   steps: {
     title: string;
     instruction: string;
     tool_needed?: string;
+    requirements?: {
+      name: string;
+      kind: string;
+      quantity?: number;
+    }[];
     safety_warning?: string;
-    visual_cue: {
-      type: string;
-      ymin: number;
-      xmin: number;
-      ymax: number;
-      xmax: number;
-      label?: string;
-      direction?: string;
-    }
+    condition?: string;
+    decision?: {
+      question: string;
+      options: { label: string; next_step: number }[];
+    };
+    next_step?: number;
+    hazards?: {
+      category: string;
+      severity: string;
+      description?: string;
+      ppe?: string[];
+      preconditions?: string[];
+    }[];
+    visual_cue: GeminiVisualCue;
+    visual_cues?: GeminiVisualCue[];
   }[];
-}
\ No newline at end of file
+}
+
+export interface VerificationResult {
+  completed: boolean;
+  feedback: string;
+  hazard?: string; // Dangerous condition seen in the frame, stops the guide
+  confidence?: number; // 0-1; a low value means the user has to confirm the step themselves
+}
+
+// --- Repair Sessions (persisted in IndexedDB) ---
+
+export type SessionStatus = 'active' | 'completed' | 'abandoned' | 'stopped';
+
+export interface StepTiming {
+  stepIndex: number;
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface VerificationRecord {
+  stepIndex: number;
+  timestamp: number;
+  completed: boolean;
+  feedback: string;
+  confidence?: number;
+  confirmedByUser?: boolean; // Answer to a low-confidence check: true "it's done", false "not yet"
+}
+
+// Spoken commands that drive the guide instead of being answered
+export type VoiceCommand = 'next' | 'repeat' | 'back' | 'inspect' | 'verify';
+
+// One turn of the assistant conversation
+export interface AssistantExchange {
+  stepIndex: number;
+  timestamp: number;
+  question: string; // Transcript of what was asked; older sessions have a placeholder label
+  answer: string;
+  frame?: string; // JPEG data URL the question was asked about; dropped from older turns to save space
+  command?: VoiceCommand; // Set when the turn was a command rather than a question
+}
+
+export interface KeyFrame {
+  stepIndex: number;
+  timestamp: number;
+  kind: 'scan' | 'verification' | 'inspection' | 'replan'; // scan/replan frames are what the cue coordinates refer to
+  image: string; // JPEG data URL
+}
+
+export interface EvidenceFrame {
+  image: string; // JPEG data URL
+  timestamp: number;
+  // After frames only: what the passing check said
+  feedback?: string;
+  confidence?: number;
+  confirmedByUser?: boolean; // The check was unsure and the user said the step was done
+}
+
+// A clip frame the diagnosis cites, matched to plan.diagnosisEvidence by frameIndex
+export interface DiagnosisFrame {
+  frameIndex: number;
+  timestampMs: number; // Offset from the start of the clip
+  image: string; // JPEG data URL
+}
+
+// Photo record of one step for warranty and customer reports
+export interface StepEvidence {
+  stepIndex: number;
+  before?: EvidenceFrame; // First look at the step, before any work
+  after?: EvidenceFrame; // The frame the step passed verification on
+}
+
+// What model calls cost, summed over a session
+export interface RequestUsage {
+  calls: number; // Attempts sent to the model, retries included
+  failures: number; // Requests given up on after every retry
+  retries: number;
+  bytesSent: number; // Request payload, base64 images and audio included
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageTally extends RequestUsage {
+  byOperation: Record<string, RequestUsage>; // Keyed by provider method, e.g. "verifyRepairStep"
+}
+
+export interface RepairSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: SessionStatus;
+  plan: RepairPlan;
+  currentStepIndex: number;
+  stepTimings: StepTiming[];
+  verifications: VerificationRecord[];
+  assistantExchanges: AssistantExchange[];
+  keyFrames: KeyFrame[];
+  checklist: ChecklistItem[];
+  acknowledgedSteps?: number[]; // Steps whose high-severity hazards the user has acknowledged
+  safetyStop?: SafetyStop;
+  path?: number[]; // Step indexes visited, in order, ending at the current step; Back pops it
+  decisions?: DecisionRecord[];
+  replans?: ReplanRecord[];
+  evidence?: StepEvidence[]; // Kept apart from keyFrames so the frame cap never drops it
+  diagnosisFrames?: DiagnosisFrame[]; // Clip scans only; likewise kept apart from keyFrames
+  usage?: UsageTally;
+  template?: { id: string; name: string; revision: number }; // The saved fix the plan came from
+}
+
+export interface DecisionRecord {
+  stepIndex: number;
+  timestamp: number;
+  question: string;
+  answer: string;
+}
+
+export interface ReplanRecord {
+  fromStepIndex: number; // The step that was replaced
+  firstNewStepIndex: number;
+  timestamp: number;
+  reason: string;
+}
+
+export interface SafetyStop {
+  stepIndex: number;
+  timestamp: number;
+  source: 'verification' | 'inspection';
+  reason: string;
+}
+
+// --- Offline Request Queue ---
+
+interface QueuedRequestBase {
+  id: string;
+  sessionId: string | null;
+  stepIndex: number;
+  createdAt: number;
+  attempts: number;
+  image: string; // base64 JPEG, no prefix
+  instruction: string;
+}
+
+export type QueuedRequest =
+  | (QueuedRequestBase & { kind: 'verify' })
+  | (QueuedRequestBase & { kind: 'assistant'; audio: string; audioMimeType?: string });
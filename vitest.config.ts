@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Separate from vite.config.ts: tests need neither the dev server's plugins nor its env
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    include: ['tests/**/*.test.{ts,tsx}'],
+    setupFiles: ['tests/setup.ts'],
+    env: { VISION_PROVIDER: 'mock' },
+    // The guide waits a moment for the feed to settle before each check
+    testTimeout: 20000,
+  },
+});